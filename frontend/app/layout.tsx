@@ -13,8 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "Computer Use Agent",
+  description: "Start agent runs and follow them live",
 };
 
 export default function RootLayout({
@@ -1,64 +1,232 @@
-import Image from "next/image";
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LiveDesktop } from "@/components/live-desktop";
+import { PromptForm } from "@/components/prompt-form";
+import { RunList, StatusBadge } from "@/components/run-list";
+import { ScreenshotView } from "@/components/screenshot-view";
+import { Transcript } from "@/components/transcript";
+import {
+  AGENT_API_URL,
+  cancelRun,
+  handBack,
+  listRuns,
+  sendMessage,
+  startRun,
+  startStream,
+  subscribeToRun,
+  takeOver,
+  type RunEventRecord,
+  type RunInfo,
+} from "@/lib/agent-api";
+
+const POLL_INTERVAL_MS = 3000;
+
+interface TranscriptState {
+  runId: string | null;
+  events: RunEventRecord[];
+}
+
+export default function Dashboard() {
+  const [runs, setRuns] = useState<RunInfo[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptState>({
+    runId: null,
+    events: [],
+  });
+  const [screenVersion, setScreenVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const selectedId = transcript.runId;
+  const selected = runs.find((run) => run.id === selectedId);
+
+  const refreshRuns = useCallback(async () => {
+    try {
+      setRuns(await listRuns());
+      setError(null);
+    } catch (error) {
+      // fetch fails with a TypeError when nothing answers
+      setError(
+        error instanceof TypeError
+          ? `Cannot reach the agent server at ${AGENT_API_URL}. Start it with \`npm run server\`.`
+          : `Agent server: ${(error as Error).message}. Is NEXT_PUBLIC_AGENT_API_TOKEN its token?`
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(refreshRuns, POLL_INTERVAL_MS);
+    refreshRuns();
+    return () => clearInterval(timer);
+  }, [refreshRuns]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      return;
+    }
+    return subscribeToRun(selectedId, (event) => {
+      // The server replays earlier events on connect; skip those already
+      // shown and any that arrive late from a previous run
+      setTranscript((current) =>
+        current.runId !== event.runId ||
+        current.events.some((shown) => shown.seq === event.seq)
+          ? current
+          : { ...current, events: [...current.events, event] }
+      );
+      if (
+        event.type === "step" ||
+        event.type === "status" ||
+        event.type === "takeover"
+      ) {
+        setScreenVersion((version) => version + 1);
+        refreshRuns();
+      }
+    });
+  }, [selectedId, refreshRuns]);
+
+  function selectRun(id: string) {
+    setTranscript({ runId: id, events: [] });
+  }
+
+  /**
+   * Call the agent server, showing failures in the error banner
+   */
+  async function perform(action: () => Promise<unknown>) {
+    try {
+      await action();
+      await refreshRuns();
+    } catch (actionError) {
+      setError(
+        actionError instanceof Error ? actionError.message : String(actionError)
+      );
+    }
+  }
+
+  const handleStart = (prompt: string) =>
+    perform(async () => selectRun((await startRun(prompt)).id));
+  const canMessage =
+    !selected?.takenOver &&
+    (selected?.status === "completed" || selected?.status === "failed");
+  const hasDesktop =
+    selected?.status !== "starting" && selected?.status !== "cancelled";
+
+  /**
+   * Take over with the live view open, so there is something to drive
+   */
+  const toggleTakeOver = (run: RunInfo) =>
+    perform(async () => {
+      if (run.takenOver) {
+        await handBack(run.id);
+        return;
+      }
+      await startStream(run.id);
+      await takeOver(run.id);
+    });
 
-export default function Home() {
   return (
-    <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
-      <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black sm:items-start">
-        <Image
-          className="dark:invert"
-          src="/next.svg"
-          alt="Next.js logo"
-          width={100}
-          height={20}
-          priority
+    <div className="flex h-screen font-sans">
+      <aside className="flex w-80 shrink-0 flex-col gap-4 border-r bg-sidebar p-4">
+        <h1 className="text-lg font-semibold">Computer Use Agent</h1>
+        <PromptForm
+          onSubmit={handleStart}
+          placeholder="Open Firefox and search for the weather in Paris"
+          submitLabel="Start task"
         />
-        <div className="flex flex-col items-center gap-6 text-center sm:items-start sm:text-left">
-          <h1 className="max-w-xs text-3xl font-semibold leading-10 tracking-tight text-black dark:text-zinc-50">
-            To get started, edit the page.tsx file.
-          </h1>
-          <p className="max-w-md text-lg leading-8 text-zinc-600 dark:text-zinc-400">
-            Looking for a starting point or more instructions? Head over to{" "}
-            <a
-              href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-              className="font-medium text-zinc-950 dark:text-zinc-50"
-            >
-              Templates
-            </a>{" "}
-            or the{" "}
-            <a
-              href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-              className="font-medium text-zinc-950 dark:text-zinc-50"
-            >
-              Learning
-            </a>{" "}
-            center.
-          </p>
-        </div>
-        <div className="flex flex-col gap-4 text-base font-medium sm:flex-row">
-          <a
-            className="flex h-12 w-full items-center justify-center gap-2 rounded-full bg-foreground px-5 text-background transition-colors hover:bg-[#383838] dark:hover:bg-[#ccc] md:w-[158px]"
-            href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Image
-              className="dark:invert"
-              src="/vercel.svg"
-              alt="Vercel logomark"
-              width={16}
-              height={16}
-            />
-            Deploy Now
-          </a>
-          <a
-            className="flex h-12 w-full items-center justify-center rounded-full border border-solid border-black/[.08] px-5 transition-colors hover:border-transparent hover:bg-black/[.04] dark:border-white/[.145] dark:hover:bg-[#1a1a1a] md:w-[158px]"
-            href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            Documentation
-          </a>
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          <RunList runs={runs} selectedId={selectedId} onSelect={selectRun} />
         </div>
+      </aside>
+
+      <main className="flex min-w-0 flex-1 flex-col">
+        {error && (
+          <div className="border-b border-destructive/40 bg-destructive/10 px-6 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {selected ? (
+          <>
+            <header className="flex items-center gap-3 border-b px-6 py-3">
+              <StatusBadge status={selected.status} />
+              <span className="truncate text-sm">{selected.prompt}</span>
+              <span className="ml-auto shrink-0 font-mono text-xs text-muted-foreground">
+                {selected.sessionId ?? selected.id}
+              </span>
+              {hasDesktop && !selected.streamUrl && (
+                <button
+                  type="button"
+                  onClick={() => perform(() => startStream(selected.id))}
+                  className="h-8 shrink-0 rounded-md border px-3 text-xs font-medium transition-colors hover:bg-accent"
+                >
+                  Live view
+                </button>
+              )}
+              {hasDesktop && (
+                <button
+                  type="button"
+                  onClick={() => toggleTakeOver(selected)}
+                  className={`h-8 shrink-0 rounded-md border px-3 text-xs font-medium transition-colors ${
+                    selected.takenOver
+                      ? "bg-chart-4/15 text-chart-4"
+                      : "hover:bg-accent"
+                  }`}
+                >
+                  {selected.takenOver ? "Hand back" : "Take over"}
+                </button>
+              )}
+              {selected.status !== "cancelled" && (
+                <button
+                  type="button"
+                  onClick={() => perform(() => cancelRun(selected.id))}
+                  className="h-8 shrink-0 rounded-md border px-3 text-xs font-medium transition-colors hover:bg-destructive/10 hover:text-destructive"
+                >
+                  Cancel
+                </button>
+              )}
+            </header>
+            <div className="grid min-h-0 flex-1 grid-cols-1 gap-6 p-6 lg:grid-cols-2">
+              <section className="flex min-h-0 flex-col gap-4">
+                <div className="min-h-0 flex-1 overflow-y-auto">
+                  <Transcript events={transcript.events} />
+                </div>
+                <PromptForm
+                  onSubmit={(text) =>
+                    perform(() => sendMessage(selected.id, text))
+                  }
+                  placeholder={
+                    canMessage
+                      ? "Follow-up instruction"
+                      : selected.takenOver
+                        ? "Hand the desktop back to send another instruction"
+                        : "Wait for the task to finish to send another instruction"
+                  }
+                  submitLabel="Send"
+                  disabled={!canMessage}
+                />
+              </section>
+              <section>
+                {selected.status === "starting" ? (
+                  <p className="text-sm text-muted-foreground">
+                    Starting the desktop…
+                  </p>
+                ) : selected.status === "cancelled" ? (
+                  <p className="text-sm text-muted-foreground">
+                    The desktop was shut down.
+                  </p>
+                ) : selected.streamUrl ? (
+                  <LiveDesktop
+                    url={selected.streamUrl}
+                    interactive={selected.takenOver}
+                  />
+                ) : (
+                  <ScreenshotView runId={selected.id} version={screenVersion} />
+                )}
+              </section>
+            </div>
+          </>
+        ) : (
+          <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+            Start a task or pick a run to follow it live.
+          </div>
+        )}
       </main>
     </div>
   );
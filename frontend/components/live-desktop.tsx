@@ -0,0 +1,29 @@
+/**
+ * noVNC viewer of the run's desktop. It only accepts mouse and keyboard
+ * input while `interactive`, i.e. while a person has taken over.
+ */
+export function LiveDesktop({
+  url,
+  interactive,
+}: {
+  url: string;
+  interactive: boolean;
+}) {
+  const src = new URL(url);
+  src.searchParams.set("view_only", String(!interactive));
+
+  return (
+    <div
+      className={`relative aspect-[16/10] w-full overflow-hidden rounded-lg border bg-muted ${
+        interactive ? "ring-2 ring-chart-4" : ""
+      }`}
+    >
+      <iframe
+        key={src.toString()}
+        src={src.toString()}
+        title="Live view of the agent's desktop"
+        className="absolute inset-0 h-full w-full"
+      />
+    </div>
+  );
+}
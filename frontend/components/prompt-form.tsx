@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+/**
+ * Text box for a task or a follow-up instruction; Ctrl/Cmd+Enter submits
+ */
+export function PromptForm({
+  onSubmit,
+  placeholder,
+  submitLabel,
+  disabled = false,
+}: {
+  onSubmit: (prompt: string) => Promise<void>;
+  placeholder: string;
+  submitLabel: string;
+  disabled?: boolean;
+}) {
+  const [prompt, setPrompt] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (!prompt.trim()) {
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await onSubmit(prompt.trim());
+      setPrompt("");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <textarea
+        value={prompt}
+        onChange={(event) => setPrompt(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+            event.currentTarget.form?.requestSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        disabled={disabled}
+        rows={3}
+        className="w-full resize-none rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      />
+      <button
+        type="submit"
+        disabled={disabled || submitting || !prompt.trim()}
+        className="h-9 rounded-md bg-primary px-4 text-sm font-medium text-primary-foreground transition-opacity disabled:opacity-50"
+      >
+        {submitting ? "Sending…" : submitLabel}
+      </button>
+    </form>
+  );
+}
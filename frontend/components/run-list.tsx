@@ -0,0 +1,59 @@
+import type { RunInfo, RunStatus } from "@/lib/agent-api";
+
+const STATUS_STYLES: Record<RunStatus, string> = {
+  starting: "bg-muted text-muted-foreground",
+  running: "bg-chart-2/15 text-chart-2",
+  completed: "bg-secondary text-secondary-foreground",
+  failed: "bg-destructive/15 text-destructive",
+  paused: "bg-chart-4/15 text-chart-4",
+  cancelled: "bg-muted text-muted-foreground line-through",
+};
+
+export function StatusBadge({ status }: { status: RunStatus }) {
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
+
+export function RunList({
+  runs,
+  selectedId,
+  onSelect,
+}: {
+  runs: RunInfo[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}) {
+  if (runs.length === 0) {
+    return (
+      <p className="px-3 py-6 text-sm text-muted-foreground">No runs yet.</p>
+    );
+  }
+
+  return (
+    <ul className="flex flex-col gap-1">
+      {runs.map((run) => (
+        <li key={run.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(run.id)}
+            className={`flex w-full flex-col gap-1 rounded-md px-3 py-2 text-left transition-colors hover:bg-accent ${
+              run.id === selectedId ? "bg-accent" : ""
+            }`}
+          >
+            <span className="line-clamp-2 text-sm">{run.prompt}</span>
+            <span className="flex items-center gap-2 text-xs text-muted-foreground">
+              <StatusBadge status={run.status} />
+              {run.steps} steps ·{" "}
+              {new Date(run.createdAt).toLocaleTimeString()}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,25 @@
+import Image from "next/image";
+import { screenshotUrl } from "@/lib/agent-api";
+
+/**
+ * The run's current screen, reloaded whenever `version` changes
+ */
+export function ScreenshotView({
+  runId,
+  version,
+}: {
+  runId: string;
+  version: number;
+}) {
+  return (
+    <div className="relative aspect-[16/10] w-full overflow-hidden rounded-lg border bg-muted">
+      <Image
+        src={screenshotUrl(runId, version)}
+        alt="Current screen of the agent's desktop"
+        fill
+        unoptimized
+        className="object-contain"
+      />
+    </div>
+  );
+}
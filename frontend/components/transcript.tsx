@@ -0,0 +1,76 @@
+import type { RunEventRecord } from "@/lib/agent-api";
+
+function Entry({ event }: { event: RunEventRecord }) {
+  switch (event.type) {
+    case "user":
+      return (
+        <div className="self-end rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground">
+          {event.text}
+        </div>
+      );
+    case "text":
+      return (
+        <div className="whitespace-pre-wrap rounded-lg bg-muted px-3 py-2 text-sm">
+          {event.text}
+        </div>
+      );
+    case "tool_call":
+      return (
+        <div className="font-mono text-xs">
+          🔧 {event.name}{" "}
+          <span className="text-muted-foreground">
+            {JSON.stringify(event.input)}
+          </span>
+        </div>
+      );
+    case "tool_result":
+      return (
+        <div
+          className={`pl-5 font-mono text-xs ${
+            event.isError ? "text-destructive" : "text-muted-foreground"
+          }`}
+        >
+          {event.isError ? "✗" : "✓"} {event.text || `${event.images} image(s)`}
+        </div>
+      );
+    case "status":
+      if (event.status === "failed") {
+        return (
+          <div className="rounded-lg border border-destructive/40 px-3 py-2 text-sm text-destructive">
+            Failed: {event.error}
+          </div>
+        );
+      }
+      return event.status === "completed" ||
+        event.status === "paused" ||
+        event.status === "cancelled" ? (
+        <div className="text-center text-xs text-muted-foreground">
+          Task {event.status}
+        </div>
+      ) : null;
+    case "takeover":
+      return (
+        <div className="text-center text-xs text-chart-4">
+          {event.active
+            ? "You took over the desktop"
+            : "Desktop handed back to the agent"}
+        </div>
+      );
+    case "step":
+      return null;
+  }
+}
+
+/**
+ * Live transcript of a run: the task, the model's text, tool calls and
+ * their results
+ */
+export function Transcript({ events }: { events: RunEventRecord[] }) {
+  return (
+    <div className="flex flex-col gap-2">
+      {events.map((event) => (
+        <Entry key={event.seq} event={event} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Client for the agent server (`npm run server` in the repository root).
+ * The types mirror src/agent-server.ts.
+ */
+
+export const AGENT_API_URL =
+  process.env.NEXT_PUBLIC_AGENT_API_URL ?? "http://127.0.0.1:8787";
+
+/** Token the agent server printed at start (or its AGENT_SERVER_TOKEN) */
+const AGENT_API_TOKEN = process.env.NEXT_PUBLIC_AGENT_API_TOKEN ?? "";
+
+export type RunStatus =
+  | "starting"
+  | "running"
+  | "completed"
+  | "failed"
+  | "paused"
+  | "cancelled";
+
+export type RunEvent =
+  | { type: "status"; status: RunStatus; error?: string }
+  | { type: "user"; text: string }
+  | { type: "text"; step: number; text: string }
+  | {
+      type: "tool_call";
+      step: number;
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | {
+      type: "tool_result";
+      step: number;
+      id: string;
+      name: string;
+      isError: boolean;
+      text: string;
+      images: number;
+    }
+  | { type: "step"; step: number }
+  | { type: "takeover"; active: boolean };
+
+export type RunEventRecord = RunEvent & {
+  runId: string;
+  seq: number;
+  at: string;
+};
+
+export interface RunInfo {
+  id: string;
+  prompt: string;
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  steps: number;
+  sessionId?: string;
+  streamUrl?: string;
+  takenOver: boolean;
+  result?: string;
+  error?: string;
+}
+
+export interface RunDetail extends RunInfo {
+  events: RunEventRecord[];
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${AGENT_API_URL}${path}`, {
+    ...init,
+    headers: { ...init?.headers, Authorization: `Bearer ${AGENT_API_TOKEN}` },
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error ?? `${response.status} ${response.statusText}`);
+  }
+  return body as T;
+}
+
+export function listRuns(): Promise<RunInfo[]> {
+  return request("/runs");
+}
+
+export function getRun(id: string): Promise<RunDetail> {
+  return request(`/runs/${id}`);
+}
+
+export function startRun(prompt: string): Promise<RunInfo> {
+  return request("/runs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ prompt }),
+  });
+}
+
+/**
+ * Send a follow-up instruction to a run whose last task has finished
+ */
+export function sendMessage(id: string, text: string): Promise<RunInfo> {
+  return request(`/runs/${id}/messages`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text }),
+  });
+}
+
+/**
+ * Stop the run after its current step and shut down its desktop
+ */
+export function cancelRun(id: string): Promise<RunInfo> {
+  return request(`/runs/${id}/cancel`, { method: "POST" });
+}
+
+/**
+ * Start the live VNC view of the run's desktop and return its noVNC URL
+ */
+export async function startStream(id: string): Promise<string> {
+  const { url } = await request<{ url: string }>(`/runs/${id}/stream`, {
+    method: "POST",
+  });
+  return url;
+}
+
+/**
+ * Pause the agent after its current step so a person can drive the desktop
+ */
+export function takeOver(id: string): Promise<RunInfo> {
+  return request(`/runs/${id}/takeover`, { method: "POST" });
+}
+
+/**
+ * Give the desktop back to the agent, which continues a paused task
+ */
+export function handBack(id: string): Promise<RunInfo> {
+  return request(`/runs/${id}/handback`, { method: "POST" });
+}
+
+/**
+ * URL of the run's current screen; change `version` to load a new one
+ */
+export function screenshotUrl(id: string, version: number): string {
+  const token = encodeURIComponent(AGENT_API_TOKEN);
+  return `${AGENT_API_URL}/runs/${id}/screenshot?v=${version}&token=${token}`;
+}
+
+/**
+ * Receive a run's events: those so far, then live ones. Returns a function
+ * that closes the connection.
+ */
+export function subscribeToRun(
+  id: string,
+  onEvent: (event: RunEventRecord) => void
+): () => void {
+  const socket = new WebSocket(
+    `${AGENT_API_URL.replace(/^http/, "ws")}/runs/${id}/events` +
+      `?token=${encodeURIComponent(AGENT_API_TOKEN)}`
+  );
+  socket.onmessage = (message) => onEvent(JSON.parse(message.data));
+  return () => socket.close();
+}
@@ -0,0 +1,373 @@
+/**
+ * Agent Loop
+ * Shared model/tool loop used by every computer use agent. Calls the model,
+ * executes the requested tools, feeds the tool_result blocks back and
+ * repeats until the model stops asking for tools. When streaming, each tool
+ * starts as soon as its tool_use block is complete, while the rest of the
+ * reply is still arriving.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type { ApprovalPolicy } from "./approval-policy.js";
+import CONFIG from "./config.js";
+import type { HistoryManager } from "./history-manager.js";
+import type { CostTracker } from "./cost-tracker.js";
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+} from "./model-provider.js";
+import { getToolsForAPI, type ToolDefinition } from "./tools.js";
+
+export type ToolResultContent = Anthropic.ToolResultBlockParam["content"];
+
+export type ToolCallHandler = (
+  name: string,
+  input: Record<string, unknown>
+) => Promise<ToolResultContent>;
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface AgentLoopHooks {
+  /** Called after every model call with the request as it was sent */
+  onModelResponse?(
+    response: ModelResponse,
+    request: ModelRequest,
+    step: number,
+    durationMs: number
+  ): void;
+  /** Called for every chunk of text while a reply is streamed */
+  onTextDelta?(text: string, step: number): void;
+  /** Called for every text block the model returns, once it is complete */
+  onText?(text: string, step: number): void;
+  /**
+   * Called for every tool_use block the model returns, once it is complete
+   * and before the tool is executed
+   */
+  onToolCall?(call: ToolCall, step: number): void;
+  /**
+   * Called after a tool has been executed (successfully or not), with the
+   * input it actually ran with
+   */
+  onToolResult?(
+    call: ToolCall,
+    result: Anthropic.ToolResultBlockParam,
+    step: number,
+    durationMs: number
+  ): void;
+  /**
+   * Called at the end of every step, once the assistant turn and its tool
+   * results are in the history; the history is consistent at this point
+   */
+  onStepComplete?(step: number): void;
+}
+
+export interface AgentLoopOptions {
+  provider: ModelProvider;
+  system: string;
+  executeTool: ToolCallHandler;
+  /** Tool schemas sent with every model call (default: getToolsForAPI()) */
+  tools?: ToolDefinition[];
+  maxTokens?: number;
+  maxSteps?: number;
+  /** Time limit for each model call and each tool call */
+  stepTimeoutMs?: number;
+  hooks?: AgentLoopHooks[];
+  /** Compacts the history before every model call */
+  history?: HistoryManager;
+  /** Reviews tool calls before they run; rejected calls are not executed */
+  approval?: ApprovalPolicy;
+  /**
+   * Stream replies when the provider supports it (default: false). Tools
+   * run as soon as their block closes, in the order the model sent them.
+   */
+  stream?: boolean;
+}
+
+export interface AgentLoopResult {
+  /** All text produced by the model during the run */
+  text: string;
+  /** Number of model calls made */
+  steps: number;
+  /**
+   * "aborted" when the run was stopped through its AbortSignal, "budget"
+   * when a limit of its CostTracker was reached
+   */
+  stopReason: "completed" | "max_steps" | "aborted" | "budget";
+}
+
+export interface AgentLoopRunOptions {
+  /**
+   * Stops the run before the next model call. The step in progress is
+   * finished first, so the history is left in a resumable state.
+   */
+  signal?: AbortSignal;
+  /**
+   * Tracks usage through its hooks (register them with addHooks) and stops
+   * the run before the next model call once one of its limits is reached
+   */
+  budget?: CostTracker;
+  /** Step limit for this run, e.g. what a resumed task has left */
+  maxSteps?: number;
+}
+
+export class AgentLoop {
+  private tools: ToolDefinition[];
+  private hooks: AgentLoopHooks[];
+  private maxTokens: number;
+  private maxSteps: number;
+  private stepTimeoutMs: number;
+
+  constructor(private options: AgentLoopOptions) {
+    this.tools = options.tools ?? getToolsForAPI();
+    this.hooks = [...(options.hooks ?? [])];
+    this.maxTokens = options.maxTokens ?? CONFIG.model.maxTokens;
+    this.maxSteps = options.maxSteps ?? CONFIG.task.maxSteps;
+    this.stepTimeoutMs = options.stepTimeoutMs ?? CONFIG.task.stepTimeoutMs;
+  }
+
+  /**
+   * Register additional hooks. Returns a function that removes them again.
+   */
+  addHooks(hooks: AgentLoopHooks): () => void {
+    this.hooks.push(hooks);
+    return () => {
+      this.hooks = this.hooks.filter((h) => h !== hooks);
+    };
+  }
+
+  /**
+   * Run the loop on the given conversation. The history is updated in place
+   * with every assistant turn and every batch of tool results.
+   */
+  async run(
+    history: Anthropic.MessageParam[],
+    options: AgentLoopRunOptions = {}
+  ): Promise<AgentLoopResult> {
+    const texts: string[] = [];
+    const maxSteps = options.maxSteps ?? this.maxSteps;
+
+    for (let step = 1; step <= maxSteps; step++) {
+      if (options.signal?.aborted) {
+        return {
+          text: texts.join("\n"),
+          steps: step - 1,
+          stopReason: "aborted",
+        };
+      }
+
+      if (options.budget?.exceededLimit()) {
+        return {
+          text: texts.join("\n"),
+          steps: step - 1,
+          stopReason: "budget",
+        };
+      }
+
+      const compaction = await this.options.history?.compact(history);
+      const summaryCall = compaction?.summaryCall;
+      if (summaryCall) {
+        // The summary is paid for by this step, like its own model call
+        this.emit((hooks) =>
+          hooks.onModelResponse?.(
+            summaryCall.response,
+            summaryCall.request,
+            step,
+            summaryCall.durationMs
+          )
+        );
+      }
+
+      const request: ModelRequest = {
+        system: this.options.system,
+        messages: history,
+        tools: this.tools,
+        maxTokens: this.maxTokens,
+      };
+      // Tools run one after another, each starting once its block is
+      // complete and the previous tool has finished
+      const toolResults: Anthropic.ToolResultBlockParam[] = [];
+      let toolRuns = Promise.resolve();
+      const handleBlock = (block: Anthropic.ContentBlock): void => {
+        if (block.type === "text") {
+          texts.push(block.text);
+          this.emit((hooks) => hooks.onText?.(block.text, step));
+        } else if (block.type === "tool_use") {
+          const call: ToolCall = {
+            id: block.id,
+            name: block.name,
+            input: (block.input ?? {}) as Record<string, unknown>,
+          };
+          this.emit((hooks) => hooks.onToolCall?.(call, step));
+          toolRuns = toolRuns.then(async () => {
+            toolResults.push(await this.runToolCall(call, step));
+          });
+        }
+      };
+
+      const requestedAt = Date.now();
+      let response: ModelResponse;
+      try {
+        response = await this.callModel(request, step, handleBlock);
+      } catch (error) {
+        // Let tools already started by a broken stream finish first
+        await toolRuns;
+        throw error;
+      }
+      const responseMs = Date.now() - requestedAt;
+      this.emit((hooks) =>
+        hooks.onModelResponse?.(response, request, step, responseMs)
+      );
+
+      history.push({ role: "assistant", content: response.content });
+      await toolRuns;
+
+      if (!response.content.some((block) => block.type === "tool_use")) {
+        this.emit((hooks) => hooks.onStepComplete?.(step));
+        return { text: texts.join("\n"), steps: step, stopReason: "completed" };
+      }
+
+      history.push({ role: "user", content: toolResults });
+      this.emit((hooks) => hooks.onStepComplete?.(step));
+    }
+
+    return {
+      text: texts.join("\n"),
+      steps: maxSteps,
+      stopReason: "max_steps",
+    };
+  }
+
+  /**
+   * Call the model, streaming when enabled and supported. Every content
+   * block is passed to `onBlock` once complete: during the stream, or after
+   * the reply when not streaming.
+   */
+  private async callModel(
+    request: ModelRequest,
+    step: number,
+    onBlock: (block: Anthropic.ContentBlock) => void
+  ): Promise<ModelResponse> {
+    const { provider } = this.options;
+    const timeoutMessage = `Model call timed out after ${this.stepTimeoutMs}ms`;
+    if (this.options.stream && provider.streamMessage) {
+      return this.withTimeout(
+        provider.streamMessage(request, {
+          onTextDelta: (text) =>
+            this.emit((hooks) => hooks.onTextDelta?.(text, step)),
+          onContentBlock: onBlock,
+        }),
+        timeoutMessage
+      );
+    }
+
+    const response = await this.withTimeout(
+      provider.createMessage(request),
+      timeoutMessage
+    );
+    response.content.forEach(onBlock);
+    return response;
+  }
+
+  /**
+   * Review and execute one tool call. Never throws: failures become
+   * tool_result errors.
+   */
+  private async runToolCall(
+    proposed: ToolCall,
+    step: number
+  ): Promise<Anthropic.ToolResultBlockParam> {
+    let call = proposed;
+    let result: Anthropic.ToolResultBlockParam;
+    let durationMs = 0;
+    try {
+      call = await this.review(proposed);
+      const startedAt = Date.now();
+      result = await this.executeToolCall(call);
+      durationMs = Date.now() - startedAt;
+    } catch (error) {
+      result = toErrorResult(call, error);
+    }
+
+    this.emit((hooks) => hooks.onToolResult?.(call, result, step, durationMs));
+    return result;
+  }
+
+  private emit(callback: (hooks: AgentLoopHooks) => void): void {
+    for (const hooks of this.hooks) {
+      try {
+        callback(hooks);
+      } catch (error) {
+        console.error("Agent loop hook failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Let the approval policy (if any) approve, edit or reject the call.
+   * Runs outside the step timeout so the operator can take their time.
+   */
+  private async review(call: ToolCall): Promise<ToolCall> {
+    if (!this.options.approval) {
+      return call;
+    }
+    return { ...call, input: await this.options.approval.review(call) };
+  }
+
+  /**
+   * Execute a single tool call, turning failures and timeouts into
+   * tool_result errors the model can react to
+   */
+  private async executeToolCall(
+    call: ToolCall
+  ): Promise<Anthropic.ToolResultBlockParam> {
+    try {
+      const content = await this.withTimeout(
+        this.options.executeTool(call.name, call.input),
+        `Tool ${call.name} timed out after ${this.stepTimeoutMs}ms`
+      );
+      return { type: "tool_result", tool_use_id: call.id, content };
+    } catch (error) {
+      return toErrorResult(call, error);
+    }
+  }
+
+  /**
+   * Reject with `message` unless the promise settles within the step
+   * timeout. The work itself is not cancelled.
+   */
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    message: string
+  ): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), this.stepTimeoutMs);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function toErrorResult(
+  call: ToolCall,
+  error: unknown
+): Anthropic.ToolResultBlockParam {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return {
+    type: "tool_result",
+    tool_use_id: call.id,
+    content: errorMessage,
+    is_error: true,
+  };
+}
+
+export default AgentLoop;
@@ -0,0 +1,780 @@
+/**
+ * Agent Server
+ * Long-running HTTP + WebSocket server that exposes ComputerUseAgent runs as
+ * a REST API, for the web dashboard in frontend/ and other services. Every
+ * run gets its own agent and desktop, kept for follow-up messages until the
+ * run is cancelled or the server stops.
+ *
+ * Routes:
+ *   GET  /runs                 All runs, newest first
+ *   POST /runs                 Start a run: { "prompt": "..." }
+ *   GET  /runs/:id             One run with its events
+ *   POST /runs/:id/messages    Send a follow-up instruction: { "text": "..." }
+ *   POST /runs/:id/cancel      Stop after the current step and kill the desktop
+ *   GET  /runs/:id/screenshot  Current screen of the run's desktop
+ *   POST /runs/:id/stream      Start a live VNC view of the desktop: { url }
+ *   POST /runs/:id/takeover    Pause the agent so a person can drive
+ *   POST /runs/:id/handback    Give the desktop back; a paused task continues
+ *   WS   /runs/:id/events      The run's events so far, then live ones
+ *   WS   /events               Live events of all runs
+ *
+ * Every request needs the server's token, as `Authorization: Bearer <token>`
+ * or (for images and WebSockets, which cannot set headers) `?token=<token>`.
+ * Browsers may only call it from the dashboard's origins.
+ *
+ * Usage: npm run server -- [--port 8787] [--host 127.0.0.1]
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import { randomBytes, timingSafeEqual } from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import type { Duplex } from "stream";
+import { pathToFileURL } from "url";
+import { WebSocket, WebSocketServer } from "ws";
+import type { AgentLoopHooks } from "./agent-loop.js";
+import CONFIG from "./config.js";
+import { ComputerUseAgent } from "./index.js";
+import { createRunId } from "./trajectory.js";
+
+export type RunStatus =
+  | "starting"
+  | "running"
+  | "completed"
+  | "failed"
+  | "paused"
+  | "cancelled";
+
+export type RunEvent =
+  | { type: "status"; status: RunStatus; error?: string }
+  | { type: "user"; text: string }
+  | { type: "text"; step: number; text: string }
+  | {
+      type: "tool_call";
+      step: number;
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | {
+      type: "tool_result";
+      step: number;
+      id: string;
+      name: string;
+      isError: boolean;
+      /** Text of the result; images are only counted */
+      text: string;
+      images: number;
+    }
+  | { type: "step"; step: number }
+  /** A person took over the desktop (active) or handed it back */
+  | { type: "takeover"; active: boolean };
+
+/** An event as stored and sent to clients */
+export type RunEventRecord = RunEvent & {
+  runId: string;
+  /** Position in the run's event list, from 0 */
+  seq: number;
+  at: string;
+};
+
+export interface RunInfo {
+  id: string;
+  prompt: string;
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  steps: number;
+  /** Saved session of the run (see `npm run sessions`), once it has one */
+  sessionId?: string;
+  /** noVNC viewer of the desktop, once the live view was started */
+  streamUrl?: string;
+  /** A person is driving the desktop and the agent is held */
+  takenOver: boolean;
+  /** Final reply of the model to the latest instruction */
+  result?: string;
+  error?: string;
+}
+
+export interface RunDetail extends RunInfo {
+  events: RunEventRecord[];
+}
+
+export interface AgentServerOptions {
+  host?: string;
+  /** Port to listen on (default: CONFIG.server.port; 0 picks a free port) */
+  port?: number;
+  /**
+   * Token clients must send (default: CONFIG.server.token, else a random one
+   * made when the server is created)
+   */
+  token?: string;
+  /** Browser origins allowed to call the API (default: CONFIG.server.origins) */
+  origins?: string[];
+  /** Agent for a new run; it is initialized by the server */
+  createAgent?: () => ComputerUseAgent;
+}
+
+interface Run {
+  info: RunInfo;
+  events: RunEventRecord[];
+  agent: ComputerUseAgent;
+  /** The agent is initialized and its desktop alive */
+  ready: boolean;
+  cancelled: boolean;
+  /** Settles when the run's current task has finished */
+  done: Promise<void>;
+  clients: Set<WebSocket>;
+}
+
+export class AgentServer {
+  private runs = new Map<string, Run>();
+  private server: http.Server | null = null;
+  private sockets = new WebSocketServer({ noServer: true });
+  /** Clients of /events, which get every run's events */
+  private listeners = new Set<WebSocket>();
+  /** Token every request must carry */
+  readonly token: string;
+
+  constructor(private options: AgentServerOptions = {}) {
+    this.token =
+      options.token ?? CONFIG.server.token ?? randomBytes(24).toString("hex");
+  }
+
+  /**
+   * Start listening. Returns the base URL of the API.
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    server.on("upgrade", (req, socket, head) =>
+      this.upgrade(req, socket, head)
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(
+        this.options.port ?? CONFIG.server.port,
+        this.options.host ?? CONFIG.server.host,
+        () => resolve()
+      );
+    });
+    this.server = server;
+    return this.baseURL();
+  }
+
+  baseURL(): string {
+    if (!this.server) {
+      throw new Error("Agent server is not running");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host ?? CONFIG.server.host}:${port}`;
+  }
+
+  /**
+   * Stop listening. Running tasks are paused after their current step, so
+   * their sessions can be resumed later; finished runs' desktops are killed.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    const runs = [...this.runs.values()];
+    for (const run of runs) {
+      if (run.info.status === "running") {
+        run.agent.pause();
+      }
+      run.clients.forEach((client) => client.close());
+    }
+    this.listeners.forEach((client) => client.close());
+    await Promise.all(
+      runs.map(async (run) => {
+        await run.done;
+        if (!run.cancelled) {
+          await run.agent.cleanup();
+        }
+      })
+    );
+
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Start a run in the background and return it
+   */
+  startRun(prompt: string): RunInfo {
+    const now = new Date().toISOString();
+    const run: Run = {
+      info: {
+        id: createRunId(),
+        prompt,
+        status: "starting",
+        createdAt: now,
+        updatedAt: now,
+        steps: 0,
+        takenOver: false,
+      },
+      events: [],
+      agent: this.options.createAgent?.() ?? new ComputerUseAgent(),
+      ready: false,
+      cancelled: false,
+      done: Promise.resolve(),
+      clients: new Set(),
+    };
+    this.runs.set(run.info.id, run);
+    this.emit(run, { type: "status", status: "starting" });
+    this.emit(run, { type: "user", text: prompt });
+    run.done = this.execute(run, (agent) => agent.chat(prompt));
+    return { ...run.info };
+  }
+
+  /**
+   * Send a follow-up instruction to a run whose last task has finished; it
+   * runs in the background on the same desktop and conversation
+   */
+  sendMessage(id: string, text: string): RunInfo {
+    const run = this.find(id);
+    if (run.info.takenOver) {
+      throw new Error(`Run ${id} is taken over; hand the desktop back first`);
+    }
+    const { status } = run.info;
+    if (run.cancelled || (status !== "completed" && status !== "failed")) {
+      const state = run.cancelled ? "cancelled" : status;
+      throw new Error(
+        `Run ${id} is ${state}; send messages once its task has finished`
+      );
+    }
+    if (!run.ready) {
+      throw new Error(`Run ${id} failed before its desktop was ready`);
+    }
+
+    run.info.error = undefined;
+    this.emit(run, { type: "user", text });
+    this.setStatus(run, "running");
+    run.done = this.execute(run, (agent) => agent.chat(text));
+    return { ...run.info };
+  }
+
+  /**
+   * Stop a run for good: its task is paused after the current step, then
+   * the session is marked cancelled and the desktop killed
+   */
+  async cancelRun(id: string): Promise<RunInfo> {
+    const run = this.find(id);
+    if (run.cancelled) {
+      throw new Error(`Run ${id} is already cancelled`);
+    }
+
+    run.cancelled = true;
+    run.agent.pause();
+    await run.done;
+    await run.agent.cancel();
+    run.ready = false;
+    run.info.takenOver = false;
+    this.setStatus(run, "cancelled");
+    return { ...run.info };
+  }
+
+  /**
+   * Start the live VNC view of a run's desktop and return its URL. The URL
+   * gives control of the desktop (E2B's carries the stream's auth key), so
+   * it only goes to clients that passed the token and origin checks.
+   */
+  async startStream(id: string): Promise<string> {
+    const run = this.find(id);
+    if (!run.ready) {
+      throw new Error(`Run ${id} has no desktop`);
+    }
+    run.info.streamUrl ??= (await run.agent.startStream()).url;
+    return run.info.streamUrl;
+  }
+
+  /**
+   * Hold the agent so a person can drive the desktop: a running task is
+   * paused after its current step, and no messages are accepted until
+   * handBack()
+   */
+  async takeOver(id: string): Promise<RunInfo> {
+    const run = this.find(id);
+    if (!run.ready || run.cancelled) {
+      throw new Error(`Run ${id} has no desktop`);
+    }
+    if (run.info.takenOver) {
+      throw new Error(`Run ${id} is already taken over`);
+    }
+
+    run.info.takenOver = true;
+    this.emit(run, { type: "takeover", active: true });
+    // Only a running task is paused: the agent keeps a pause requested
+    // between tasks for the next one, which would stop the next message
+    if (run.info.status === "running") {
+      run.agent.pause();
+    }
+    await run.done;
+    return { ...run.info };
+  }
+
+  /**
+   * Give the desktop back to the agent. A task paused by takeOver()
+   * continues, told that the screen may have changed.
+   */
+  handBack(id: string): RunInfo {
+    const run = this.find(id);
+    if (!run.info.takenOver) {
+      throw new Error(`Run ${id} is not taken over`);
+    }
+
+    run.info.takenOver = false;
+    this.emit(run, { type: "takeover", active: false });
+    if (run.info.status === "paused") {
+      this.setStatus(run, "running");
+      run.done = this.execute(run, (agent) => agent.continue(HANDBACK_NOTE));
+    }
+    return { ...run.info };
+  }
+
+  listRuns(): RunInfo[] {
+    return [...this.runs.values()]
+      .map((run) => ({ ...run.info }))
+      .reverse();
+  }
+
+  getRun(id: string): RunDetail | undefined {
+    const run = this.runs.get(id);
+    return run && { ...run.info, events: [...run.events] };
+  }
+
+  private find(id: string): Run {
+    const run = this.runs.get(id);
+    if (!run) {
+      throw new Error(`Unknown run: ${id}`);
+    }
+    return run;
+  }
+
+  /**
+   * Run one task of the agent, initializing it on the first one
+   */
+  private async execute(
+    run: Run,
+    task: (agent: ComputerUseAgent) => Promise<string>
+  ): Promise<void> {
+    try {
+      if (!run.ready) {
+        await run.agent.initialize();
+        run.agent.addHooks(this.hooks(run));
+        run.ready = true;
+        this.setStatus(run, "running");
+      }
+
+      run.info.result = await task(run.agent);
+      this.setStatus(run, run.agent.paused ? "paused" : "completed");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      run.info.error = errorMessage;
+      this.setStatus(run, "failed", errorMessage);
+    }
+  }
+
+  /**
+   * Agent loop hooks that turn the run's progress into events
+   */
+  private hooks(run: Run): AgentLoopHooks {
+    return {
+      onText: (text, step) => this.emit(run, { type: "text", step, text }),
+      onToolCall: (call, step) =>
+        this.emit(run, { type: "tool_call", step, ...call }),
+      onToolResult: (call, result, step) => {
+        const blocks = Array.isArray(result.content) ? result.content : [];
+        this.emit(run, {
+          type: "tool_result",
+          step,
+          id: call.id,
+          name: call.name,
+          isError: result.is_error === true,
+          text: resultText(result),
+          images: blocks.filter((block) => block.type === "image").length,
+        });
+      },
+      onStepComplete: (step) => {
+        run.info.steps++;
+        run.info.sessionId = run.agent.runId;
+        this.emit(run, { type: "step", step });
+      },
+    };
+  }
+
+  private setStatus(run: Run, status: RunStatus, error?: string): void {
+    run.info.status = status;
+    this.emit(run, { type: "status", status, ...(error ? { error } : {}) });
+  }
+
+  /**
+   * Store an event and send it to the run's WebSocket clients and to those
+   * listening to all runs
+   */
+  private emit(run: Run, event: RunEvent): void {
+    const at = new Date().toISOString();
+    const record: RunEventRecord = {
+      ...event,
+      runId: run.info.id,
+      seq: run.events.length,
+      at,
+    };
+    run.events.push(record);
+    run.info.updatedAt = at;
+
+    const message = JSON.stringify(record);
+    for (const client of [...run.clients, ...this.listeners]) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    }
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    // The dashboard is served from another origin (the Next.js dev server);
+    // other web pages the operator opens must not drive their desktop
+    const origin = req.headers.origin;
+    if (origin !== undefined) {
+      if (!this.allowsOrigin(origin)) {
+        this.sendError(res, 403, `Origin ${origin} is not allowed`);
+        return;
+      }
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+      res.setHeader(
+        "Access-Control-Allow-Headers",
+        "Content-Type, Authorization"
+      );
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!this.authorized(req, url)) {
+      this.sendError(res, 401, "Missing or wrong agent server token");
+      return;
+    }
+    const [collection, id, action] = url.pathname.split("/").filter(Boolean);
+    const route = `${req.method} /${[collection, id && ":id", action]
+      .filter(Boolean)
+      .join("/")}`;
+
+    try {
+      if (collection !== "runs") {
+        this.sendError(res, 404, `No route for ${req.method} ${url.pathname}`);
+        return;
+      }
+
+      switch (route) {
+        case "GET /runs":
+          this.sendJson(res, 200, this.listRuns());
+          return;
+        case "POST /runs":
+          await this.createRun(req, res);
+          return;
+      }
+
+      const run = id === undefined ? undefined : this.runs.get(id);
+      if (!run) {
+        this.sendError(res, 404, `Unknown run: ${id}`);
+        return;
+      }
+
+      switch (route) {
+        case "GET /runs/:id":
+          this.sendJson(res, 200, this.getRun(id));
+          return;
+        case "POST /runs/:id/messages":
+          await this.postMessage(req, res, run);
+          return;
+        case "POST /runs/:id/cancel":
+          await this.respond(res, 200, () => this.cancelRun(run.info.id));
+          return;
+        case "GET /runs/:id/screenshot":
+          await this.sendScreenshot(res, run);
+          return;
+        case "POST /runs/:id/stream":
+          await this.respond(res, 200, async () => ({
+            url: await this.startStream(run.info.id),
+          }));
+          return;
+        case "POST /runs/:id/takeover":
+          await this.respond(res, 200, () => this.takeOver(run.info.id));
+          return;
+        case "POST /runs/:id/handback":
+          await this.respond(res, 200, () => this.handBack(run.info.id));
+          return;
+        default:
+          this.sendError(res, 404, `No route for ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.sendError(res, 500, errorMessage);
+    }
+  }
+
+  private async createRun(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const prompt = await this.readText(req, res, "prompt");
+    if (prompt !== null) {
+      this.sendJson(res, 201, this.startRun(prompt));
+    }
+  }
+
+  private async postMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    run: Run
+  ): Promise<void> {
+    const text = await this.readText(req, res, "text");
+    if (text === null) {
+      return;
+    }
+    await this.respond(res, 202, () => this.sendMessage(run.info.id, text));
+  }
+
+  /**
+   * Answer with the action's result, or 409 when the run is not in a state
+   * that allows it
+   */
+  private async respond(
+    res: http.ServerResponse,
+    status: number,
+    action: () => unknown
+  ): Promise<void> {
+    let result: unknown;
+    try {
+      result = await action();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.sendError(res, 409, errorMessage);
+      return;
+    }
+    this.sendJson(res, status, result);
+  }
+
+  /**
+   * Read a non-empty string field from a JSON body; answers 400 and
+   * returns null when there is none
+   */
+  private async readText(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    field: string
+  ): Promise<string | null> {
+    // Only JSON: a form or text/plain body could come from any web page
+    // without a CORS preflight
+    if (!req.headers["content-type"]?.startsWith("application/json")) {
+      this.sendError(res, 415, "Expected Content-Type: application/json");
+      return null;
+    }
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      this.sendError(res, 400, "Request body is not valid JSON");
+      return null;
+    }
+    const value = body?.[field];
+    if (typeof value !== "string" || !value.trim()) {
+      this.sendError(res, 400, `Expected { "${field}": "..." }`);
+      return null;
+    }
+    return value.trim();
+  }
+
+  private async sendScreenshot(
+    res: http.ServerResponse,
+    run: Run
+  ): Promise<void> {
+    if (!run.ready) {
+      this.sendError(
+        res,
+        409,
+        run.info.status === "starting"
+          ? "The run's desktop is not ready yet"
+          : "The run has no desktop any more"
+      );
+      return;
+    }
+    const base64 = await run.agent.takeScreenshot();
+    res.writeHead(200, {
+      "Content-Type": `image/${CONFIG.desktop.screenshotFormat}`,
+      "Cache-Control": "no-store",
+    });
+    res.end(Buffer.from(base64, "base64"));
+  }
+
+  /**
+   * Accept WebSocket connections on /runs/:id/events and /events
+   */
+  private upgrade(
+    req: http.IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): void {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const origin = req.headers.origin;
+    if (origin !== undefined && !this.allowsOrigin(origin)) {
+      socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+      return;
+    }
+    if (!this.authorized(req, url)) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      return;
+    }
+
+    if (url.pathname === "/events") {
+      this.sockets.handleUpgrade(req, socket, head, (client) => {
+        this.listeners.add(client);
+        client.on("close", () => this.listeners.delete(client));
+      });
+      return;
+    }
+
+    const [collection, id, action] = url.pathname.split("/").filter(Boolean);
+    const run =
+      collection === "runs" && action === "events"
+        ? this.runs.get(id)
+        : undefined;
+    if (!run) {
+      socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+      return;
+    }
+
+    this.sockets.handleUpgrade(req, socket, head, (client) => {
+      for (const event of run.events) {
+        client.send(JSON.stringify(event));
+      }
+      run.clients.add(client);
+      client.on("close", () => run.clients.delete(client));
+    });
+  }
+
+  private allowsOrigin(origin: string): boolean {
+    return (this.options.origins ?? CONFIG.server.origins).includes(origin);
+  }
+
+  /**
+   * The request carries the server's token in its Authorization header or
+   * its `token` query parameter
+   */
+  private authorized(req: http.IncomingMessage, url: URL): boolean {
+    const header = req.headers.authorization;
+    const token = header?.startsWith("Bearer ")
+      ? header.slice("Bearer ".length)
+      : url.searchParams.get("token");
+    if (!token) {
+      return false;
+    }
+    const given = Buffer.from(token);
+    const expected = Buffer.from(this.token);
+    return (
+      given.length === expected.length && timingSafeEqual(given, expected)
+    );
+  }
+
+  private sendJson(
+    res: http.ServerResponse,
+    status: number,
+    body: unknown
+  ): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(
+    res: http.ServerResponse,
+    status: number,
+    message: string
+  ): void {
+    this.sendJson(res, status, { error: message });
+  }
+}
+
+const HANDBACK_NOTE =
+  "A person took over the desktop while you were paused and has handed it " +
+  "back. The screen may have changed: take a screenshot before continuing.";
+
+/**
+ * Text blocks of a tool result, joined
+ */
+function resultText(result: Anthropic.ToolResultBlockParam): string {
+  if (typeof result.content === "string") {
+    return result.content;
+  }
+  return (result.content ?? [])
+    .flatMap((block) => (block.type === "text" ? [block.text] : []))
+    .join("\n");
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const port = flag("--port");
+  const server = new AgentServer({
+    host: flag("--host"),
+    port: port === undefined ? undefined : Number(port),
+  });
+
+  const baseURL = await server.start();
+  console.log(`🛰️  Agent server listening on ${baseURL}`);
+  if (!CONFIG.server.token) {
+    console.log(
+      "🔑 Token for this start (set AGENT_SERVER_TOKEN to keep one): " +
+        server.token
+    );
+  }
+  console.log(
+    "\nStart the dashboard with:\n  cd frontend && " +
+      `NEXT_PUBLIC_AGENT_API_URL=${baseURL} ` +
+      `NEXT_PUBLIC_AGENT_API_TOKEN=${server.token} npm run dev`
+  );
+
+  const shutdown = async () => {
+    console.log(
+      "\n⏸️  Stopping: pausing running tasks after their current step..."
+    );
+    await server.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+export default AgentServer;
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -0,0 +1,82 @@
+/**
+ * Anthropic-Compatible Model Provider
+ * Calls any endpoint that speaks the Anthropic Messages API: Anthropic
+ * itself, OpenCode Zen (MiniMax M2.1) or a local mock server
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  ModelCapabilities,
+  ModelProvider,
+  ModelProviderConfig,
+  ModelRequest,
+  ModelResponse,
+  ModelStreamHandlers,
+} from "./model-provider.js";
+
+export class AnthropicModelProvider implements ModelProvider {
+  readonly kind = "anthropic" as const;
+  readonly model: string;
+  readonly capabilities: ModelCapabilities;
+  private client: Anthropic;
+
+  constructor(config: ModelProviderConfig) {
+    this.model = config.name;
+    this.capabilities = {
+      vision: true,
+      toolUse: true,
+      maxImages: 20,
+      ...config.capabilities,
+    };
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.client.messages.create(this.toParams(request));
+    return toModelResponse(response);
+  }
+
+  /**
+   * Stream the reply through the Messages API's server-sent events
+   */
+  async streamMessage(
+    request: ModelRequest,
+    handlers: ModelStreamHandlers
+  ): Promise<ModelResponse> {
+    const stream = this.client.messages.stream(this.toParams(request));
+    stream.on("text", (text) => handlers.onTextDelta?.(text));
+    stream.on("contentBlock", (block) => handlers.onContentBlock?.(block));
+    return toModelResponse(await stream.finalMessage());
+  }
+
+  private toParams(
+    request: ModelRequest
+  ): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: this.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages,
+      ...(request.tools?.length ? { tools: request.tools } : {}),
+      ...(request.temperature !== undefined
+        ? { temperature: request.temperature }
+        : {}),
+    };
+  }
+}
+
+function toModelResponse(response: Anthropic.Message): ModelResponse {
+  return {
+    content: response.content,
+    stopReason: response.stop_reason,
+    usage: {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    },
+  };
+}
+
+export default AnthropicModelProvider;
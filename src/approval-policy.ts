@@ -0,0 +1,173 @@
+/**
+ * Approval Policy
+ * Classifies tool calls before they run and asks an operator to approve,
+ * edit or reject the risky ones. The agent loop reports rejections back to
+ * the model as tool_result errors.
+ */
+
+import type { AgentLoopHooks, ToolCall } from "./agent-loop.js";
+import CONFIG from "./config.js";
+import { parseKeyCombo } from "./keys.js";
+
+/**
+ * "risky" asks only for actions a rule flags, "all" asks for every action
+ * except screenshots, waits and cursor queries, "off" never asks
+ */
+export type ApprovalMode = "risky" | "all" | "off";
+
+export interface ProposedAction {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * What the policy knows about the desktop, gathered from earlier steps
+ */
+export interface ActionContext {
+  /** App most recently launched with launch_app */
+  activeApp: string | null;
+  /** Latest text the model produced, e.g. "I'll enter the password" */
+  lastModelText: string;
+}
+
+/**
+ * A rule returns the reason an action is risky, or null if it is not
+ */
+export type RiskRule = (
+  action: ProposedAction,
+  context: ActionContext
+) => string | null;
+
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; input: Record<string, unknown> }
+  | { action: "reject"; reason?: string };
+
+export type ApprovalPrompt = (
+  action: ProposedAction,
+  reason: string
+) => Promise<ApprovalDecision>;
+
+const TERMINAL_APPS = new Set(["terminal", "x-terminal-emulator", "xterm"]);
+const SECRET_PATTERN = /\b(password|passphrase|passcode|pin|secret|api key|token)\b/i;
+const READ_ONLY_TOOLS = new Set(["screenshot", "cursor_position", "wait"]);
+
+function isTerminal(context: ActionContext): boolean {
+  return context.activeApp !== null && TERMINAL_APPS.has(context.activeApp);
+}
+
+function isReturn(key: unknown): boolean {
+  try {
+    const { key: name } = parseKeyCombo(String(key));
+    return name === "Return" || name === "KP_Enter";
+  } catch {
+    // Invalid keys are rejected by input validation later on
+    return false;
+  }
+}
+
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  ({ name, input }) =>
+    name === "launch_app" && TERMINAL_APPS.has(String(input.app))
+      ? "launches a terminal"
+      : null,
+
+  ({ name, input }, context) =>
+    name === "key" && isReturn(input.key) && isTerminal(context)
+      ? "presses Return in a terminal, which runs the typed command"
+      : null,
+
+  ({ name, input }, context) =>
+    name === "type" && isTerminal(context) && String(input.text).includes("\n")
+      ? "types a newline in a terminal, which runs the typed command"
+      : null,
+
+  ({ name }, context) =>
+    name === "type" && SECRET_PATTERN.test(context.lastModelText)
+      ? "types into what looks like a password or secret field"
+      : null,
+];
+
+export interface ApprovalPolicyOptions {
+  /** Asks the operator about an action, e.g. on a readline interface */
+  prompt: ApprovalPrompt;
+  mode?: ApprovalMode;
+  rules?: RiskRule[];
+}
+
+export class ApprovalPolicy {
+  private context: ActionContext = { activeApp: null, lastModelText: "" };
+  private prompt: ApprovalPrompt;
+  private mode: ApprovalMode;
+  private rules: RiskRule[];
+
+  constructor(options: ApprovalPolicyOptions) {
+    this.prompt = options.prompt;
+    this.mode = options.mode ?? CONFIG.approval.mode;
+    this.rules = options.rules ?? DEFAULT_RISK_RULES;
+  }
+
+  /**
+   * Reason the action needs approval under the current mode, or null
+   */
+  classify(action: ProposedAction): string | null {
+    if (this.mode === "off") {
+      return null;
+    }
+
+    for (const rule of this.rules) {
+      const reason = rule(action, this.context);
+      if (reason) {
+        return reason;
+      }
+    }
+
+    if (this.mode === "all" && !READ_ONLY_TOOLS.has(action.name)) {
+      return "approval mode is set to all";
+    }
+    return null;
+  }
+
+  /**
+   * Put the call to the operator if it needs approval. Returns the input to
+   * run the tool with (edited or not) and throws if the operator rejects it.
+   */
+  async review(call: ToolCall): Promise<Record<string, unknown>> {
+    const reason = this.classify(call);
+    if (!reason) {
+      return call.input;
+    }
+
+    const decision = await this.prompt(call, reason);
+    switch (decision.action) {
+      case "approve":
+        return call.input;
+      case "edit":
+        return decision.input;
+      case "reject":
+        throw new Error(
+          `Action rejected by the operator` +
+            (decision.reason ? `: ${decision.reason}` : "") +
+            `. Do not retry it; choose a different approach or ask the user.`
+        );
+    }
+  }
+
+  /**
+   * Agent loop hooks that keep the policy's view of the desktop current
+   */
+  hooks(): AgentLoopHooks {
+    return {
+      onText: (text) => {
+        this.context.lastModelText = text;
+      },
+      onToolResult: (call, result) => {
+        if (call.name === "launch_app" && !result.is_error) {
+          this.context.activeApp = String(call.input.app);
+        }
+      },
+    };
+  }
+}
+
+export default ApprovalPolicy;
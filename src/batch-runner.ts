@@ -0,0 +1,221 @@
+/**
+ * Batch Runner
+ * Runs a list of tasks in parallel on desktops leased from a SandboxPool,
+ * one agent per task, and collects their results and usage.
+ *
+ * Usage: npm run batch -- [tasks.json] [--concurrency 2] [--recycle]
+ *   [--out results.json]
+ * Without a file it runs the use cases of src/examples.ts. A task file is a
+ * JSON array of prompts or of { "name": "...", "prompt": "..." } objects,
+ * optionally with a "verify" list (see src/verifiers.ts).
+ */
+
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { DesktopBackend } from "./desktop-backend.js";
+import {
+  combineUsage,
+  formatUsage,
+  type UsageSummary,
+} from "./cost-tracker.js";
+import { ComputerUseAgent } from "./index.js";
+import { SandboxPool } from "./sandbox-pool.js";
+import {
+  formatVerification,
+  parseVerifiers,
+  type Verifier,
+  type VerifierResult,
+} from "./verifiers.js";
+
+export interface BatchTask {
+  name: string;
+  prompt: string;
+  /** Checked once the agent has finished; a failing one fails the task */
+  verify?: Verifier[];
+}
+
+export interface BatchResult {
+  name: string;
+  prompt: string;
+  status: "completed" | "failed";
+  /** The agent's final message */
+  result?: string;
+  error?: string;
+  /** Results of the task's verifiers, if it has any */
+  verification?: VerifierResult[];
+  /** Saved session of the run (see `npm run sessions`) */
+  runId?: string;
+  /** Unset when no desktop could be provisioned for the task */
+  desktopId?: string;
+  usage: UsageSummary;
+  durationMs: number;
+}
+
+export interface BatchOptions {
+  pool: SandboxPool;
+  /** Agent for a task's desktop; defaults to the configured model */
+  createAgent?: (desktop: DesktopBackend) => ComputerUseAgent;
+  /** Called as each task finishes */
+  onResult?: (result: BatchResult) => void;
+}
+
+/**
+ * Run every task, as many at once as the pool has desktops. Failed tasks are
+ * reported in their result rather than thrown, and their desktop is killed.
+ *
+ * @returns Results in the order of `tasks`
+ */
+export async function runBatch(
+  tasks: BatchTask[],
+  options: BatchOptions
+): Promise<BatchResult[]> {
+  const createAgent =
+    options.createAgent ?? ((desktop) => new ComputerUseAgent(desktop));
+
+  return Promise.all(
+    tasks.map(async (task) => {
+      const startedAt = Date.now();
+      let desktop: DesktopBackend | undefined;
+      let agent: ComputerUseAgent | undefined;
+      let outcome: Pick<
+        BatchResult,
+        "status" | "result" | "error" | "verification"
+      >;
+      try {
+        desktop = await options.pool.acquire();
+        agent = createAgent(desktop);
+        await agent.initialize();
+        const { status, message, verification } = await agent.perform(task);
+        outcome = {
+          status: status === "failed" ? "failed" : "completed",
+          result: message,
+          verification: verification.length > 0 ? verification : undefined,
+        };
+        if (status === "failed") {
+          outcome.error = "Verification failed";
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        outcome = { status: "failed", error: errorMessage };
+      }
+      const result: BatchResult = {
+        name: task.name,
+        prompt: task.prompt,
+        ...outcome,
+        runId: agent?.runId,
+        desktopId: desktop?.id,
+        usage: agent?.usage ?? combineUsage("", []),
+        durationMs: Date.now() - startedAt,
+      };
+
+      if (desktop) {
+        await options.pool.release(desktop, {
+          kill: result.status === "failed",
+        });
+      }
+      options.onResult?.(result);
+      return result;
+    })
+  );
+}
+
+/**
+ * Read a task file: a JSON array of prompts or { name, prompt, verify? }
+ * objects
+ */
+export function loadBatchTasks(file: string): BatchTask[] {
+  const entries: unknown = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(entries)) {
+    throw new Error(`${file} must contain a JSON array of tasks`);
+  }
+
+  return entries.map((entry, index) => {
+    if (typeof entry === "string") {
+      return { name: `task-${index + 1}`, prompt: entry };
+    }
+    if (typeof entry?.prompt !== "string") {
+      throw new Error(`Task ${index + 1} in ${file} has no prompt`);
+    }
+    return {
+      name: entry.name ?? `task-${index + 1}`,
+      prompt: entry.prompt,
+      verify: parseVerifiers(
+        entry.verify,
+        `Task ${index + 1} in ${file}`,
+        path.dirname(file)
+      ),
+    };
+  });
+}
+
+function printResult(result: BatchResult): void {
+  const outcome =
+    result.status === "completed" ? "✅" : `❌ ${result.error ?? ""}`;
+  console.log(
+    `\n${outcome} ${result.name} (${result.desktopId ?? "no desktop"}): ` +
+      formatUsage(result.usage)
+  );
+  if (result.verification) {
+    console.log(formatVerification(result.verification));
+  }
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const flags: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--concurrency" || args[i] === "--out") {
+      flags[args[i]] = args[++i];
+    } else if (!args[i].startsWith("--")) {
+      positional.push(args[i]);
+    }
+  }
+
+  let tasks: BatchTask[];
+  if (positional[0]) {
+    tasks = loadBatchTasks(path.resolve(positional[0]));
+  } else {
+    const { useCases } = await import("./examples.js");
+    tasks = Object.entries(useCases).map(([name, prompt]) => ({
+      name,
+      prompt: prompt.trim(),
+    }));
+  }
+
+  const pool = new SandboxPool({
+    size: flags["--concurrency"] ? Number(flags["--concurrency"]) : undefined,
+    recycle: args.includes("--recycle") || undefined,
+  });
+  console.log(
+    `🚀 Running ${tasks.length} tasks on up to ${pool.size} desktops`
+  );
+
+  try {
+    const results = await runBatch(tasks, { pool, onResult: printResult });
+    const completed = results.filter((result) => result.status === "completed");
+    console.log(`\n📊 ${completed.length}/${results.length} tasks completed`);
+
+    if (flags["--out"]) {
+      fs.writeFileSync(flags["--out"], JSON.stringify(results, null, 2));
+      console.log(`📁 Results saved to ${flags["--out"]}`);
+    }
+    process.exitCode = completed.length === results.length ? 0 : 1;
+  } catch (error) {
+    console.error("Batch failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.close();
+  }
+}
+
+export default runBatch;
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -0,0 +1,471 @@
+/**
+ * Benchmark Harness
+ * Runs a suite of tasks several times per model, each attempt on a fresh
+ * desktop, and checks the outcome with the task's verifiers instead of
+ * trusting the model's final message. The report gives success rate, steps, tokens and
+ * time per task and model, as JSON and Markdown.
+ *
+ * Usage: npm run benchmark -- <suite.yaml> [--models a,openai:b] [--runs 3]
+ *   [--concurrency 2] [--out benchmarks]
+ * See benchmark-suite.example.yaml for the suite format.
+ */
+
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import YAML from "yaml";
+import CONFIG, { providerEndpoint } from "./config.js";
+import type { DesktopBackend } from "./desktop-backend.js";
+import { formatUsd } from "./cost-tracker.js";
+import { ComputerUseAgent } from "./index.js";
+import {
+  createModelProvider,
+  type ModelProviderConfig,
+  type ModelProviderKind,
+} from "./model-provider.js";
+import { SandboxPool } from "./sandbox-pool.js";
+import { createRunId } from "./trajectory.js";
+import {
+  parseVerifiers,
+  runCommand,
+  type Verifier,
+  type VerifierResult,
+} from "./verifiers.js";
+
+export interface BenchmarkTask {
+  name: string;
+  prompt: string;
+  /** Shell script run on the desktop before the agent starts */
+  setup?: string;
+  /** All must pass; without any a task passes when the agent finishes */
+  verify: Verifier[];
+}
+
+export interface BenchmarkSuite {
+  name: string;
+  tasks: BenchmarkTask[];
+  /** Attempts per task and model, unless overridden */
+  runs?: number;
+  /** Model specs (see parseModelSpec), unless overridden */
+  models?: string[];
+}
+
+export interface BenchmarkRun {
+  task: string;
+  model: string;
+  attempt: number;
+  /**
+   * "error" when no desktop could be provisioned, or setup or the agent
+   * failed before the verifiers ran
+   */
+  status: "passed" | "failed" | "error";
+  verification: VerifierResult[];
+  error?: string;
+  runId?: string;
+  steps: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface BenchmarkStats {
+  runs: number;
+  passed: number;
+  successRate: number;
+  meanSteps: number;
+  meanTokens: number;
+  meanDurationMs: number;
+  costUsd: number;
+}
+
+export interface BenchmarkReport {
+  suite: string;
+  startedAt: string;
+  finishedAt: string;
+  runsPerTask: number;
+  models: string[];
+  runs: BenchmarkRun[];
+  /** Per model, over all tasks */
+  totals: Array<{ model: string } & BenchmarkStats>;
+  /** Per task and model */
+  tasks: Array<{ task: string; model: string } & BenchmarkStats>;
+}
+
+export interface BenchmarkOptions {
+  models: ModelProviderConfig[];
+  /** Attempts per task and model (default: the suite's, else 1) */
+  runs?: number;
+  /** Desktops to run on; each attempt's desktop is killed afterwards */
+  pool: SandboxPool;
+  /** Called as each attempt finishes */
+  onRun?: (run: BenchmarkRun) => void;
+}
+
+/**
+ * Run every task `runs` times with every model, as many attempts at once as
+ * the pool has desktops
+ */
+export async function runBenchmark(
+  suite: BenchmarkSuite,
+  options: BenchmarkOptions
+): Promise<BenchmarkReport> {
+  const runsPerTask = options.runs ?? suite.runs ?? 1;
+  const startedAt = new Date().toISOString();
+
+  const attempts = options.models.flatMap((model) =>
+    suite.tasks.flatMap((task) =>
+      Array.from({ length: runsPerTask }, (_, index) => ({
+        task,
+        model,
+        attempt: index + 1,
+      }))
+    )
+  );
+  const runs = await Promise.all(
+    attempts.map(async ({ task, model, attempt }) => {
+      const run = await runAttempt(task, model, attempt, options.pool);
+      options.onRun?.(run);
+      return run;
+    })
+  );
+
+  const models = options.models.map(modelLabel);
+  return {
+    suite: suite.name,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    runsPerTask,
+    models,
+    runs,
+    totals: models.map((model) => ({
+      model,
+      ...summarize(runs.filter((run) => run.model === model)),
+    })),
+    tasks: suite.tasks.flatMap((task) =>
+      models.map((model) => ({
+        task: task.name,
+        model,
+        ...summarize(
+          runs.filter((run) => run.task === task.name && run.model === model)
+        ),
+      }))
+    ),
+  };
+}
+
+async function runAttempt(
+  task: BenchmarkTask,
+  model: ModelProviderConfig,
+  attempt: number,
+  pool: SandboxPool
+): Promise<BenchmarkRun> {
+  const run: BenchmarkRun = {
+    task: task.name,
+    model: modelLabel(model),
+    attempt,
+    status: "error",
+    verification: [],
+    steps: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+  };
+  let desktop: DesktopBackend | null = null;
+  let agent: ComputerUseAgent | null = null;
+  // Set once the attempt has a desktop, so waiting for one is not counted
+  let startedAt: number | null = null;
+
+  try {
+    desktop = await pool.acquire();
+    startedAt = Date.now();
+    if (task.setup) {
+      await runSetup(desktop, task.setup);
+    }
+    agent = new ComputerUseAgent(desktop, await createModelProvider(model));
+    await agent.initialize();
+
+    const result = await agent.perform(task);
+    run.verification = result.verification;
+    run.status = result.status === "failed" ? "failed" : "passed";
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    if (startedAt !== null) {
+      run.durationMs = Date.now() - startedAt;
+    }
+    if (agent) {
+      const usage = agent.usage;
+      run.runId = agent.runId;
+      run.steps = usage.steps.length;
+      run.inputTokens = usage.inputTokens;
+      run.outputTokens = usage.outputTokens;
+      run.costUsd = usage.costUsd;
+    }
+    if (desktop) {
+      await pool.release(desktop, { kill: true });
+    }
+  }
+  return run;
+}
+
+async function runSetup(desktop: DesktopBackend, script: string) {
+  const result = await runCommand(desktop, script);
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `Setup failed with exit code ${result.exitCode}: ${result.stderr.trim()}`
+    );
+  }
+}
+
+export function summarize(runs: BenchmarkRun[]): BenchmarkStats {
+  const mean = (values: number[]) =>
+    values.length === 0
+      ? 0
+      : values.reduce((sum, value) => sum + value, 0) / values.length;
+  const passed = runs.filter((run) => run.status === "passed").length;
+
+  return {
+    runs: runs.length,
+    passed,
+    successRate: runs.length === 0 ? 0 : passed / runs.length,
+    meanSteps: mean(runs.map((run) => run.steps)),
+    meanTokens: mean(runs.map((run) => run.inputTokens + run.outputTokens)),
+    meanDurationMs: mean(runs.map((run) => run.durationMs)),
+    costUsd: runs.reduce((sum, run) => sum + run.costUsd, 0),
+  };
+}
+
+/**
+ * The report as Markdown: a model comparison, per-task results and the
+ * reasons attempts failed
+ */
+export function formatMarkdown(report: BenchmarkReport): string {
+  const row = (cells: Array<string | number>) => `| ${cells.join(" | ")} |`;
+  const stats = (summary: BenchmarkStats) => [
+    `${(summary.successRate * 100).toFixed(0)}% (${summary.passed}/${summary.runs})`,
+    summary.meanSteps.toFixed(1),
+    Math.round(summary.meanTokens),
+    `${(summary.meanDurationMs / 1000).toFixed(1)}s`,
+  ];
+
+  const lines = [
+    `# Benchmark: ${report.suite}`,
+    "",
+    `${report.startedAt} · ${report.runsPerTask} run(s) per task and model`,
+    "",
+    "## Models",
+    "",
+    row(["Model", "Success", "Steps", "Tokens", "Time", "Cost"]),
+    row(["---", "---", "---:", "---:", "---:", "---:"]),
+    ...report.totals.map((total) =>
+      row([total.model, ...stats(total), formatUsd(total.costUsd)])
+    ),
+    "",
+    "## Tasks",
+    "",
+    row(["Task", "Model", "Success", "Steps", "Tokens", "Time"]),
+    row(["---", "---", "---", "---:", "---:", "---:"]),
+    ...report.tasks.map((task) => row([task.task, task.model, ...stats(task)])),
+  ];
+
+  const failures = report.runs.filter((run) => run.status !== "passed");
+  if (failures.length > 0) {
+    lines.push("", "## Failures", "");
+    for (const run of failures) {
+      const reason =
+        run.error ??
+        run.verification
+          .filter((result) => !result.passed)
+          .map((result) => `${result.verifier}: ${result.detail}`)
+          .join("; ");
+      lines.push(`- ${run.task} (${run.model}, run ${run.attempt}): ${reason}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Load a suite from a .yaml, .yml or .json file. Screenshot references are
+ * resolved relative to the file.
+ */
+export function loadBenchmarkSuite(file: string): BenchmarkSuite {
+  const raw = fs.readFileSync(file, "utf-8");
+
+  try {
+    const parsed =
+      path.extname(file).toLowerCase() === ".json"
+        ? JSON.parse(raw)
+        : YAML.parse(raw);
+    return validateSuite(parsed ?? {}, path.dirname(file), file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid benchmark suite ${file}: ${message}`);
+  }
+}
+
+function validateSuite(
+  value: unknown,
+  dir: string,
+  file: string
+): BenchmarkSuite {
+  const suite = asRecord(value);
+  if (!Array.isArray(suite.tasks) || suite.tasks.length === 0) {
+    throw new Error("expected a non-empty `tasks` list");
+  }
+  if (suite.name !== undefined && typeof suite.name !== "string") {
+    throw new Error("`name` must be a string");
+  }
+  if (
+    suite.runs !== undefined &&
+    !(Number.isInteger(suite.runs) && (suite.runs as number) > 0)
+  ) {
+    throw new Error("`runs` must be a positive whole number");
+  }
+  if (
+    suite.models !== undefined &&
+    !(
+      Array.isArray(suite.models) &&
+      suite.models.every((model) => typeof model === "string")
+    )
+  ) {
+    throw new Error("`models` must be a list of model specs");
+  }
+
+  const tasks = suite.tasks.map((entry: unknown, index): BenchmarkTask => {
+    const where = `task ${index + 1}`;
+    const task = asRecord(entry);
+    if (typeof task.prompt !== "string") {
+      throw new Error(`${where} has no prompt`);
+    }
+    if (task.name !== undefined && typeof task.name !== "string") {
+      throw new Error(`${where} has a name that is not a string`);
+    }
+    if (task.setup !== undefined && typeof task.setup !== "string") {
+      throw new Error(`${where} has a setup that is not a shell script`);
+    }
+    return {
+      name: task.name ?? `task-${index + 1}`,
+      prompt: task.prompt,
+      setup: task.setup,
+      verify: parseVerifiers(task.verify, where, dir),
+    };
+  });
+
+  return {
+    name: suite.name ?? path.basename(file, path.extname(file)),
+    tasks,
+    runs: suite.runs as number | undefined,
+    models: suite.models as string[] | undefined,
+  };
+}
+
+/** Fields of a parsed object; anything else has none */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Model of a spec like "claude-sonnet-4-5" or "openai:gpt-4o". Without a
+ * provider prefix it is the configured model's provider and endpoint; with
+ * one it is that provider's own API and key (see providerEndpoint), so
+ * models of different providers can be compared in one run.
+ */
+export function parseModelSpec(spec: string): ModelProviderConfig {
+  const [prefix, ...rest] = spec.split(":");
+  const providers: ModelProviderKind[] = ["anthropic", "openai", "opencode"];
+  if (rest.length > 0 && providers.includes(prefix as ModelProviderKind)) {
+    return {
+      provider: prefix as ModelProviderKind,
+      name: rest.join(":"),
+      ...providerEndpoint(prefix as ModelProviderKind),
+    };
+  }
+  return { ...CONFIG.model, name: spec };
+}
+
+function modelLabel(model: ModelProviderConfig): string {
+  return `${model.provider}:${model.name}`;
+}
+
+function printRun(run: BenchmarkRun): void {
+  const outcome =
+    run.status === "passed" ? "✅" : run.status === "failed" ? "❌" : "💥";
+  const failed = run.verification.filter((result) => !result.passed);
+  const reason =
+    run.error ??
+    failed.map((result) => result.detail ?? result.verifier).join("; ");
+  console.log(
+    `\n${outcome} ${run.task} (${run.model}, run ${run.attempt}): ${run.steps} steps, ${(run.durationMs / 1000).toFixed(1)}s${reason ? ` - ${reason}` : ""}`
+  );
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const flags: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (["--models", "--runs", "--concurrency", "--out"].includes(args[i])) {
+      flags[args[i]] = args[++i];
+    } else if (!args[i].startsWith("--")) {
+      positional.push(args[i]);
+    }
+  }
+
+  if (!positional[0]) {
+    console.log(
+      "\nUsage: npm run benchmark -- <suite.yaml> [--models a,openai:b] [--runs 3] [--concurrency 2] [--out benchmarks]"
+    );
+    process.exit(1);
+  }
+
+  const pool = new SandboxPool({
+    size: flags["--concurrency"] ? Number(flags["--concurrency"]) : undefined,
+  });
+  try {
+    const suite = loadBenchmarkSuite(path.resolve(positional[0]));
+    const specs = flags["--models"]?.split(",") ?? suite.models;
+    // Without specs, the configured model keeps its own endpoint and key
+    const models = specs?.map((spec) => parseModelSpec(spec.trim())) ?? [
+      CONFIG.model,
+    ];
+    const runs = flags["--runs"] ? Number(flags["--runs"]) : suite.runs ?? 1;
+    console.log(
+      `🏁 Benchmark ${suite.name}: ${suite.tasks.length} tasks × ${models.length} models × ${runs} runs on up to ${pool.size} desktops`
+    );
+
+    const report = await runBenchmark(suite, {
+      models,
+      runs,
+      pool,
+      onRun: printRun,
+    });
+
+    const outDir = path.resolve(flags["--out"] ?? CONFIG.benchmark.outputDir);
+    fs.mkdirSync(outDir, { recursive: true });
+    const base = path.join(outDir, `${suite.name}-${createRunId()}`);
+    fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2));
+    const markdown = formatMarkdown(report);
+    fs.writeFileSync(`${base}.md`, markdown);
+
+    console.log(`\n${markdown}`);
+    console.log(`📁 Report saved to ${base}.json and ${base}.md`);
+  } catch (error) {
+    console.error("Benchmark failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.close();
+  }
+}
+
+export default runBenchmark;
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -2,16 +2,109 @@
  * Configuration for Computer Use Agent
  */
 
+import dotenv from "dotenv";
+import type { ApprovalMode } from "./approval-policy.js";
+import type {
+  ModelCapabilities,
+  ModelProviderKind,
+} from "./model-provider.js";
+
+dotenv.config();
+
+function parseProvider(value: string | undefined): ModelProviderKind {
+  return value === "openai" || value === "opencode" ? value : "anthropic";
+}
+
+/**
+ * Base URL and API key of a provider's own API: ANTHROPIC_API_KEY or
+ * OPENAI_API_KEY (and *_BASE_URL); OpenCode uses OPENCODE_SERVER_URL. An
+ * unset base URL leaves the provider at its default.
+ */
+export function providerEndpoint(provider: ModelProviderKind): {
+  baseURL?: string;
+  apiKey?: string;
+} {
+  switch (provider) {
+    case "anthropic":
+      return {
+        baseURL: process.env.ANTHROPIC_BASE_URL || undefined,
+        apiKey: process.env.ANTHROPIC_API_KEY || undefined,
+      };
+    case "openai":
+      return {
+        baseURL: process.env.OPENAI_BASE_URL || undefined,
+        apiKey: process.env.OPENAI_API_KEY || undefined,
+      };
+    case "opencode":
+      return { baseURL: process.env.OPENCODE_SERVER_URL || undefined };
+  }
+}
+
+/**
+ * Endpoint of the configured model: MODEL_BASE_URL and MODEL_API_KEY when
+ * set; without MODEL_PROVIDER the default is OpenCode Zen, otherwise the
+ * provider's own API
+ */
+function modelEndpoint(provider: ModelProviderKind): {
+  baseURL?: string;
+  apiKey?: string;
+} {
+  const fallback = process.env.MODEL_PROVIDER
+    ? providerEndpoint(provider)
+    : {
+        baseURL: "https://opencode.ai/zen/v1",
+        apiKey: process.env.OPENCODE_ZEN_API_KEY || undefined,
+      };
+  return {
+    baseURL: process.env.MODEL_BASE_URL || fallback.baseURL,
+    apiKey: process.env.MODEL_API_KEY || fallback.apiKey,
+  };
+}
+
+function parseApprovalMode(value: string | undefined): ApprovalMode {
+  return value === "all" || value === "off" ? value : "risky";
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  const limit = Number(value);
+  return value && limit > 0 ? limit : undefined;
+}
+
+function parseCapabilities(): Partial<ModelCapabilities> {
+  const capabilities: Partial<ModelCapabilities> = {};
+  if (process.env.MODEL_VISION) {
+    capabilities.vision = process.env.MODEL_VISION === "true";
+  }
+  if (process.env.MODEL_TOOL_USE) {
+    capabilities.toolUse = process.env.MODEL_TOOL_USE === "true";
+  }
+  if (process.env.MODEL_MAX_IMAGES) {
+    capabilities.maxImages = Number(process.env.MODEL_MAX_IMAGES);
+  }
+  return capabilities;
+}
+
 export const CONFIG = {
   // E2B Configuration
   e2b: {
     timeout: 30000, // 30 seconds
     maxRetries: 3,
+    // How long a paused session's sandbox is kept for a later resume
+    pausedTimeoutMs:
+      Number(process.env.E2B_PAUSED_TIMEOUT_MS) || 60 * 60 * 1000,
   },
 
-  // Model Configuration (MiniMax M2.1 via OpenCode Zen)
+  // Model Configuration (default: MiniMax M2.1 via OpenCode Zen)
   model: {
-    name: "minimax-m2.1-free",
+    // "anthropic" (Messages API), "openai" (chat completions) or "opencode"
+    provider: parseProvider(process.env.MODEL_PROVIDER),
+    name:
+      process.env.MODEL_NAME ||
+      process.env.OPENCODE_ZEN_MODEL ||
+      "minimax-m2.1-free",
+    ...modelEndpoint(parseProvider(process.env.MODEL_PROVIDER)),
+    // Overrides for what the provider declares, e.g. MODEL_VISION=false
+    capabilities: parseCapabilities(),
     maxTokens: 4096,
     temperature: 0,
   },
@@ -20,14 +113,104 @@ export const CONFIG = {
   desktop: {
     screenshotWaitMs: 1000,
     appLaunchWaitMs: 3000,
-    screenshotFormat: "png",
+    screenshotFormat: "png" as "png" | "jpeg" | "webp",
+    // Screenshots sent to the model are scaled down to fit this size; click
+    // coordinates are mapped back to native screen space
+    screenshotTargetWidth: 1280,
+    screenshotTargetHeight: 800,
+    screenshotQuality: 80,
+    // "e2b" for a remote E2B sandbox, "local" for a local Xvfb display
+    backend: (process.env.DESKTOP_BACKEND === "local" ? "local" : "e2b") as
+      | "e2b"
+      | "local",
+    local: {
+      display: process.env.DISPLAY_NUM || ":99",
+      width: 1280,
+      height: 800,
+      // Live view (x11vnc + websockify serving noVNC), started on demand
+      vnc: {
+        port: Number(process.env.VNC_PORT) || 5900,
+        webPort: Number(process.env.NOVNC_PORT) || 6080,
+        webDir: process.env.NOVNC_DIR || "/usr/share/novnc",
+      },
+    },
   },
 
   // Agent Configuration
   agent: {
     verbose: true,
-    saveScreenshots: false,
-    screenshotDir: "./screenshots",
+    // Record a trajectory (screenshots + steps) for every run
+    saveScreenshots: process.env.SAVE_SCREENSHOTS === "true",
+    screenshotDir: process.env.SCREENSHOT_DIR || "./screenshots",
+    // Saved sessions (history, desktop ID, step count) for pause/resume
+    sessionDir: process.env.SESSION_DIR || "./sessions",
+  },
+
+  // Sandbox Pool (npm run batch)
+  pool: {
+    // Desktops alive at once, i.e. how many tasks run in parallel
+    size: Number(process.env.POOL_SIZE) || 2,
+    // Hand a desktop to the next task instead of starting it on a fresh one
+    recycle: process.env.POOL_RECYCLE === "true",
+  },
+
+  // Benchmarks (npm run benchmark)
+  benchmark: {
+    // JSON and Markdown reports are written here
+    outputDir: process.env.BENCHMARK_DIR || "./benchmarks",
+  },
+
+  // Conversation History Configuration
+  history: {
+    // Screenshots kept in the history; older ones become text placeholders
+    maxImages: Number(process.env.HISTORY_MAX_IMAGES) || 3,
+    // Estimated size above which older turns are summarised by the model
+    tokenBudget: Number(process.env.HISTORY_TOKEN_BUDGET) || 60000,
+    keepRecentMessages: 6,
+    summaryMaxTokens: 1024,
+  },
+
+  // Human-in-the-loop Approval (interactive mode)
+  approval: {
+    // "risky" asks before risky actions, "all" before every action that
+    // changes the desktop, "off" never asks
+    mode: parseApprovalMode(process.env.APPROVAL_MODE),
+  },
+
+  // Safety Policy
+  safety: {
+    // YAML or JSON file with allow/deny rules for apps, keys, text and
+    // screen regions; unset means no restrictions
+    policyFile: process.env.SAFETY_POLICY_FILE,
+  },
+
+  // Budget and Cost Tracking (per run)
+  budget: {
+    // Unset limits are not enforced; reaching one stops the run before the
+    // next model call
+    limits: {
+      maxTokens: parseLimit(process.env.BUDGET_MAX_TOKENS),
+      maxCostUsd: parseLimit(process.env.BUDGET_MAX_USD),
+      maxMinutes: parseLimit(process.env.BUDGET_MAX_MINUTES),
+    },
+    // JSON price table (USD per million tokens) merged over DEFAULT_PRICES
+    pricesFile: process.env.MODEL_PRICES_FILE,
+  },
+
+  // Agent Server (npm run server) for the web dashboard
+  server: {
+    host: process.env.AGENT_SERVER_HOST || "127.0.0.1",
+    port: Number(process.env.AGENT_SERVER_PORT) || 8787,
+    // Token clients must send; unset = a random one per server start
+    token: process.env.AGENT_SERVER_TOKEN || undefined,
+    // Browser origins allowed to call the API (the dashboard's)
+    origins: (
+      process.env.AGENT_SERVER_ORIGINS ||
+      "http://localhost:3000,http://127.0.0.1:3000"
+    )
+      .split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean),
   },
 
   // Task Configuration
@@ -0,0 +1,298 @@
+/**
+ * Cost Tracker
+ * Per-step and per-run accounting of model usage: input/output tokens,
+ * images sent, wall time and an estimated cost from a price table. Hard
+ * limits on tokens, dollars and minutes stop the agent loop gracefully
+ * before its next model call.
+ */
+
+import fs from "fs";
+import type { AgentLoopHooks } from "./agent-loop.js";
+import CONFIG from "./config.js";
+import { countImages, estimateTokens } from "./history-manager.js";
+
+/** Prices in US dollars per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices by model name. A model matches the longest entry its name starts
+ * with, so "claude-3-5-sonnet-20241022" uses "claude-3-5-sonnet".
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "minimax-m2.1-free": { input: 0, output: 0 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+};
+
+export interface BudgetLimits {
+  /** Input plus output tokens */
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxMinutes?: number;
+}
+
+export interface StepUsage {
+  step: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Images sent with the request */
+  images: number;
+  /** Wall time of the step: model call plus tool execution */
+  durationMs: number;
+  costUsd: number;
+  /** Token counts were estimated because the provider reported none */
+  estimated?: boolean;
+}
+
+export interface UsageSummary {
+  model: string;
+  steps: StepUsage[];
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  durationMs: number;
+  costUsd: number;
+  /** The model has no entry in the price table; costs are 0 */
+  unpriced?: boolean;
+}
+
+export interface CostTrackerOptions {
+  model: string;
+  prices?: PriceTable;
+  limits?: BudgetLimits;
+}
+
+/**
+ * Find the price of a model: an exact entry, else the longest prefix
+ */
+export function findPrice(
+  model: string,
+  prices: PriceTable = DEFAULT_PRICES
+): ModelPrice | undefined {
+  const name = Object.keys(prices)
+    .filter((key) => model === key || model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return name === undefined ? undefined : prices[name];
+}
+
+/**
+ * Default prices merged with those in CONFIG.budget.pricesFile (a JSON
+ * object of model name to { input, output } per million tokens)
+ */
+export function loadPriceTable(
+  file: string | undefined = CONFIG.budget.pricesFile
+): PriceTable {
+  if (!file) {
+    return DEFAULT_PRICES;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid price table ${file}: ${errorMessage}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid price table ${file}: expected an object`);
+  }
+
+  for (const [model, price] of Object.entries(parsed)) {
+    if (
+      typeof price?.input !== "number" ||
+      typeof price?.output !== "number"
+    ) {
+      throw new Error(
+        `Invalid price table ${file}: ${model} needs numeric "input" and "output"`
+      );
+    }
+  }
+  return { ...DEFAULT_PRICES, ...(parsed as PriceTable) };
+}
+
+export class CostTracker {
+  readonly model: string;
+  readonly limits: BudgetLimits;
+  private price: ModelPrice | undefined;
+  private steps: StepUsage[] = [];
+  private current: StepUsage | null = null;
+  private startedAt = Date.now();
+  private stepStartedAt = Date.now();
+
+  constructor(options: CostTrackerOptions) {
+    this.model = options.model;
+    this.limits = options.limits ?? CONFIG.budget.limits;
+    this.price = findPrice(options.model, options.prices ?? DEFAULT_PRICES);
+  }
+
+  /**
+   * Record one model call. Providers that report no usage are estimated
+   * from the request and response size.
+   */
+  recordResponse(
+    step: number,
+    usage: { inputTokens: number; outputTokens: number } | undefined,
+    estimate: { inputTokens: number; outputTokens: number },
+    images: number
+  ): StepUsage {
+    const { inputTokens, outputTokens } = usage ?? estimate;
+    const entry = this.stepEntry(step);
+    entry.inputTokens += inputTokens;
+    entry.outputTokens += outputTokens;
+    entry.images += images;
+    entry.costUsd += this.cost(inputTokens, outputTokens);
+    if (!usage) {
+      entry.estimated = true;
+    }
+    return entry;
+  }
+
+  /**
+   * Close the current step, taking its wall time
+   */
+  completeStep(step: number): void {
+    const entry = this.stepEntry(step);
+    const now = Date.now();
+    entry.durationMs = now - this.stepStartedAt;
+    this.stepStartedAt = now;
+    this.current = null;
+  }
+
+  /**
+   * Description of the first limit that has been reached, or null
+   */
+  exceededLimit(): string | null {
+    const summary = this.summary();
+    const { maxTokens, maxCostUsd, maxMinutes } = this.limits;
+
+    const tokens = summary.inputTokens + summary.outputTokens;
+    if (maxTokens !== undefined && tokens >= maxTokens) {
+      return `token limit reached (${tokens} of ${maxTokens})`;
+    }
+    if (maxCostUsd !== undefined && summary.costUsd >= maxCostUsd) {
+      return `cost limit reached (${formatUsd(summary.costUsd)} of ${formatUsd(maxCostUsd)})`;
+    }
+    const minutes = summary.durationMs / 60000;
+    if (maxMinutes !== undefined && minutes >= maxMinutes) {
+      return `time limit reached (${minutes.toFixed(1)} of ${maxMinutes} min)`;
+    }
+    return null;
+  }
+
+  summary(): UsageSummary {
+    const steps = this.steps.map((step) => ({ ...step }));
+    const total = (key: "inputTokens" | "outputTokens" | "images" | "costUsd") =>
+      steps.reduce((sum, step) => sum + step[key], 0);
+
+    return {
+      model: this.model,
+      steps,
+      inputTokens: total("inputTokens"),
+      outputTokens: total("outputTokens"),
+      images: total("images"),
+      durationMs: Date.now() - this.startedAt,
+      costUsd: total("costUsd"),
+      ...(this.price ? {} : { unpriced: true }),
+    };
+  }
+
+  /**
+   * Agent loop hooks that record every model call and step
+   */
+  hooks(): AgentLoopHooks {
+    return {
+      onModelResponse: (response, request, step) =>
+        this.recordResponse(
+          step,
+          response.usage,
+          {
+            inputTokens: estimateTokens(request.messages),
+            outputTokens: estimateTokens([
+              { role: "assistant", content: response.content },
+            ]),
+          },
+          countImages(request.messages)
+        ),
+      onStepComplete: (step) => this.completeStep(step),
+    };
+  }
+
+  private stepEntry(step: number): StepUsage {
+    if (!this.current || this.current.step !== step) {
+      this.current = {
+        step,
+        inputTokens: 0,
+        outputTokens: 0,
+        images: 0,
+        durationMs: 0,
+        costUsd: 0,
+      };
+      this.steps.push(this.current);
+    }
+    return this.current;
+  }
+
+  private cost(inputTokens: number, outputTokens: number): number {
+    if (!this.price) {
+      return 0;
+    }
+    return (
+      (inputTokens * this.price.input + outputTokens * this.price.output) /
+      1_000_000
+    );
+  }
+}
+
+/**
+ * Add up several summaries, e.g. all runs of one agent
+ */
+export function combineUsage(
+  model: string,
+  summaries: UsageSummary[]
+): UsageSummary {
+  return {
+    model,
+    steps: summaries.flatMap((summary) => summary.steps),
+    inputTokens: summaries.reduce((sum, s) => sum + s.inputTokens, 0),
+    outputTokens: summaries.reduce((sum, s) => sum + s.outputTokens, 0),
+    images: summaries.reduce((sum, s) => sum + s.images, 0),
+    durationMs: summaries.reduce((sum, s) => sum + s.durationMs, 0),
+    costUsd: summaries.reduce((sum, s) => sum + s.costUsd, 0),
+    ...(summaries.some((s) => s.unpriced) ? { unpriced: true } : {}),
+  };
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+/**
+ * One-line summary for the console
+ */
+export function formatUsage(summary: UsageSummary): string {
+  const estimated = summary.steps.some((step) => step.estimated)
+    ? " (estimated)"
+    : "";
+  const cost = summary.unpriced
+    ? `cost unknown (no price for ${summary.model})`
+    : `~${formatUsd(summary.costUsd)}`;
+  return (
+    `${summary.steps.length} steps, ${summary.inputTokens} in / ` +
+    `${summary.outputTokens} out tokens${estimated}, ${summary.images} images, ` +
+    `${(summary.durationMs / 1000).toFixed(1)}s, ${cost}`
+  );
+}
+
+export default CostTracker;
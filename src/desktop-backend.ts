@@ -0,0 +1,175 @@
+/**
+ * Desktop Backend Abstraction
+ * Defines the minimal set of desktop operations the agents rely on, so the
+ * same agent code can drive an E2B sandbox or a local Xvfb display
+ */
+
+import CONFIG from "./config.js";
+
+export type DesktopBackendKind = "e2b" | "local";
+
+export type MouseButton = "left" | "right" | "middle";
+
+export type ScrollDirection = "up" | "down" | "left" | "right";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface DesktopStream {
+  /**
+   * noVNC viewer page for the desktop. It accepts input unless
+   * `view_only=true` is added to the query.
+   */
+  url: string;
+}
+
+export interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface DesktopBackend {
+  /** Which kind of backend this is, so a saved session can reconnect */
+  readonly kind: DesktopBackendKind;
+
+  /** Identifier of the underlying desktop (sandbox ID or X display) */
+  readonly id: string;
+
+  /**
+   * Capture the screen into a new image file and return its path. The
+   * caller deletes the file once it has read it.
+   */
+  screenshot(): Promise<string>;
+
+  /** Click at the given screen coordinates (default: left button) */
+  click(position: Point, button?: MouseButton): Promise<void>;
+
+  /** Double-click with the left button at the given screen coordinates */
+  doubleClick(position: Point): Promise<void>;
+
+  /** Move the pointer without clicking */
+  moveMouse(position: Point): Promise<void>;
+
+  /** Press a mouse button at the current pointer position */
+  mouseDown(button?: MouseButton): Promise<void>;
+
+  /** Release a mouse button at the current pointer position */
+  mouseUp(button?: MouseButton): Promise<void>;
+
+  /** Turn the scroll wheel by `amount` clicks at the current pointer position */
+  scroll(direction: ScrollDirection, amount: number): Promise<void>;
+
+  /** Current pointer position */
+  getCursorPosition(): Promise<Point>;
+
+  /** Type text into the focused element */
+  write(text: string): Promise<void>;
+
+  /** Press a key or key chord, e.g. "Return" or "ctrl+a" */
+  press(key: string): Promise<void>;
+
+  /** Launch an application by name */
+  launch(app: string): Promise<void>;
+
+  /**
+   * Start a live VNC stream of the desktop, unless one is running, and
+   * return its viewer. Backends without one are only seen in screenshots.
+   */
+  startStream?(): Promise<DesktopStream>;
+
+  /**
+   * Run a shell command on the desktop's machine, e.g. to prepare a task or
+   * check its outcome. A non-zero exit code is reported, not thrown.
+   */
+  runCommand?(command: string): Promise<CommandResult>;
+
+  /**
+   * Keep the desktop running for at least `ms` longer, e.g. while its
+   * session is paused. Only backends whose desktops time out have it.
+   */
+  keepAlive?(ms: number): Promise<void>;
+
+  /**
+   * False when kill() leaves the desktop running because the agent attached
+   * to it instead of starting it (a local display someone else runs)
+   */
+  readonly owned?: boolean;
+
+  /** Tear down the desktop and release its resources */
+  kill(): Promise<void>;
+}
+
+/**
+ * Create a desktop backend of the requested kind.
+ * Backends are imported lazily so the local backend works without the
+ * E2B SDK or an E2B account.
+ */
+export async function createDesktopBackend(
+  kind: DesktopBackendKind = CONFIG.desktop.backend
+): Promise<DesktopBackend> {
+  switch (kind) {
+    case "e2b": {
+      const { E2BDesktopBackend } = await import("./e2b-desktop-backend.js");
+      return E2BDesktopBackend.create();
+    }
+    case "local": {
+      const { LocalDesktopBackend } = await import(
+        "./local-desktop-backend.js"
+      );
+      return LocalDesktopBackend.create(CONFIG.desktop.local);
+    }
+    default:
+      throw new Error(`Unknown desktop backend: ${kind}`);
+  }
+}
+
+/**
+ * Reconnect to a desktop that is still running, e.g. when resuming a saved
+ * session, by the kind and ID it reported earlier. With `owned`, a local
+ * display started by an earlier agent process is stopped by kill() again.
+ */
+export async function connectDesktopBackend(
+  kind: DesktopBackendKind,
+  id: string,
+  owned = true
+): Promise<DesktopBackend> {
+  switch (kind) {
+    case "e2b": {
+      const { E2BDesktopBackend } = await import("./e2b-desktop-backend.js");
+      return E2BDesktopBackend.connect(id);
+    }
+    case "local": {
+      const { LocalDesktopBackend } = await import(
+        "./local-desktop-backend.js"
+      );
+      const backend = await LocalDesktopBackend.create({
+        ...CONFIG.desktop.local,
+        display: LocalDesktopBackend.displayOf(id),
+      });
+      if (owned && !backend.owned) {
+        backend.adoptDisplay();
+      }
+      return backend;
+    }
+    default:
+      throw new Error(`Unknown desktop backend: ${kind}`);
+  }
+}
+
+/**
+ * Kill the desktop and report what became of it
+ */
+export async function terminateDesktop(desktop: DesktopBackend): Promise<void> {
+  const owned = desktop.owned !== false;
+  await desktop.kill();
+  console.log(
+    owned
+      ? `✓ Desktop ${desktop.id} terminated`
+      : `✓ Desktop ${desktop.id} left running (the agent did not start it)`
+  );
+}
+
+export default createDesktopBackend;
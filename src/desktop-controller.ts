@@ -1,49 +1,60 @@
 /**
  * Desktop Control Utility Module
- * Provides helper functions for interacting with the E2B Desktop Sandbox
+ * Provides helper functions for interacting with a desktop backend
+ * (E2B Desktop Sandbox or a local Xvfb display)
  */
 
-import { Sandbox } from "@e2b/desktop";
+import type {
+  DesktopBackend,
+  MouseButton,
+  Point,
+  ScrollDirection,
+} from "./desktop-backend.js";
+import { toKeysym, type KeyOptions } from "./keys.js";
+import { ScreenshotService, type Screenshot } from "./screenshot-service.js";
 
-export interface ScreenshotResult {
-  path: string;
-  base64: string;
-  timestamp: number;
-}
+export type { KeyOptions } from "./keys.js";
+
+export type ScreenshotResult = Screenshot;
 
 export interface ClickOptions {
   x: number;
   y: number;
-  button?: "left" | "right" | "middle";
+  button?: MouseButton;
   doubleClick?: boolean;
 }
 
+export interface DragOptions {
+  /** Intermediate points the pointer passes through between start and end */
+  path?: Point[];
+  /** Number of interpolated moves when no path is given (default: 10) */
+  steps?: number;
+  button?: MouseButton;
+  /** Delay between pointer moves in milliseconds (default: 20) */
+  stepDelayMs?: number;
+}
+
 export interface TypeOptions {
   text: string;
   delayMs?: number;
 }
 
-export interface KeyOptions {
-  key: string;
-  modifiers?: ("ctrl" | "alt" | "shift")[];
-}
-
 export class DesktopController {
-  constructor(private sandbox: InstanceType<typeof Sandbox>) {}
+  readonly screenshots: ScreenshotService;
+
+  constructor(
+    private backend: DesktopBackend,
+    screenshots?: ScreenshotService
+  ) {
+    this.screenshots = screenshots ?? new ScreenshotService(backend);
+  }
 
   /**
-   * Take a screenshot of the current desktop
+   * Take a screenshot of the current desktop, encoded and scaled according
+   * to CONFIG.desktop
    */
   async takeScreenshot(): Promise<ScreenshotResult> {
-    const path = await this.sandbox.screenshot();
-    const fs = await import("fs").then((m) => m.promises);
-    const fileContent = await fs.readFile(path, "utf8");
-
-    return {
-      path,
-      base64: fileContent,
-      timestamp: Date.now(),
-    };
+    return this.screenshots.capture();
   }
 
   /**
@@ -52,15 +63,44 @@ export class DesktopController {
   async click(options: ClickOptions): Promise<void> {
     const { x, y, button = "left", doubleClick = false } = options;
 
-    if (doubleClick) {
-      await this.sandbox.click({ x, y });
-      await this.sleep(100);
-      await this.sandbox.click({ x, y });
+    if (!doubleClick) {
+      await this.backend.click({ x, y }, button);
+    } else if (button === "left") {
+      await this.backend.doubleClick({ x, y });
     } else {
-      await this.sandbox.click({ x, y });
+      await this.backend.click({ x, y }, button);
+      await this.sleep(100);
+      await this.backend.click({ x, y }, button);
     }
   }
 
+  /**
+   * Move the mouse pointer without clicking
+   */
+  async moveMouse(x: number, y: number): Promise<void> {
+    await this.backend.moveMouse({ x, y });
+  }
+
+  /**
+   * Press a mouse button, optionally moving to a position first
+   */
+  async mouseDown(button: MouseButton = "left", at?: Point): Promise<void> {
+    if (at) {
+      await this.backend.moveMouse(at);
+    }
+    await this.backend.mouseDown(button);
+  }
+
+  /**
+   * Release a mouse button, optionally moving to a position first
+   */
+  async mouseUp(button: MouseButton = "left", at?: Point): Promise<void> {
+    if (at) {
+      await this.backend.moveMouse(at);
+    }
+    await this.backend.mouseUp(button);
+  }
+
   /**
    * Type text with optional delay between characters
    */
@@ -70,22 +110,20 @@ export class DesktopController {
 
     if (delayMs > 0) {
       for (const char of text) {
-        await this.sandbox.write(char);
+        await this.backend.write(char);
         await this.sleep(delayMs);
       }
     } else {
-      await this.sandbox.write(text);
+      await this.backend.write(text);
     }
   }
 
   /**
-   * Press a keyboard key
+   * Press a keyboard key or chord, e.g. "Return", "ctrl+shift+t" or
+   * { key: "s", modifiers: ["ctrl"] }. Throws on unknown key names.
    */
   async pressKey(options: KeyOptions | string): Promise<void> {
-    const { key, modifiers = [] } =
-      typeof options === "string" ? { key: options, modifiers: [] } : options;
-
-    await this.sandbox.press(key);
+    await this.backend.press(toKeysym(options));
   }
 
   /**
@@ -93,27 +131,30 @@ export class DesktopController {
    */
   async pressKeys(keys: string[]): Promise<void> {
     for (const key of keys) {
-      await this.sandbox.press(key);
+      await this.backend.press(toKeysym(key));
       await this.sleep(50);
     }
   }
 
   /**
-   * Scroll the screen
+   * Turn the scroll wheel, optionally at a specific position
    */
-  async scroll(direction: "up" | "down", amount: number = 3): Promise<void> {
-    const key = direction === "down" ? "Page_Down" : "Page_Up";
-    for (let i = 0; i < amount; i++) {
-      await this.sandbox.press(key);
-      await this.sleep(200);
+  async scroll(
+    direction: ScrollDirection,
+    amount: number = 3,
+    at?: Point
+  ): Promise<void> {
+    if (at) {
+      await this.backend.moveMouse(at);
     }
+    await this.backend.scroll(direction, amount);
   }
 
   /**
    * Launch an application
    */
   async launchApp(app: string, waitMs: number = 3000): Promise<void> {
-    await this.sandbox.launch(app);
+    await this.backend.launch(app);
     await this.sleep(waitMs);
   }
 
@@ -125,62 +166,75 @@ export class DesktopController {
   }
 
   /**
-   * Get the current mouse position (if supported)
+   * Get the current mouse position
    */
-  async getMousePosition(): Promise<{ x: number; y: number } | null> {
-    // This is a placeholder - E2B may not expose mouse position
-    return null;
+  async getMousePosition(): Promise<Point> {
+    return this.backend.getCursorPosition();
   }
 
   /**
-   * Drag from one point to another
+   * Drag from one point to another, holding the button down while the
+   * pointer moves through the intermediate points
    */
   async drag(
     fromX: number,
     fromY: number,
     toX: number,
-    toY: number
+    toY: number,
+    options: DragOptions = {}
   ): Promise<void> {
-    // Simulate drag with click and move - E2B may have limited drag support
-    await this.click({ x: fromX, y: fromY });
-    await this.sleep(100);
-    // For now, just click the target - proper drag may need E2B API enhancement
-    await this.click({ x: toX, y: toY });
+    const { button = "left", steps = 10, stepDelayMs = 20 } = options;
+    const path =
+      options.path ??
+      this.interpolate({ x: fromX, y: fromY }, { x: toX, y: toY }, steps);
+
+    await this.backend.moveMouse({ x: fromX, y: fromY });
+    await this.backend.mouseDown(button);
+    try {
+      for (const point of path) {
+        await this.sleep(stepDelayMs);
+        await this.backend.moveMouse(point);
+      }
+      await this.sleep(stepDelayMs);
+      await this.backend.moveMouse({ x: toX, y: toY });
+    } finally {
+      await this.backend.mouseUp(button);
+    }
   }
 
   /**
    * Select all text (Ctrl+A)
    */
   async selectAll(): Promise<void> {
-    await this.sandbox.press("ctrl+a");
+    await this.backend.press("ctrl+a");
   }
 
   /**
    * Copy text (Ctrl+C)
    */
   async copy(): Promise<void> {
-    await this.sandbox.press("ctrl+c");
+    await this.backend.press("ctrl+c");
   }
 
   /**
    * Paste text (Ctrl+V)
    */
   async paste(): Promise<void> {
-    await this.sandbox.press("ctrl+v");
+    await this.backend.press("ctrl+v");
   }
 
   /**
    * Undo (Ctrl+Z)
    */
   async undo(): Promise<void> {
-    await this.sandbox.press("ctrl+z");
+    await this.backend.press("ctrl+z");
   }
 
   /**
    * Redo (Ctrl+Y)
    */
   async redo(): Promise<void> {
-    await this.sandbox.press("ctrl+y");
+    await this.backend.press("ctrl+y");
   }
 
   /**
@@ -188,21 +242,32 @@ export class DesktopController {
    */
   async tab(shift: boolean = false): Promise<void> {
     const key = shift ? "shift+Tab" : "Tab";
-    await this.sandbox.press(key);
+    await this.backend.press(key);
   }
 
   /**
    * Press Enter
    */
   async pressEnter(): Promise<void> {
-    await this.sandbox.press("Return");
+    await this.backend.press("Return");
   }
 
   /**
    * Press Escape
    */
   async pressEscape(): Promise<void> {
-    await this.sandbox.press("Escape");
+    await this.backend.press("Escape");
+  }
+
+  private interpolate(from: Point, to: Point, steps: number): Point[] {
+    const points: Point[] = [];
+    for (let i = 1; i < steps; i++) {
+      points.push({
+        x: Math.round(from.x + ((to.x - from.x) * i) / steps),
+        y: Math.round(from.y + ((to.y - from.y) * i) / steps),
+      });
+    }
+    return points;
   }
 
   private sleep(ms: number): Promise<void> {
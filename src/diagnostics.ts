@@ -1,12 +1,15 @@
 /**
- * Test Utilities for Computer Use Agent
+ * Diagnostics for Computer Use Agent
+ * Live connectivity and environment checks used by `npm run diagnose`
  */
 
-export async function testConnection(client: any, modelName: string = "minimax-m2.1-free"): Promise<boolean> {
+import CONFIG from "./config.js";
+import type { ModelProvider } from "./model-provider.js";
+
+export async function testConnection(provider: ModelProvider): Promise<boolean> {
   try {
-    const response = await client.messages.create({
-      model: modelName,
-      max_tokens: 100,
+    const response = await provider.createMessage({
+      maxTokens: 100,
       messages: [
         {
           role: "user",
@@ -16,11 +19,11 @@ export async function testConnection(client: any, modelName: string = "minimax-m
       ],
     });
 
-    console.log("✓ Claude API connection: OK");
-    console.log(`  Response: ${response.content[0].type === 'text' ? response.content[0].text : 'Invalid response'}`);
+    console.log(`✓ Model API connection (${provider.kind}): OK`);
+    console.log(`  Response: ${response.content[0]?.type === 'text' ? response.content[0].text : 'Invalid response'}`);
     return true;
   } catch (error) {
-    console.error("✗ Claude API connection: FAILED");
+    console.error(`✗ Model API connection (${provider.kind}): FAILED`);
     console.error(`  Error: ${error}`);
     return false;
   }
@@ -55,11 +58,11 @@ export async function testEnvironment(): Promise<boolean> {
     allOk = false;
   }
 
-  // Check OPENCODE_ZEN_API_KEY
-  if (process.env.OPENCODE_ZEN_API_KEY) {
-    console.log("✓ OPENCODE_ZEN_API_KEY: Set");
+  // Check MODEL_API_KEY / OPENCODE_ZEN_API_KEY (not needed for OpenCode sessions)
+  if (CONFIG.model.apiKey || CONFIG.model.provider === "opencode") {
+    console.log("✓ MODEL_API_KEY / OPENCODE_ZEN_API_KEY: Set");
   } else {
-    console.log("✗ OPENCODE_ZEN_API_KEY: Not set");
+    console.log("✗ MODEL_API_KEY / OPENCODE_ZEN_API_KEY: Not set");
     allOk = false;
   }
 
@@ -76,7 +79,7 @@ export async function testEnvironment(): Promise<boolean> {
   return allOk;
 }
 
-export async function runDiagnostics(client: any, Sandbox: any, modelName: string = "minimax-m2.1-free"): Promise<void> {
+export async function runDiagnostics(provider: ModelProvider, Sandbox: any): Promise<void> {
   console.log("\n🔧 Running Diagnostics");
   console.log("=".repeat(50));
 
@@ -84,13 +87,13 @@ export async function runDiagnostics(client: any, Sandbox: any, modelName: strin
   console.log("\n📡 API Connections");
   console.log("─".repeat(50));
 
-  const modelOk = await testConnection(client, modelName);
+  const modelOk = await testConnection(provider);
   const e2bOk = await testE2BConnection(Sandbox);
 
   console.log("\n📊 Diagnostic Summary");
   console.log("=".repeat(50));
   console.log(`Environment Setup: ${envOk ? "✓" : "✗"}`);
-  console.log(`MiniMax M2.1 API: ${modelOk ? "✓" : "✗"}`);
+  console.log(`Model API (${provider.model}): ${modelOk ? "✓" : "✗"}`);
   console.log(`E2B Sandbox: ${e2bOk ? "✓" : "✗"}`);
 
   if (envOk && modelOk && e2bOk) {
@@ -0,0 +1,138 @@
+/**
+ * E2B Desktop Backend
+ * Runs the agent against a remote E2B Desktop Sandbox
+ */
+
+import { Sandbox } from "@e2b/desktop";
+import type {
+  CommandResult,
+  DesktopBackend,
+  DesktopStream,
+  MouseButton,
+  Point,
+  ScrollDirection,
+} from "./desktop-backend.js";
+
+export class E2BDesktopBackend implements DesktopBackend {
+  readonly kind = "e2b";
+  private streamUrl: string | null = null;
+
+  constructor(private sandbox: InstanceType<typeof Sandbox>) {}
+
+  /**
+   * Create a new E2B Desktop Sandbox
+   */
+  static async create(): Promise<E2BDesktopBackend> {
+    const sandbox = await Sandbox.create();
+    return new E2BDesktopBackend(sandbox);
+  }
+
+  /**
+   * Reconnect to a running E2B Desktop Sandbox by its ID
+   */
+  static async connect(sandboxId: string): Promise<E2BDesktopBackend> {
+    const sandbox = await Sandbox.connect(sandboxId);
+    return new E2BDesktopBackend(sandbox);
+  }
+
+  get id(): string {
+    return this.sandbox.sandboxId;
+  }
+
+  async screenshot(): Promise<string> {
+    return this.sandbox.screenshot();
+  }
+
+  async click(position: Point, button: MouseButton = "left"): Promise<void> {
+    if (button === "left") {
+      await this.sandbox.click(position);
+      return;
+    }
+
+    await this.sandbox.moveMouse(position.x, position.y);
+    if (button === "right") {
+      await this.sandbox.rightClick();
+    } else {
+      await this.sandbox.middleClick();
+    }
+  }
+
+  async doubleClick(position: Point): Promise<void> {
+    await this.sandbox.moveMouse(position.x, position.y);
+    await this.sandbox.doubleClick();
+  }
+
+  async moveMouse(position: Point): Promise<void> {
+    await this.sandbox.moveMouse(position.x, position.y);
+  }
+
+  async mouseDown(button: MouseButton = "left"): Promise<void> {
+    await this.sandbox.mousePress(button);
+  }
+
+  async mouseUp(button: MouseButton = "left"): Promise<void> {
+    await this.sandbox.mouseRelease(button);
+  }
+
+  async scroll(direction: ScrollDirection, amount: number): Promise<void> {
+    if (direction !== "up" && direction !== "down") {
+      throw new Error(`E2B desktop does not support scrolling ${direction}`);
+    }
+    await this.sandbox.scroll(direction, amount);
+  }
+
+  async getCursorPosition(): Promise<Point> {
+    return this.sandbox.getCursorPosition();
+  }
+
+  async write(text: string): Promise<void> {
+    await this.sandbox.write(text);
+  }
+
+  async press(key: string): Promise<void> {
+    await this.sandbox.press(key);
+  }
+
+  async launch(app: string): Promise<void> {
+    await this.sandbox.launch(app);
+  }
+
+  /**
+   * Start the sandbox's noVNC stream, protected by a generated key that is
+   * part of the returned URL
+   */
+  async startStream(): Promise<DesktopStream> {
+    if (!this.streamUrl) {
+      await this.sandbox.stream.start({ requireAuth: true });
+      const authKey: string = this.sandbox.stream.getAuthKey();
+      const url: string = this.sandbox.stream.getUrl({ authKey });
+      this.streamUrl = url;
+    }
+    return { url: this.streamUrl };
+  }
+
+  async runCommand(command: string): Promise<CommandResult> {
+    try {
+      const { exitCode, stdout, stderr } =
+        await this.sandbox.commands.run(command);
+      return { exitCode, stdout, stderr };
+    } catch (error: any) {
+      // The SDK throws a CommandExitError for non-zero exit codes
+      if (typeof error?.exitCode !== "number") {
+        throw error;
+      }
+      const { exitCode, stdout, stderr } = error;
+      return { exitCode, stdout, stderr };
+    }
+  }
+
+  async keepAlive(ms: number): Promise<void> {
+    await this.sandbox.setTimeout(ms);
+  }
+
+  async kill(): Promise<void> {
+    await this.sandbox.kill();
+  }
+}
+
+export default E2BDesktopBackend;
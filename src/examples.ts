@@ -335,3 +335,19 @@ Software setup and configuration:
 - Set up integrations
 - Verify installations
 `;
+
+/**
+ * All use cases by name, e.g. to run them as a batch (npm run batch)
+ */
+export const useCases: Record<string, string> = {
+  dataEntry: useCase1DataEntry,
+  documentation: useCase2Documentation,
+  testing: useCase3Testing,
+  administration: useCase4Administration,
+  communication: useCase5Communication,
+  shopping: useCase6Shopping,
+  content: useCase7Content,
+  analysis: useCase8Analysis,
+  socialMedia: useCase9SocialMedia,
+  configuration: useCase10Configuration,
+};
@@ -0,0 +1,348 @@
+/**
+ * History Manager
+ * Keeps long computer use conversations within the model's context window.
+ * Only the most recent screenshots are kept (older ones become text
+ * placeholders) and, once the estimated size exceeds a token budget, older
+ * turns are replaced by a model-written summary.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import CONFIG from "./config.js";
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+} from "./model-provider.js";
+
+export interface HistoryManagerOptions {
+  /** Provider used to write summaries; its capabilities cap `maxImages` */
+  provider: ModelProvider;
+  /** Number of most recent images kept in the history */
+  maxImages?: number;
+  /** Estimated token count above which older turns are summarised */
+  tokenBudget?: number;
+  /** Minimum number of recent messages kept verbatim when summarising */
+  keepRecentMessages?: number;
+  summaryMaxTokens?: number;
+}
+
+export interface CompactionResult {
+  /** Images replaced by placeholders */
+  imagesRemoved: number;
+  /** Messages folded into the summary (0 if no summary was written) */
+  messagesSummarised: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** The summary model call, so its usage can be recorded like any other */
+  summaryCall?: ModelCall;
+}
+
+export interface ModelCall {
+  request: ModelRequest;
+  response: ModelResponse;
+  durationMs: number;
+}
+
+type ContentBlock = Exclude<Anthropic.MessageParam["content"], string>[number];
+
+/** Rough cost of one downscaled screenshot (1280x800 / 750 px per token) */
+const IMAGE_TOKENS = 1600;
+
+const CHARS_PER_TOKEN = 4;
+
+const IMAGE_PLACEHOLDER = "[Earlier screenshot removed to save context]";
+
+const SUMMARY_PREFIX = "Summary of the earlier conversation:";
+
+const SUMMARY_PROMPT = `You compress the transcript of a computer use session so the agent can continue the task without it.
+
+Write a concise summary that keeps:
+- the user's requests and any constraints they gave
+- what has been done so far and what it achieved
+- the current state of the screen and open applications, as far as known
+- anything that failed and should not be retried the same way
+- what remains to be done
+
+Do not invent details that are not in the transcript.`;
+
+/**
+ * Estimate the token count of a conversation. This is a heuristic (4
+ * characters per token, a fixed cost per image) meant for budgeting, not
+ * billing.
+ */
+export function estimateTokens(history: Anthropic.MessageParam[]): number {
+  const { chars, images } = measure(history);
+  return Math.ceil(chars / CHARS_PER_TOKEN) + images * IMAGE_TOKENS;
+}
+
+/**
+ * Number of images in a conversation, including those in tool results
+ */
+export function countImages(history: Anthropic.MessageParam[]): number {
+  return measure(history).images;
+}
+
+function measure(history: Anthropic.MessageParam[]): {
+  chars: number;
+  images: number;
+} {
+  let chars = 0;
+  let images = 0;
+
+  const countBlock = (block: ContentBlock): void => {
+    switch (block.type) {
+      case "text":
+        chars += block.text.length;
+        break;
+      case "image":
+        images++;
+        break;
+      case "tool_use":
+        chars += block.name.length + JSON.stringify(block.input ?? {}).length;
+        break;
+      case "tool_result":
+        if (typeof block.content === "string") {
+          chars += block.content.length;
+        } else {
+          block.content?.forEach(countBlock);
+        }
+        break;
+    }
+  };
+
+  for (const message of history) {
+    if (typeof message.content === "string") {
+      chars += message.content.length;
+    } else {
+      message.content.forEach(countBlock);
+    }
+  }
+
+  return { chars, images };
+}
+
+export class HistoryManager {
+  private maxImages: number;
+  private tokenBudget: number;
+  private keepRecentMessages: number;
+  private summaryMaxTokens: number;
+
+  constructor(private options: HistoryManagerOptions) {
+    const { capabilities } = options.provider;
+    this.maxImages = Math.min(
+      options.maxImages ?? CONFIG.history.maxImages,
+      capabilities.vision ? capabilities.maxImages : 0
+    );
+    this.tokenBudget = options.tokenBudget ?? CONFIG.history.tokenBudget;
+    this.keepRecentMessages =
+      options.keepRecentMessages ?? CONFIG.history.keepRecentMessages;
+    this.summaryMaxTokens =
+      options.summaryMaxTokens ?? CONFIG.history.summaryMaxTokens;
+  }
+
+  /**
+   * Compact the history in place: prune old images, then summarise older
+   * turns if the conversation is still over budget
+   */
+  async compact(history: Anthropic.MessageParam[]): Promise<CompactionResult> {
+    const tokensBefore = estimateTokens(history);
+    const imagesRemoved = this.pruneImages(history);
+
+    let messagesSummarised = 0;
+    let summaryCall: ModelCall | undefined;
+    if (estimateTokens(history) > this.tokenBudget) {
+      try {
+        ({ messagesSummarised, summaryCall } = await this.summarise(history));
+      } catch (error) {
+        // Keep going with the unsummarised history rather than failing the run
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  Could not summarise history: ${errorMessage}`);
+      }
+    }
+
+    const tokensAfter = estimateTokens(history);
+    if (messagesSummarised > 0) {
+      console.log(
+        `🗜️  Summarised ${messagesSummarised} messages (~${tokensBefore} → ~${tokensAfter} tokens)`
+      );
+    }
+
+    return {
+      imagesRemoved,
+      messagesSummarised,
+      tokensBefore,
+      tokensAfter,
+      ...(summaryCall ? { summaryCall } : {}),
+    };
+  }
+
+  /**
+   * Replace all but the newest `maxImages` images with text placeholders,
+   * including images nested in tool results. Returns the number replaced.
+   */
+  pruneImages(history: Anthropic.MessageParam[]): number {
+    let seen = 0;
+    let removed = 0;
+
+    const prune = <T extends ContentBlock>(blocks: T[]): T[] => {
+      const result = [...blocks];
+      for (let i = result.length - 1; i >= 0; i--) {
+        const block = result[i];
+        if (block.type === "image") {
+          if (++seen > this.maxImages) {
+            result[i] = { type: "text", text: IMAGE_PLACEHOLDER } as T;
+            removed++;
+          }
+        } else if (
+          block.type === "tool_result" &&
+          Array.isArray(block.content)
+        ) {
+          result[i] = { ...block, content: prune(block.content) };
+        }
+      }
+      return result;
+    };
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const message = history[i];
+      if (typeof message.content !== "string") {
+        history[i] = { ...message, content: prune(message.content) };
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Fold everything before the most recent turns into one summary message.
+   * The kept part must start with an assistant turn so every tool_result
+   * still follows its tool_use. Returns the number of messages replaced and
+   * the model call that wrote the summary, if one was made.
+   */
+  private async summarise(
+    history: Anthropic.MessageParam[]
+  ): Promise<{ messagesSummarised: number; summaryCall?: ModelCall }> {
+    let split = Math.max(0, history.length - this.keepRecentMessages);
+    while (split > 0 && history[split].role !== "assistant") {
+      split--;
+    }
+    if (split <= 1) {
+      return { messagesSummarised: 0 };
+    }
+
+    const older = history.slice(0, split);
+    // Not worth a model call when recent turns (usually screenshots) are
+    // what keeps the conversation over budget
+    if (estimateTokens(older) < this.tokenBudget / 4) {
+      return { messagesSummarised: 0 };
+    }
+
+    const request: ModelRequest = {
+      system: SUMMARY_PROMPT,
+      messages: [{ role: "user", content: renderTranscript(older) }],
+      maxTokens: this.summaryMaxTokens,
+    };
+    const requestedAt = Date.now();
+    const response = await this.options.provider.createMessage(request);
+    const summaryCall = {
+      request,
+      response,
+      durationMs: Date.now() - requestedAt,
+    };
+
+    const summary = response.content
+      .flatMap((block) => (block.type === "text" ? [block.text] : []))
+      .join("\n")
+      .trim();
+    if (!summary) {
+      throw new Error("Model returned an empty summary");
+    }
+
+    history.splice(0, split, {
+      role: "user",
+      content: `${SUMMARY_PREFIX}\n${summary}`,
+    });
+    return { messagesSummarised: older.length, summaryCall };
+  }
+}
+
+/**
+ * Render messages as plain text for the summariser and text-only
+ * providers, without images
+ */
+export function renderTranscript(history: Anthropic.MessageParam[]): string {
+  const renderBlock = (block: ContentBlock): string => {
+    switch (block.type) {
+      case "text":
+        return block.text;
+      case "image":
+        return "[screenshot]";
+      case "tool_use":
+        return `[tool call] ${block.name} ${JSON.stringify(block.input ?? {})}`;
+      case "tool_result": {
+        const content =
+          typeof block.content === "string"
+            ? block.content
+            : (block.content ?? []).map(renderBlock).join(" ");
+        return `[tool result${block.is_error ? " (error)" : ""}] ${content}`;
+      }
+      default:
+        return "";
+    }
+  };
+
+  return history
+    .map((message) => {
+      const content =
+        typeof message.content === "string"
+          ? message.content
+          : message.content.map(renderBlock).join("\n");
+      return `${message.role.toUpperCase()}:\n${content}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Remove the last operator instruction and everything after it. An
+ * instruction given after a pause shares its turn with the pending tool
+ * results; only its own blocks are removed, so every tool_use keeps its
+ * result. Returns the number of messages removed or trimmed (0 if there was
+ * no instruction).
+ */
+export function removeLastInstruction(
+  history: Anthropic.MessageParam[]
+): number {
+  let index = history.length - 1;
+  while (index >= 0 && !isInstruction(history[index])) {
+    index--;
+  }
+  if (index < 0) {
+    return 0;
+  }
+
+  const message = history[index];
+  const results =
+    typeof message.content === "string"
+      ? []
+      : message.content.filter((block) => block.type === "tool_result");
+  const removed = history.splice(index);
+  if (results.length > 0) {
+    history.push({ ...message, content: results });
+  }
+  return removed.length;
+}
+
+/**
+ * Whether a message is an instruction from the operator rather than a batch
+ * of tool results
+ */
+function isInstruction(message: Anthropic.MessageParam): boolean {
+  return (
+    message.role === "user" &&
+    (typeof message.content === "string" ||
+      message.content.some((block) => block.type !== "tool_result"))
+  );
+}
+
+export default HistoryManager;
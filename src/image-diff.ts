@@ -0,0 +1,88 @@
+/**
+ * Image Diff
+ * Pixel-level comparison of two screenshots, used to check that a replayed
+ * run ends up on the same screens as the recorded one
+ */
+
+import sharp from "sharp";
+
+export interface ImageDiffOptions {
+  /** Per-channel difference (0-255) below which pixels count as equal */
+  tolerance?: number;
+}
+
+export interface ImageDiffResult {
+  width: number;
+  height: number;
+  differentPixels: number;
+  /** Fraction of pixels that differ (0-1) */
+  diffRatio: number;
+  /** PNG highlighting differing pixels in red over a dimmed copy of `expected` */
+  diffImage: Buffer;
+}
+
+/**
+ * Compare two images. `actual` is resized to the size of `expected` first so
+ * captures at different resolutions can still be compared.
+ */
+export async function compareImages(
+  expected: Buffer,
+  actual: Buffer,
+  options: ImageDiffOptions = {}
+): Promise<ImageDiffResult> {
+  const { tolerance = 16 } = options;
+
+  const reference = await sharp(expected)
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = reference.info;
+  const candidate = await sharp(actual)
+    .resize(width, height, { fit: "fill" })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const diff = Buffer.alloc(width * height * 3);
+  let differentPixels = 0;
+
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * 3;
+    let different = false;
+    for (let channel = 0; channel < 3; channel++) {
+      const delta = Math.abs(
+        reference.data[offset + channel] - candidate[offset + channel]
+      );
+      if (delta > tolerance) {
+        different = true;
+      }
+    }
+
+    if (different) {
+      differentPixels++;
+      diff[offset] = 255;
+      diff[offset + 1] = 0;
+      diff[offset + 2] = 0;
+    } else {
+      for (let channel = 0; channel < 3; channel++) {
+        diff[offset + channel] = Math.round(
+          reference.data[offset + channel] * 0.3
+        );
+      }
+    }
+  }
+
+  const diffImage = await sharp(diff, { raw: { width, height, channels: 3 } })
+    .png()
+    .toBuffer();
+
+  return {
+    width,
+    height,
+    differentPixels,
+    diffRatio: differentPixels / (width * height),
+    diffImage,
+  };
+}
+
+export default compareImages;
@@ -1,75 +1,261 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { Sandbox } from "@e2b/desktop";
-import fs from "fs";
+import type Anthropic from "@anthropic-ai/sdk";
 import path from "path";
+import { pathToFileURL } from "url";
 import dotenv from "dotenv";
-import { OpenCodeController } from "./opencode-client.js";
+import {
+  AgentLoop,
+  type AgentLoopHooks,
+  type ToolResultContent,
+} from "./agent-loop.js";
+import { DesktopController } from "./desktop-controller.js";
+import { HistoryManager } from "./history-manager.js";
+import {
+  assertComputerUseCapable,
+  createModelProvider,
+  type ModelProvider,
+} from "./model-provider.js";
+import { toImageBlock } from "./screenshot-service.js";
+import { TrajectoryRecorder } from "./trajectory.js";
+import CONFIG from "./config.js";
+import { loadSafetyPolicy } from "./safety-policy.js";
+import {
+  CostTracker,
+  combineUsage,
+  formatUsage,
+  loadPriceTable,
+  type PriceTable,
+  type UsageSummary,
+} from "./cost-tracker.js";
+import {
+  SessionStore,
+  hasPendingWork,
+  keepForResume,
+  onInterrupt,
+  reconnectSession,
+  remainingSteps,
+  type AgentSession,
+} from "./session-store.js";
+import {
+  createComputerToolRegistry,
+  type ToolRegistry,
+} from "./tool-registry.js";
+import {
+  createDesktopBackend,
+  terminateDesktop,
+  type DesktopBackend,
+  type DesktopStream,
+} from "./desktop-backend.js";
+import {
+  formatVerification,
+  runVerifiers,
+  type Verifier,
+  type VerifierResult,
+} from "./verifiers.js";
 
 dotenv.config();
 
-interface ToolUseBlock {
-  type: "tool_use";
-  id: string;
-  name: string;
-  input: Record<string, unknown>;
+const SYSTEM_PROMPT = `You are a computer use agent with the ability to control a desktop. You can interact with applications, navigate the screen, and perform tasks.
+
+Available tools:
+1. screenshot - Take a screenshot of the current desktop
+2. click - Click at coordinates (x, y) with the left, right or middle button, optionally double-clicking
+3. mouse_move - Move the pointer to (x, y) without clicking
+4. left_mouse_down / left_mouse_up - Press or release the left mouse button
+5. drag - Drag from one point to another with the left button held down
+6. type - Type text into the currently focused element
+7. key - Press a key or chord (e.g., "Return", "Escape", "ctrl+l", "ctrl+shift+t")
+8. scroll - Turn the mouse wheel up, down, left or right, optionally at (x, y)
+9. cursor_position - Get the current pointer coordinates
+10. launch_app - Launch an application (e.g., "google-chrome", "code", "gedit")
+11. wait - Wait for a specified duration in milliseconds
+
+When you need to interact with the computer:
+1. First take a screenshot to see the current state
+2. Identify what needs to be done
+3. Use the appropriate tools to accomplish the task
+4. Take another screenshot to verify the action
+5. Repeat until the task is complete
+
+Be methodical and describe what you're doing at each step.`;
+
+const DONE_MESSAGE = "Task completed. Ready for the next instruction.";
+
+export interface AgentTask {
+  prompt: string;
+  /** Checked on the desktop once the model stops; they decide the status */
+  verify?: Verifier[];
 }
 
-interface TextBlock {
-  type: "text";
-  text: string;
+export interface TaskResult {
+  /**
+   * "passed" or "failed" by the verifiers; "unverified" when the task has
+   * none or was paused before it finished
+   */
+  status: "passed" | "failed" | "unverified";
+  /** The model's final message, empty if it ended without one */
+  message: string;
+  verification: VerifierResult[];
 }
 
-type ContentBlock = ToolUseBlock | TextBlock;
+export class ComputerUseAgent {
+  private desktop: DesktopBackend | null;
+  private controller: DesktopController | null = null;
+  private tools: ToolRegistry | null = null;
+  private conversationHistory: Anthropic.MessageParam[] = [];
+  private provider: ModelProvider | null;
+  private loop: AgentLoop | null = null;
+  private sessions = new SessionStore();
+  private session: AgentSession | null = null;
+  private prices: PriceTable | null = null;
+  private runUsage: UsageSummary[] = [];
+  // Aborted by pause(); replaced once the run it stopped has ended, so a
+  // pause requested between tasks still stops the next one
+  private abortController = new AbortController();
+
+  /**
+   * @param backend Desktop to drive; when omitted one is created on
+   *   initialize() according to CONFIG.desktop.backend
+   * @param provider Model to use; when omitted one is created on
+   *   initialize() according to CONFIG.model
+   * @param session Saved session to continue (see ComputerUseAgent.resume)
+   */
+  constructor(
+    backend?: DesktopBackend,
+    provider?: ModelProvider,
+    session?: AgentSession
+  ) {
+    this.desktop = backend ?? null;
+    this.provider = provider ?? null;
+    if (session) {
+      this.session = session;
+      this.conversationHistory = session.history;
+    }
+  }
 
-// Initialize OpenCode Zen client (using Anthropic SDK with custom endpoint for MiniMax M2.1)
-const client = new Anthropic({
-  apiKey: process.env.OPENCODE_ZEN_API_KEY,
-  baseURL: "https://opencode.ai/zen/v1",
-});
+  /**
+   * Load a saved session and reconnect to its desktop. Call initialize()
+   * and then continue() on the returned agent. Without a provider it runs
+   * on the model the session was started with.
+   */
+  static async resume(
+    runId: string,
+    provider?: ModelProvider
+  ): Promise<ComputerUseAgent> {
+    const { session, backend, model } = await reconnectSession(runId);
+    return new ComputerUseAgent(
+      backend,
+      provider ?? (await createModelProvider(model)),
+      session
+    );
+  }
 
-const MODEL = process.env.OPENCODE_ZEN_MODEL || "minimax-m2.1-free";
+  /** ID of the current session, once the first instruction was sent */
+  get runId(): string | undefined {
+    return this.session?.runId;
+  }
 
-class ComputerUseAgent {
-  private desktop: InstanceType<typeof Sandbox> | null = null;
-  private conversationHistory: Array<{
-    role: "user" | "assistant";
-    content: string | ContentBlock[];
-  }> = [];
+  /** Usage and estimated cost of all runs of this agent so far */
+  get usage(): UsageSummary {
+    return combineUsage(this.provider?.model ?? "", this.runUsage);
+  }
+
+  /** Usage and estimated cost of the last run, once one has ended */
+  get lastRunUsage(): UsageSummary | undefined {
+    return this.runUsage.at(-1);
+  }
+
+  /** Whether the last run was paused (and the desktop is kept alive) */
+  get paused(): boolean {
+    return this.session?.status === "paused";
+  }
 
   async initialize(): Promise<void> {
     console.log("Initializing Computer Use Agent...");
-    console.log("Creating E2B Desktop Sandbox...");
 
-    try {
-      this.desktop = await Sandbox.create();
-      console.log(`✓ Desktop sandbox created: ${this.desktop.sandboxId}`);
-    } catch (error) {
-      console.error("Failed to create desktop sandbox:", error);
-      throw error;
+    this.provider ??= await createModelProvider();
+    assertComputerUseCapable(this.provider);
+    console.log(`✓ Model: ${this.provider.model} (${this.provider.kind})`);
+    const policy = loadSafetyPolicy();
+    if (policy.source) {
+      console.log(`✓ Safety policy: ${policy.source}`);
+    }
+    this.prices = loadPriceTable();
+
+    if (this.desktop) {
+      console.log(`✓ Using desktop: ${this.desktop.id}`);
+    } else {
+      console.log("Creating desktop...");
+
+      try {
+        this.desktop = await createDesktopBackend();
+        console.log(`✓ Desktop created: ${this.desktop.id}`);
+      } catch (error) {
+        console.error("Failed to create desktop:", error);
+        throw error;
+      }
+    }
+
+    this.controller = new DesktopController(this.desktop);
+    this.tools = createComputerToolRegistry(this.controller, policy);
+    this.loop = new AgentLoop({
+      provider: this.provider,
+      system: SYSTEM_PROMPT,
+      tools: this.tools.getDefinitions(),
+      executeTool: (name, input) => this.executeToolCall(name, input),
+      history: new HistoryManager({ provider: this.provider }),
+      hooks: [
+        {
+          onText: (text) => console.log(`\nAssistant: ${text}`),
+        },
+      ],
+    });
+  }
+
+  /**
+   * Observe the agent loop, e.g. to stream progress elsewhere. Call after
+   * initialize(); returns a function that removes the hooks.
+   */
+  addHooks(hooks: AgentLoopHooks): () => void {
+    if (!this.loop) {
+      throw new Error("Desktop sandbox not initialized");
     }
+    return this.loop.addHooks(hooks);
   }
 
   async takeScreenshot(): Promise<string> {
-    if (!this.desktop) {
+    if (!this.controller) {
       throw new Error("Desktop sandbox not initialized");
     }
 
     try {
-      // Get current window screenshot
-      const screenshotPath = await this.desktop.screenshot();
-      const imageData = fs.readFileSync(screenshotPath);
-      return imageData.toString("base64");
+      const screenshot = await this.controller.takeScreenshot();
+      return screenshot.base64;
     } catch (error) {
       console.error("Failed to take screenshot:", error);
       throw error;
     }
   }
 
+  /**
+   * Start a live VNC stream of the desktop, to watch it or take it over
+   */
+  async startStream(): Promise<DesktopStream> {
+    if (!this.desktop) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+    if (!this.desktop.startStream) {
+      throw new Error(
+        `The ${this.desktop.kind} desktop backend has no live view`
+      );
+    }
+    return this.desktop.startStream();
+  }
+
   async executeToolCall(
     toolName: string,
     toolInput: Record<string, unknown>
-  ): Promise<string> {
-    if (!this.desktop) {
+  ): Promise<ToolResultContent> {
+    if (!this.tools) {
       throw new Error("Desktop sandbox not initialized");
     }
 
@@ -77,249 +263,237 @@ class ComputerUseAgent {
     console.log(`Input: ${JSON.stringify(toolInput)}`);
 
     try {
-      switch (toolName) {
-        case "screenshot":
-          const base64Image = await this.takeScreenshot();
-          console.log("✓ Screenshot captured");
-          return JSON.stringify({ success: true, image_base64: base64Image });
-
-        case "click":
-          const { x, y } = toolInput as { x: number; y: number };
-          await this.desktop.click({
-            x: Math.round(x),
-            y: Math.round(y),
-          });
-          console.log(`✓ Clicked at (${x}, ${y})`);
-          return JSON.stringify({ success: true });
-
-        case "type":
-          const { text } = toolInput as { text: string };
-          await this.desktop.write(text);
-          console.log(`✓ Typed: "${text}"`);
-          return JSON.stringify({ success: true });
-
-        case "key":
-          const { key } = toolInput as { key: string };
-          await this.desktop.press(key);
-          console.log(`✓ Pressed key: ${key}`);
-          return JSON.stringify({ success: true });
-
-        case "scroll":
-          const { direction, amount } = toolInput as {
-            direction: string;
-            amount: number;
-          };
-          // E2B Desktop may not have scroll, use arrow keys instead
-          const key = direction === "down" ? "Page_Down" : "Page_Up";
-          for (let i = 0; i < amount; i++) {
-            await this.desktop.press(key);
-          }
-          console.log(`✓ Scrolled ${direction} ${amount} times`);
-          return JSON.stringify({ success: true });
-
-        case "launch_app":
-          const { app } = toolInput as { app: string };
-          await this.desktop.launch(app);
-          console.log(`✓ Launched ${app}`);
-          await this.sleep(3000); // Wait for app to open
-          return JSON.stringify({ success: true });
-
-        case "wait":
-          const { duration } = toolInput as { duration: number };
-          await this.sleep(duration);
-          console.log(`✓ Waited ${duration}ms`);
-          return JSON.stringify({ success: true });
-
-        default:
-          return JSON.stringify({ error: `Unknown tool: ${toolName}` });
-      }
+      const result = await this.tools.execute(toolName, toolInput);
+      console.log(`✓ ${toolName} completed`);
+      return result;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       console.error(`Tool execution failed: ${errorMessage}`);
-      return JSON.stringify({ error: errorMessage });
+      throw error;
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  async chat(userMessage: string): Promise<string> {
+    return (await this.send(userMessage)) || DONE_MESSAGE;
   }
 
-  async chat(userMessage: string): Promise<string> {
+  /**
+   * Run a task and check its outcome with its verifiers, rather than taking
+   * the model's word that it is done
+   */
+  async perform(task: AgentTask): Promise<TaskResult> {
+    const message = await this.send(task.prompt);
+    if (!task.verify?.length || this.paused) {
+      return { status: "unverified", message, verification: [] };
+    }
+
+    console.log("\n🔎 Verifying the result...");
+    const verification = await runVerifiers(this.desktop!, task.verify);
+    const failed = verification.filter((result) => !result.passed);
+    console.log(formatVerification(verification));
+    console.log(
+      failed.length === 0
+        ? "✅ Task verified"
+        : `❌ Task failed ${failed.length} of ${verification.length} checks`
+    );
+    return {
+      status: failed.length === 0 ? "passed" : "failed",
+      message,
+      verification,
+    };
+  }
+
+  /**
+   * Send an instruction and run the loop until the model stops. Returns its
+   * final message, which may be empty.
+   */
+  private async send(userMessage: string): Promise<string> {
     console.log(`\n${"=".repeat(60)}`);
     console.log(`User: ${userMessage}`);
     console.log("=".repeat(60));
 
-    // Add user message to conversation history
-    this.conversationHistory.push({
-      role: "user",
-      content: userMessage,
+    if (!this.controller || !this.loop) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+    const controller = this.controller;
+
+    return this.runTask(userMessage, async (recorder) => {
+      // A new instruction gets the full step limit
+      this.session!.taskSteps = 0;
+      // Send the task together with a fresh screenshot for context
+      const screenshot = await controller.takeScreenshot();
+      recorder?.recordScreenshot(screenshot, 0, "initial");
+      this.conversationHistory.push({
+        role: "user",
+        content: [toImageBlock(screenshot), { type: "text", text: userMessage }],
+      });
     });
+  }
 
-    // Take screenshot for context
-    try {
-      const screenshotBase64 = await this.takeScreenshot();
+  /**
+   * Continue a resumed or paused session where it stopped
+   *
+   * @param note Told to the model along with the pending turn, e.g. that
+   *   someone used the desktop in the meantime
+   */
+  async continue(note?: string): Promise<string> {
+    if (!this.loop) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+    if (!this.session || !hasPendingWork(this.session)) {
+      console.log("✓ Nothing left to resume");
+      return "";
+    }
 
-      // Call MiniMax M2.1 with vision capability via OpenCode Zen
-      const response = await client.messages.create({
-        model: MODEL,
-        max_tokens: 4096,
-        system: `You are a computer use agent with the ability to control a desktop. You can interact with applications, navigate the screen, and perform tasks.
+    console.log(
+      `▶️  Resuming session ${this.session.runId} after ${this.session.steps} steps`
+    );
+    const pending = this.conversationHistory.at(-1)!;
+    const text = await this.runTask(this.session.task, async () => {
+      if (note) {
+        pending.content = [
+          ...(typeof pending.content === "string"
+            ? [{ type: "text" as const, text: pending.content }]
+            : pending.content),
+          { type: "text", text: note },
+        ];
+      }
+    });
+    return text || DONE_MESSAGE;
+  }
 
-Available tools:
-1. screenshot - Take a screenshot of the current desktop
-2. click - Click at coordinates (x, y)
-3. type - Type text into the currently focused element
-4. key - Press a keyboard key (e.g., "Return", "Tab", "Escape")
-5. scroll - Scroll in a direction ("up" or "down") for a certain amount
-6. launch_app - Launch an application (e.g., "google-chrome", "code", "gedit")
-7. wait - Wait for a specified duration in milliseconds
+  /**
+   * Stop the running task after the current step. The session is saved as
+   * paused and cleanup() keeps the desktop alive for a later resume.
+   */
+  pause(): void {
+    this.abortController.abort();
+  }
 
-When you need to interact with the computer:
-1. First take a screenshot to see the current state
-2. Identify what needs to be done
-3. Use the appropriate tools to accomplish the task
-4. Take another screenshot to verify the action
-5. Repeat until the task is complete
+  /**
+   * Stop for good: mark the session cancelled and kill the desktop
+   */
+  async cancel(): Promise<void> {
+    this.pause();
+    if (this.session) {
+      this.session.status = "cancelled";
+      this.sessions.save(this.session);
+    }
+    await this.cleanup();
+  }
 
-Be methodical and describe what you're doing at each step.`,
-        messages: [
-          ...this.conversationHistory.map((msg) => ({
-            role: msg.role,
-            content: Array.isArray(msg.content)
-              ? msg.content
-              : [
-                  {
-                    type: "text" as const,
-                    text: msg.content,
-                  },
-                ],
-          })),
-          {
-            role: "user",
-            content: [
-              {
-                type: "image",
-                source: {
-                  type: "base64",
-                  media_type: "image/png",
-                  data: screenshotBase64,
-                },
-              } as unknown as { type: string; source: unknown },
-              {
-                type: "text",
-                text:
-                  userMessage === this.conversationHistory[this.conversationHistory.length - 1].content
-                    ? ""
-                    : userMessage,
-              },
-            ],
-          },
-        ],
+  /**
+   * Run the agent loop on the conversation, persisting the session after
+   * every step
+   */
+  private async runTask(
+    prompt: string,
+    prepare?: (recorder: TrajectoryRecorder | null) => Promise<void>
+  ): Promise<string> {
+    const loop = this.loop!;
+    const session = this.ensureSession(prompt);
+    const recorder = CONFIG.agent.saveScreenshots
+      ? new TrajectoryRecorder(prompt, {
+          model: this.provider?.model,
+          backend: this.desktop?.id,
+        })
+      : null;
+    const costs = new CostTracker({
+      model: this.provider!.model,
+      prices: this.prices ?? undefined,
+    });
+    const removeHooks = [
+      loop.addHooks(this.sessions.hooks(session)),
+      loop.addHooks(costs.hooks()),
+      ...(recorder ? [loop.addHooks(recorder.hooks())] : []),
+    ];
+
+    try {
+      await prepare?.(recorder);
+      session.status = "running";
+      this.sessions.save(session);
+
+      const result = await loop.run(this.conversationHistory, {
+        signal: this.abortController.signal,
+        budget: costs,
+        maxSteps: remainingSteps(session),
       });
+      recorder?.finish({ result, usage: costs.summary() });
 
-      // Process the response
-      let assistantMessage = "";
-      const toolCalls: Array<{ id: string; name: string; input: unknown }> =
-        [];
-
-      for (const block of response.content) {
-        if (block.type === "text") {
-          assistantMessage += block.text;
-          console.log(`\nAssistant: ${block.text}`);
-        } else if (block.type === "tool_use") {
-          const toolBlock = block as ToolUseBlock;
-          toolCalls.push({
-            id: toolBlock.id,
-            name: toolBlock.name,
-            input: toolBlock.input,
-          });
-        }
-      }
+      session.status = result.stopReason === "aborted" ? "paused" : "completed";
+      this.sessions.save(session);
 
-      // Execute any tool calls
-      const toolResults = [];
-      for (const toolCall of toolCalls) {
-        const result = await this.executeToolCall(
-          toolCall.name,
-          toolCall.input as Record<string, unknown>
+      if (result.stopReason === "aborted") {
+        await keepForResume(this.desktop!);
+        console.log(
+          `\n⏸️  Paused session ${session.runId}. Resume with: npm run resume -- ${session.runId}`
         );
-        toolResults.push({
-          type: "tool_result",
-          tool_use_id: toolCall.id,
-          content: result,
-        });
+      } else if (result.stopReason === "max_steps") {
+        console.warn(`⚠️  Stopped after reaching ${session.taskSteps} steps`);
+      } else if (result.stopReason === "budget") {
+        console.warn(`⚠️  Stopped: ${costs.exceededLimit()}`);
       }
 
-      // If there were tool calls, continue the conversation with results
-      if (toolCalls.length > 0) {
-        this.conversationHistory.push({
-          role: "assistant",
-          content: response.content as ContentBlock[],
-        });
-
-        // Add tool results as user message
-        const toolResultsMessage = toolResults.map((result) => ({
-          type: "tool_result",
-          tool_use_id: (result as Record<string, unknown>).tool_use_id,
-          content: (result as Record<string, unknown>).content,
-        }));
-
-        // Continue the conversation with tool results
-        const followUpResponse = await client.messages.create({
-          model: MODEL,
-          max_tokens: 4096,
-          system:
-            "You are a computer use agent. Continue working on the task based on the tool results.",
-          messages: [
-            ...this.conversationHistory.map((msg) => ({
-              role: msg.role,
-              content: Array.isArray(msg.content)
-                ? msg.content
-                : [{ type: "text", text: msg.content }],
-            })),
-            {
-              role: "user",
-              content: toolResultsMessage as unknown as Array<{ type: string }>,
-            },
-          ],
-        });
-
-        for (const block of followUpResponse.content) {
-          if (block.type === "text") {
-            console.log(`\nAssistant: ${block.text}`);
-            assistantMessage += `\n${block.text}`;
-          }
-        }
-      }
-
-      // Update conversation history
-      if (!assistantMessage) {
-        assistantMessage =
-          "Task completed. Ready for the next instruction.";
-      }
-
-      this.conversationHistory.push({
-        role: "assistant",
-        content: assistantMessage,
-      });
-
-      return assistantMessage;
+      return result.text;
     } catch (error) {
+      recorder?.finish({ error, usage: costs.summary() });
       const errorMessage =
         error instanceof Error ? error.message : String(error);
+      session.status = "failed";
+      session.error = errorMessage;
+      this.sessions.save(session);
       console.error(`Error during chat: ${errorMessage}`);
       throw error;
+    } finally {
+      removeHooks.forEach((remove) => remove());
+      const usage = costs.summary();
+      this.runUsage.push(usage);
+      console.log(`💰 Usage: ${formatUsage(usage)}`);
+      if (this.abortController.signal.aborted) {
+        this.abortController = new AbortController();
+      }
+      if (recorder) {
+        console.log(`📁 Trajectory saved to ${recorder.dir}`);
+      }
+    }
+  }
+
+  private ensureSession(task: string): AgentSession {
+    if (!this.session) {
+      this.session = this.sessions.create(
+        task,
+        {
+          kind: this.desktop!.kind,
+          id: this.desktop!.id,
+          owned: this.desktop!.owned !== false,
+        },
+        {
+          provider: this.provider!.kind,
+          model: this.provider!.model,
+          maxSteps: CONFIG.task.maxSteps,
+        }
+      );
+      this.session.history = this.conversationHistory;
+      console.log(`📝 Session ${this.session.runId}`);
     }
+    return this.session;
   }
 
+  /**
+   * Kill the desktop, unless the session is paused and may be resumed
+   */
   async cleanup(): Promise<void> {
+    if (this.paused) {
+      console.log(`✓ Desktop ${this.desktop?.id} kept alive for resume`);
+      return;
+    }
+
     if (this.desktop) {
       try {
-        await this.desktop.kill();
-        console.log("✓ Desktop sandbox terminated");
+        await terminateDesktop(this.desktop);
       } catch (error) {
-        console.error("Failed to cleanup desktop sandbox:", error);
+        console.error("Failed to cleanup desktop:", error);
       }
     }
   }
@@ -328,6 +502,8 @@ Be methodical and describe what you're doing at each step.`,
 // Main execution
 async function main() {
   const agent = new ComputerUseAgent();
+  // Ctrl+C pauses after the current step; a second Ctrl+C exits at once
+  onInterrupt(() => agent.pause());
 
   try {
     // Initialize the agent
@@ -341,6 +517,9 @@ async function main() {
     await agent.chat(
       "Please launch Google Chrome and search for 'Weather in San Francisco'"
     );
+    if (agent.paused) {
+      return;
+    }
 
     // Add a pause between tasks
     await new Promise((resolve) => setTimeout(resolve, 5000));
@@ -349,6 +528,9 @@ async function main() {
     await agent.chat(
       "Now please launch VS Code and create a new file called 'example.txt' with the content 'Hello, Computer Use Agent!'"
     );
+    if (agent.paused) {
+      return;
+    }
 
     console.log("\n✓ All tasks completed!");
   } catch (error) {
@@ -359,4 +541,9 @@ async function main() {
   }
 }
 
-main();
+export default ComputerUseAgent;
+
+// Only run the demo when executed directly, not when imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -1,4 +1,5 @@
 import ComputerUseAgent from "./index.js";
+import { formatUsage } from "./cost-tracker.js";
 import { OpenCodeController } from "./opencode-client.js";
 import dotenv from "dotenv";
 
@@ -154,6 +155,12 @@ class IntegratedAgent {
     );
 
     await this.openCodeController.deleteSession(analysisSession.id);
+
+    // Model usage of the computer agent's run (OpenCode reports none)
+    const usage = this.computerAgent.lastRunUsage;
+    if (usage) {
+      console.log(`💰 Workflow usage: ${formatUsage(usage)}`);
+    }
   }
 
   /**
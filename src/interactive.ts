@@ -1,59 +1,232 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { Sandbox } from "@e2b/desktop";
+import type Anthropic from "@anthropic-ai/sdk";
+import { spawn } from "child_process";
 import fs from "fs";
 import path from "path";
 import dotenv from "dotenv";
 import readline from "readline";
+import YAML from "yaml";
+import {
+  createDesktopBackend,
+  terminateDesktop,
+  type DesktopBackend,
+} from "./desktop-backend.js";
+import { AgentLoop, type ToolResultContent } from "./agent-loop.js";
+import {
+  ApprovalPolicy,
+  type ApprovalDecision,
+  type ProposedAction,
+} from "./approval-policy.js";
+import { DesktopController } from "./desktop-controller.js";
+import {
+  HistoryManager,
+  removeLastInstruction,
+  renderTranscript,
+} from "./history-manager.js";
+import {
+  assertComputerUseCapable,
+  createModelProvider,
+  type ModelProvider,
+} from "./model-provider.js";
+import { toImageBlock } from "./screenshot-service.js";
+import { Spinner } from "./spinner.js";
+import { TrajectoryRecorder } from "./trajectory.js";
+import CONFIG from "./config.js";
+import { loadSafetyPolicy, type SafetyPolicy } from "./safety-policy.js";
+import {
+  CostTracker,
+  DEFAULT_PRICES,
+  combineUsage,
+  formatUsage,
+  loadPriceTable,
+  type PriceTable,
+  type UsageSummary,
+} from "./cost-tracker.js";
+import {
+  CommandRegistry,
+  completePath,
+  completeToolCommand,
+  isToolCommand,
+  parseToolCommand,
+  toolUsage,
+} from "./repl-commands.js";
+import {
+  SessionStore,
+  hasPendingWork,
+  keepForResume,
+  reconnectSession,
+  remainingSteps,
+  type AgentSession,
+} from "./session-store.js";
+import {
+  createComputerToolRegistry,
+  type ToolRegistry,
+} from "./tool-registry.js";
 
 dotenv.config();
 
-// Initialize OpenCode Zen client for MiniMax M2.1 model
-const client = new Anthropic({
-  apiKey: process.env.OPENCODE_ZEN_API_KEY,
-  baseURL: "https://opencode.ai/zen/v1",
-});
+const SYSTEM_PROMPT = `You are a helpful computer use agent. You can interact with the desktop using provided tools.
 
-const MODEL = process.env.OPENCODE_ZEN_MODEL || "minimax-m2.1-free";
+Available tools: screenshot, click, mouse_move, left_mouse_down, left_mouse_up, drag, type, key, scroll, cursor_position, launch_app, wait
+
+Use tools to help accomplish the user's task. Be methodical and efficient.`;
 
 class InteractiveComputerAgent {
-  private desktop: InstanceType<typeof Sandbox> | null = null;
-  private conversationHistory: Array<{
-    role: "user" | "assistant";
-    content: unknown;
-  }> = [];
+  private desktop: DesktopBackend | null;
+  private controller: DesktopController | null = null;
+  private tools: ToolRegistry | null = null;
+  private conversationHistory: Anthropic.MessageParam[] = [];
+  private provider: ModelProvider | null;
+  private loop: AgentLoop | null = null;
+  private approval: ApprovalPolicy | null = null;
+  private policy: SafetyPolicy | null = null;
   private rl: readline.Interface;
-
-  constructor() {
+  private commands: CommandRegistry;
+  private closed = false;
+  private sessions = new SessionStore();
+  private session: AgentSession | null = null;
+  private prices: PriceTable | null = null;
+  private runUsage: UsageSummary[] = [];
+  // Set while a task runs; Ctrl+C aborts it to pause after the current step
+  private abortController: AbortController | null = null;
+  private spinner = new Spinner();
+  // A streamed text block is being printed and the cursor is mid-line
+  private streamingText = false;
+
+  constructor(
+    backend?: DesktopBackend,
+    provider?: ModelProvider,
+    session?: AgentSession
+  ) {
+    this.desktop = backend ?? null;
+    this.provider = provider ?? null;
+    if (session) {
+      this.session = session;
+      this.conversationHistory = session.history;
+    }
+    this.commands = this.createCommands();
     this.rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
+      completer: (line: string) =>
+        isToolCommand(line)
+          ? completeToolCommand(line, this.tools?.getDefinitions() ?? [])
+          : this.commands.complete(line),
     });
+    this.rl.on("SIGINT", () => this.interrupt());
+  }
+
+  /**
+   * Load a saved session and reconnect to its desktop. Without a provider
+   * it runs on the model the session was started with.
+   */
+  static async resume(
+    runId: string,
+    provider?: ModelProvider
+  ): Promise<InteractiveComputerAgent> {
+    const { session, backend, model } = await reconnectSession(runId);
+    return new InteractiveComputerAgent(
+      backend,
+      provider ?? (await createModelProvider(model)),
+      session
+    );
   }
 
   async initialize(): Promise<void> {
     console.log("🚀 Initializing Interactive Computer Use Agent...");
-    console.log("Creating E2B Desktop Sandbox...");
 
-    try {
-      this.desktop = await Sandbox.create();
-      console.log(
-        `✓ Desktop sandbox created: ${this.desktop.sandboxId}\n`
-      );
-    } catch (error) {
-      console.error("Failed to create desktop sandbox:", error);
-      throw error;
+    this.provider ??= await createModelProvider();
+    assertComputerUseCapable(this.provider);
+    console.log(`✓ Model: ${this.provider.model} (${this.provider.kind})`);
+    this.policy = loadSafetyPolicy();
+    if (this.policy.source) {
+      console.log(`✓ Safety policy: ${this.policy.source}`);
     }
+    this.prices = loadPriceTable();
+
+    if (this.desktop) {
+      console.log(`✓ Using desktop: ${this.desktop.id}\n`);
+    } else {
+      console.log("Creating desktop...");
+
+      try {
+        this.desktop = await createDesktopBackend();
+        console.log(`✓ Desktop created: ${this.desktop.id}\n`);
+      } catch (error) {
+        console.error("Failed to create desktop:", error);
+        throw error;
+      }
+    }
+
+    this.controller = new DesktopController(this.desktop);
+    this.tools = createComputerToolRegistry(this.controller, this.policy);
+    this.approval = new ApprovalPolicy({
+      prompt: (action, reason) => this.askApproval(action, reason),
+    });
+    console.log(`✓ Approval mode: ${CONFIG.approval.mode}`);
+    this.loop = this.createLoop(this.provider, this.tools, this.approval);
+  }
+
+  /**
+   * Agent loop for the current model, printing its progress
+   */
+  private createLoop(
+    provider: ModelProvider,
+    tools: ToolRegistry,
+    approval: ApprovalPolicy
+  ): AgentLoop {
+    return new AgentLoop({
+      provider,
+      system: SYSTEM_PROMPT,
+      tools: tools.getDefinitions(),
+      maxTokens: 2048,
+      executeTool: (name, input) => this.executeToolCall(name, input),
+      history: new HistoryManager({ provider }),
+      approval,
+      stream: true,
+      hooks: [
+        approval.hooks(),
+        {
+          onTextDelta: (text) => {
+            if (!this.streamingText) {
+              this.spinner.suspend();
+              process.stdout.write("\n🤖 Agent: ");
+              this.streamingText = true;
+            }
+            process.stdout.write(text);
+          },
+          onText: (text) => {
+            if (this.streamingText) {
+              process.stdout.write("\n");
+              this.streamingText = false;
+              this.spinner.resume();
+            } else {
+              this.print(`\n🤖 Agent: ${text}`);
+            }
+          },
+          onToolCall: (call) =>
+            this.print(`\n  🔧 ${call.name} ${JSON.stringify(call.input)}`),
+          onToolResult: (_call, result) => {
+            const summary =
+              typeof result.content === "string"
+                ? result.content
+                : `[${result.content?.length ?? 0} content block(s)]`;
+            this.print(
+              `    ${result.is_error ? "✗" : "✓"} Result: ${summary.substring(0, 100)}`
+            );
+          },
+        },
+      ],
+    });
   }
 
   async takeScreenshot(): Promise<string> {
-    if (!this.desktop) {
+    if (!this.controller) {
       throw new Error("Desktop sandbox not initialized");
     }
 
     try {
-      const screenshotPath = await this.desktop.screenshot();
-      const imageData = fs.readFileSync(screenshotPath);
-      return imageData.toString("base64");
+      const screenshot = await this.controller.takeScreenshot();
+      return screenshot.base64;
     } catch (error) {
       console.error("Failed to take screenshot:", error);
       throw error;
@@ -63,200 +236,628 @@ class InteractiveComputerAgent {
   async executeToolCall(
     toolName: string,
     toolInput: Record<string, unknown>
-  ): Promise<string> {
-    if (!this.desktop) {
+  ): Promise<ToolResultContent> {
+    if (!this.tools) {
       throw new Error("Desktop sandbox not initialized");
     }
 
-    console.log(`\n  🔧 Executing: ${toolName}`);
-
+    this.spinner.start(`Running ${toolName}`);
     try {
-      switch (toolName) {
-        case "screenshot":
-          const base64Image = await this.takeScreenshot();
-          return JSON.stringify({ success: true, image_base64: base64Image });
-
-        case "click":
-          const { x, y } = toolInput as { x: number; y: number };
-          await this.desktop.click({
-            x: Math.round(x),
-            y: Math.round(y),
-          });
-          return JSON.stringify({ success: true });
-
-        case "type":
-          const { text } = toolInput as { text: string };
-          await this.desktop.write(text);
-          return JSON.stringify({ success: true });
-
-        case "key":
-          const { key } = toolInput as { key: string };
-          await this.desktop.press(key);
-          return JSON.stringify({ success: true });
-
-        case "scroll":
-          const { direction, amount = 3 } = toolInput as {
-            direction: string;
-            amount?: number;
-          };
-          const scrollKey =
-            direction === "down" ? "Page_Down" : "Page_Up";
-          for (let i = 0; i < (amount || 3); i++) {
-            await this.desktop.press(scrollKey);
-          }
-          return JSON.stringify({ success: true });
+      return await this.tools.execute(toolName, toolInput);
+    } finally {
+      this.spinner.stop();
+    }
+  }
 
-        case "launch_app":
-          const { app } = toolInput as { app: string };
-          await this.desktop.launch(app);
-          await this.sleep(3000);
-          return JSON.stringify({ success: true });
+  /**
+   * Print a line without garbling the spinner
+   */
+  private print(message: string): void {
+    this.spinner.suspend();
+    console.log(message);
+    this.spinner.resume();
+  }
 
-        case "wait":
-          const { duration } = toolInput as { duration: number };
-          await this.sleep(duration);
-          return JSON.stringify({ success: true });
+  /**
+   * Ask the operator whether a risky action may run
+   */
+  private async askApproval(
+    action: ProposedAction,
+    reason: string
+  ): Promise<ApprovalDecision> {
+    console.log(`\n  ⚠️  Approval needed: ${action.name} ${reason}`);
+    console.log(`     Input: ${JSON.stringify(action.input)}`);
+
+    while (true) {
+      const answer = (
+        await this.question("     [a]pprove, [e]dit or [r]eject? ")
+      )
+        .trim()
+        .toLowerCase();
+
+      if (answer === "a" || answer === "approve" || answer === "y") {
+        return { action: "approve" };
+      }
 
-        default:
-          return JSON.stringify({ error: `Unknown tool: ${toolName}` });
+      if (answer === "e" || answer === "edit") {
+        const edited = await this.question(
+          "     New input (JSON): ",
+          JSON.stringify(action.input)
+        );
+        try {
+          return { action: "edit", input: JSON.parse(edited) };
+        } catch {
+          console.log("     ✗ Not valid JSON, try again");
+          continue;
+        }
+      }
+
+      if (answer === "r" || answer === "reject" || answer === "n") {
+        const reason = await this.question("     Reason (optional): ");
+        return { action: "reject", reason: reason.trim() || undefined };
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      return JSON.stringify({ error: errorMessage });
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Ask a question on the readline interface, optionally pre-filling the
+   * answer so it can be edited in place
+   */
+  private question(query: string, prefill?: string): Promise<string> {
+    return new Promise((resolve) => {
+      this.rl.question(query, resolve);
+      if (prefill) {
+        this.rl.write(prefill);
+      }
+    });
+  }
+
+  /**
+   * Run a tool typed by the operator, e.g. "!click 400 300", through the
+   * same registry and safety policy as the model's calls. The result is
+   * added to the conversation so the model knows what the human did.
+   */
+  async runManualTool(line: string): Promise<void> {
+    if (!this.tools) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+    const { name, input } = parseToolCommand(line, this.tools.getDefinitions());
+
+    console.log(`\n  🔧 ${name} ${JSON.stringify(input)} (manual)`);
+    const result = await this.executeToolCall(name, input);
+    const blocks = typeof result === "string" || !result ? [] : result;
+    const text =
+      typeof result === "string"
+        ? result
+        : blocks
+            .flatMap((block) => (block.type === "text" ? [block.text] : []))
+            .join("\n");
+    const summary = text || `[${blocks.length} content block(s)]`;
+    console.log(`    ✓ Result: ${summary.substring(0, 100)}`);
+
+    const content: Exclude<Anthropic.MessageParam["content"], string> = [
+      {
+        type: "text",
+        text: `The operator ran ${name} ${JSON.stringify(input)} manually.${text ? ` Result: ${text}` : ""}`,
+      },
+      ...blocks.filter((block) => block.type === "image"),
+    ];
+    const last = this.conversationHistory.at(-1);
+    if (last?.role === "user") {
+      last.content =
+        typeof last.content === "string"
+          ? [{ type: "text", text: last.content }, ...content]
+          : [...last.content, ...content];
+    } else {
+      this.conversationHistory.push({ role: "user", content });
+    }
+    if (this.session) {
+      this.sessions.save(this.session);
+    }
   }
 
   async chat(userMessage: string): Promise<string> {
     console.log(`\n👤 You: ${userMessage}`);
 
-    this.conversationHistory.push({
-      role: "user",
-      content: userMessage,
+    if (!this.controller || !this.loop) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+    const controller = this.controller;
+
+    return this.runTask(userMessage, async (recorder) => {
+      // A new instruction gets the full step limit
+      this.session!.taskSteps = 0;
+      const screenshot = await controller.takeScreenshot();
+      recorder?.recordScreenshot(screenshot, 0, "initial");
+      const content: Exclude<Anthropic.MessageParam["content"], string> = [
+        toImageBlock(screenshot),
+        { type: "text", text: userMessage },
+      ];
+
+      // After a pause the last turn may be unanswered tool results; the new
+      // instruction joins that turn so user and assistant keep alternating
+      const last = this.conversationHistory.at(-1);
+      if (last?.role === "user" && Array.isArray(last.content)) {
+        last.content.push(...content);
+      } else {
+        this.conversationHistory.push({ role: "user", content });
+      }
     });
+  }
 
-    try {
-      const screenshotBase64 = await this.takeScreenshot();
-
-      const response = await client.messages.create({
-        model: MODEL,
-        max_tokens: 2048,
-        system: `You are a helpful computer use agent. You can interact with the desktop using provided tools.
-
-Available tools: screenshot, click, type, key, scroll, launch_app, wait
-
-Use tools to help accomplish the user's task. Be methodical and efficient.`,
-        messages: [
-          ...this.conversationHistory.map((msg) => ({
-            role: msg.role,
-            content: Array.isArray(msg.content)
-              ? msg.content
-              : [{ type: "text", text: msg.content }],
-          })),
-          {
-            role: "user",
-            content: [
-              {
-                type: "image",
-                source: {
-                  type: "base64",
-                  media_type: "image/png",
-                  data: screenshotBase64,
-                },
-              } as unknown,
-              {
-                type: "text",
-                text: userMessage,
-              },
-            ],
-          },
-        ],
-      });
+  /**
+   * Continue a paused or resumed session where it stopped
+   */
+  async continue(): Promise<string> {
+    if (!this.loop) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+    if (!this.session || !hasPendingWork(this.session)) {
+      console.log("✓ Nothing left to resume");
+      return "";
+    }
 
-      let fullResponse = "";
-      const toolCalls: Array<{ id: string; name: string; input: unknown }> =
-        [];
-
-      for (const block of response.content) {
-        if (block.type === "text") {
-          fullResponse += block.text;
-          console.log(`\n🤖 Agent: ${block.text}`);
-        } else if (block.type === "tool_use") {
-          const toolBlock = block as {
-            type: string;
-            id: string;
-            name: string;
-            input: unknown;
-          };
-          toolCalls.push({
-            id: toolBlock.id,
-            name: toolBlock.name,
-            input: toolBlock.input,
-          });
-        }
-      }
+    console.log(
+      `\n▶️  Resuming session ${this.session.runId} after ${this.session.steps} steps`
+    );
+    return this.runTask(this.session.task);
+  }
 
-      // Execute tool calls
-      if (toolCalls.length > 0) {
-        for (const toolCall of toolCalls) {
-          const result = await this.executeToolCall(
-            toolCall.name,
-            toolCall.input as Record<string, unknown>
-          );
-          console.log(`    ✓ Result: ${result.substring(0, 100)}...`);
-        }
-      }
+  /**
+   * Run the agent loop on the conversation, saving the session after every
+   * step. Ctrl+C while this runs pauses after the current step.
+   */
+  private async runTask(
+    prompt: string,
+    prepare?: (recorder: TrajectoryRecorder | null) => Promise<void>
+  ): Promise<string> {
+    const loop = this.loop!;
+    const session = this.ensureSession(prompt);
+    const recorder = CONFIG.agent.saveScreenshots
+      ? new TrajectoryRecorder(prompt, {
+          model: this.provider?.model,
+          backend: this.desktop?.id,
+        })
+      : null;
+    const costs = new CostTracker({
+      model: this.provider!.model,
+      prices: this.prices ?? undefined,
+    });
+    const removeHooks = [
+      loop.addHooks(this.sessions.hooks(session)),
+      loop.addHooks(costs.hooks()),
+      ...(recorder ? [loop.addHooks(recorder.hooks())] : []),
+    ];
+    this.abortController = new AbortController();
 
-      this.conversationHistory.push({
-        role: "assistant",
-        content: fullResponse,
+    try {
+      await prepare?.(recorder);
+      session.status = "running";
+      this.sessions.save(session);
+
+      const result = await loop.run(this.conversationHistory, {
+        signal: this.abortController.signal,
+        budget: costs,
+        maxSteps: remainingSteps(session),
       });
+      recorder?.finish({ result, usage: costs.summary() });
+
+      session.status = result.stopReason === "aborted" ? "paused" : "completed";
+      this.sessions.save(session);
+
+      if (result.stopReason === "aborted") {
+        await keepForResume(this.desktop!);
+        console.log(
+          "\n⏸️  Paused. Type /resume to continue or give a new instruction."
+        );
+      } else if (result.stopReason === "max_steps") {
+        console.warn(`\n⚠️  Stopped after reaching ${session.taskSteps} steps`);
+      } else if (result.stopReason === "budget") {
+        console.warn(`\n⚠️  Stopped: ${costs.exceededLimit()}`);
+      }
 
-      return fullResponse;
+      return result.text;
     } catch (error) {
+      recorder?.finish({ error, usage: costs.summary() });
       const errorMessage =
         error instanceof Error ? error.message : String(error);
+      session.status = "failed";
+      session.error = errorMessage;
+      this.sessions.save(session);
       console.error(`Error: ${errorMessage}`);
       throw error;
+    } finally {
+      this.abortController = null;
+      if (this.streamingText) {
+        process.stdout.write("\n");
+        this.streamingText = false;
+      }
+      this.spinner.stop();
+      this.spinner.resume();
+      removeHooks.forEach((remove) => remove());
+      const usage = costs.summary();
+      this.runUsage.push(usage);
+      console.log(`💰 Usage: ${formatUsage(usage)}`);
+      if (recorder) {
+        console.log(`📁 Trajectory saved to ${recorder.dir}`);
+      }
+    }
+  }
+
+  private ensureSession(task: string): AgentSession {
+    if (!this.session) {
+      this.session = this.sessions.create(
+        task,
+        {
+          kind: this.desktop!.kind,
+          id: this.desktop!.id,
+          owned: this.desktop!.owned !== false,
+        },
+        {
+          provider: this.provider!.kind,
+          model: this.provider!.model,
+          maxSteps: CONFIG.task.maxSteps,
+        }
+      );
+      this.session.history = this.conversationHistory;
     }
+    return this.session;
+  }
+
+  /**
+   * Ctrl+C: pause a running task after its current step, exit at once on a
+   * second Ctrl+C, and at the prompt exit, leaving a session with pending
+   * work paused and its desktop running
+   */
+  private interrupt(): void {
+    if (this.abortController?.signal.aborted) {
+      console.log("\n⏹️  Exiting; resume continues from the last completed step");
+      process.exit(130);
+    }
+    if (this.abortController) {
+      console.log(
+        "\n⏸️  Pausing after the current step (Ctrl+C again to exit now)..."
+      );
+      this.abortController.abort();
+      return;
+    }
+    void this.suspend();
+  }
+
+  /**
+   * Save the session as paused and exit, keeping the desktop for a later
+   * `--resume`. Without pending work there is nothing to resume, so the
+   * session keeps its status and the desktop is killed as on `exit`.
+   */
+  private async suspend(): Promise<void> {
+    this.rl.close();
+    if (!this.session || !hasPendingWork(this.session)) {
+      await this.cleanup();
+      process.exit(0);
+    }
+
+    this.session.status = "paused";
+    this.sessions.save(this.session);
+    await keepForResume(this.desktop!);
+    console.log(`\n⏸️  Session ${this.session.runId} saved`);
+    console.log(`✓ Desktop ${this.desktop?.id} kept alive for resume`);
+    console.log(
+      `   Resume with: npm run interactive -- --resume ${this.session.runId}`
+    );
+    process.exit(0);
   }
 
   async startInteractiveSession(): Promise<void> {
     console.log("\n" + "=".repeat(60));
     console.log("💻 Interactive Computer Use Agent");
     console.log("=".repeat(60));
-    console.log("Type your commands. Type 'exit' to quit.\n");
+    console.log("Type your commands, /help for REPL commands (Tab completes them)");
+    console.log("Run a tool yourself with !<tool> <args>, e.g. !click 400 300,");
+    console.log("or type 'exit' to quit.");
+    console.log("Ctrl+C pauses a running task; at the prompt it saves the session and exits.\n");
+
+    if (this.session && hasPendingWork(this.session)) {
+      console.log(
+        `Session ${this.session.runId} has work pending. Type /resume to continue it.\n`
+      );
+    }
 
     const prompt = (): void => {
       this.rl.question("You: ", async (input) => {
-        if (input.toLowerCase() === "exit") {
-          await this.cleanup();
-          this.rl.close();
-          return;
-        }
+        const line = input.trim();
 
         try {
-          await this.chat(input);
+          if (line.toLowerCase() === "exit") {
+            await this.exit();
+          } else if (CommandRegistry.isCommand(line)) {
+            await this.commands.execute(line);
+          } else if (isToolCommand(line)) {
+            await this.runManualTool(line);
+          } else if (line) {
+            await this.chat(line);
+          }
         } catch (error) {
-          console.error("Error:", error);
+          if (CommandRegistry.isCommand(line) || isToolCommand(line)) {
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            console.error(`✗ ${errorMessage}`);
+          } else {
+            console.error("Error:", error);
+          }
         }
 
-        prompt();
+        if (!this.closed) {
+          prompt();
+        }
       });
     };
 
     prompt();
   }
 
+  /**
+   * REPL commands for steering the session without restarting
+   */
+  private createCommands(): CommandRegistry {
+    return new CommandRegistry()
+      .register({
+        name: "screenshot",
+        description: "Save the current screen and open it",
+        run: () => this.saveScreenshot(),
+      })
+      .register({
+        name: "history",
+        args: "[n]",
+        description: "Show the last n messages of the conversation (default 10)",
+        run: (args) => this.showHistory(Number(args) || 10),
+      })
+      .register({
+        name: "undo-last",
+        description:
+          "Forget the last instruction and what the model did for it (the desktop is not changed back)",
+        run: () => this.undoLast(),
+      })
+      .register({
+        name: "reset",
+        description: "Clear the conversation and start a new session on this desktop",
+        run: () => this.reset(),
+      })
+      .register({
+        name: "model",
+        args: "[id]",
+        description: "Show the model, or switch to another one",
+        run: (args) => this.switchModel(args),
+        complete: () => Object.keys(this.prices ?? DEFAULT_PRICES),
+      })
+      .register({
+        name: "tools",
+        description: "List the tools the model can use",
+        run: () => this.listTools(),
+      })
+      .register({
+        name: "save",
+        args: "<file>",
+        description: "Save the conversation to a JSON file",
+        run: (args) => this.saveConversation(args),
+        complete: completePath,
+      })
+      .register({
+        name: "load",
+        args: "<file>",
+        description: "Replace the conversation with one saved by /save (or a session file)",
+        run: (args) => this.loadConversation(args),
+        complete: completePath,
+      })
+      .register({
+        name: "cost",
+        description: "Show token usage and estimated cost so far",
+        run: () => this.showCost(),
+      })
+      .register({
+        name: "policy",
+        description: "Show the safety policy and approval mode",
+        run: () => this.showPolicy(),
+      })
+      .register({
+        name: "resume",
+        description: "Continue a paused task",
+        run: async () => {
+          await this.continue();
+        },
+      })
+      .register({
+        name: "exit",
+        description: "Quit and shut down the desktop",
+        run: () => this.exit(),
+      });
+  }
+
+  private async saveScreenshot(): Promise<void> {
+    if (!this.controller) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+
+    const screenshot = await this.controller.takeScreenshot();
+    const dir = path.resolve(CONFIG.agent.screenshotDir);
+    fs.mkdirSync(dir, { recursive: true });
+    const extension = screenshot.mediaType.split("/")[1] ?? "png";
+    const file = path.join(dir, `screen-${Date.now()}.${extension}`);
+    fs.writeFileSync(file, screenshot.buffer);
+    console.log(`📸 Saved ${file}`);
+
+    const opener =
+      process.platform === "darwin"
+        ? "open"
+        : process.platform === "win32"
+          ? "explorer"
+          : "xdg-open";
+    const viewer = spawn(opener, [file], { stdio: "ignore", detached: true });
+    viewer.on("error", () =>
+      console.log(`   (could not run ${opener}; open the file manually)`)
+    );
+    viewer.unref();
+  }
+
+  private showHistory(count: number): void {
+    const history = this.conversationHistory;
+    if (history.length === 0) {
+      console.log("The conversation is empty");
+      return;
+    }
+
+    const start = Math.max(0, history.length - count);
+    history.slice(start).forEach((message, index) => {
+      const text = renderTranscript([message]).replace(/\s+/g, " ");
+      const preview = text.length > 200 ? `${text.slice(0, 200)}...` : text;
+      console.log(`  #${start + index + 1} ${preview}`);
+    });
+    if (start > 0) {
+      console.log(`  (${start} earlier messages; /history ${history.length} shows all)`);
+    }
+  }
+
+  /**
+   * Drop everything from the last instruction on: the prompt, the model's
+   * replies and the tool results
+   */
+  private undoLast(): void {
+    const removed = removeLastInstruction(this.conversationHistory);
+    if (removed === 0) {
+      console.log("Nothing to undo");
+      return;
+    }
+
+    if (this.session) {
+      this.sessions.save(this.session);
+    }
+    console.log(
+      `↩️  Removed ${removed} message(s); the desktop itself was not changed back`
+    );
+  }
+
+  private reset(): void {
+    if (this.session) {
+      this.session.status = "completed";
+      this.sessions.save(this.session);
+      this.session = null;
+    }
+    this.conversationHistory = [];
+    console.log("🧹 Conversation cleared; the next instruction starts a new session");
+  }
+
+  private async switchModel(id: string): Promise<void> {
+    if (!id) {
+      console.log(`Model: ${this.provider?.model} (${this.provider?.kind})`);
+      return;
+    }
+    if (!this.tools || !this.approval) {
+      throw new Error("Desktop sandbox not initialized");
+    }
+
+    const provider = await createModelProvider({ ...CONFIG.model, name: id });
+    assertComputerUseCapable(provider);
+    this.provider = provider;
+    this.loop = this.createLoop(provider, this.tools, this.approval);
+    if (this.session) {
+      this.session.config.model = provider.model;
+      this.sessions.save(this.session);
+    }
+    console.log(`✓ Model: ${provider.model} (${provider.kind})`);
+  }
+
+  private listTools(): void {
+    for (const tool of this.tools?.getDefinitions() ?? []) {
+      console.log(`  ${tool.name.padEnd(16)} ${tool.description.split("\n")[0]}`);
+      console.log(`  ${"".padEnd(16)} ${toolUsage(tool)}`);
+    }
+    console.log("\nRun one yourself with !<tool> <args>, or !<tool> {json}.");
+  }
+
+  private saveConversation(file: string): void {
+    if (!file) {
+      throw new Error("Usage: /save <file>");
+    }
+    const content = {
+      model: this.provider?.model,
+      savedAt: new Date().toISOString(),
+      history: this.conversationHistory,
+    };
+    fs.writeFileSync(file, JSON.stringify(content, null, 2));
+    console.log(`💾 Saved ${this.conversationHistory.length} messages to ${file}`);
+  }
+
+  private loadConversation(file: string): void {
+    if (!file) {
+      throw new Error("Usage: /load <file>");
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+    const history: unknown = Array.isArray(parsed) ? parsed : parsed?.history;
+    if (
+      !Array.isArray(history) ||
+      !history.every(
+        (message) =>
+          (message?.role === "user" || message?.role === "assistant") &&
+          message.content !== undefined
+      )
+    ) {
+      throw new Error(`${file} does not contain a conversation history`);
+    }
+
+    // Replace in place, so the current session keeps saving the same array
+    this.conversationHistory.splice(
+      0,
+      this.conversationHistory.length,
+      ...(history as Anthropic.MessageParam[])
+    );
+    if (this.session) {
+      this.sessions.save(this.session);
+    }
+    console.log(`📂 Loaded ${history.length} messages from ${file}`);
+  }
+
+  private showCost(): void {
+    const usage = combineUsage(this.provider?.model ?? "", this.runUsage);
+    console.log(`💰 ${this.runUsage.length} run(s): ${formatUsage(usage)}`);
+
+    const { maxTokens, maxCostUsd, maxMinutes } = CONFIG.budget.limits;
+    const limits = [
+      maxTokens && `${maxTokens} tokens`,
+      maxCostUsd && `$${maxCostUsd}`,
+      maxMinutes && `${maxMinutes} min`,
+    ].filter(Boolean);
+    console.log(`   Limits per run: ${limits.join(", ") || "none"}`);
+  }
+
+  private showPolicy(): void {
+    console.log(`Approval mode: ${CONFIG.approval.mode}`);
+    if (!this.policy?.source) {
+      console.log("Safety policy: none (set SAFETY_POLICY_FILE)");
+      return;
+    }
+
+    console.log(`Safety policy: ${this.policy.source}`);
+    const rules = YAML.stringify(this.policy.config).trimEnd();
+    console.log(rules.replace(/^/gm, "  "));
+  }
+
+  /**
+   * Mark the session completed, shut down the desktop and stop the REPL
+   */
+  private async exit(): Promise<void> {
+    if (this.session) {
+      this.session.status = "completed";
+      this.sessions.save(this.session);
+    }
+    await this.cleanup();
+    this.closed = true;
+    this.rl.close();
+  }
+
   async cleanup(): Promise<void> {
     if (this.desktop) {
       try {
-        await this.desktop.kill();
-        console.log("✓ Desktop sandbox terminated");
+        await terminateDesktop(this.desktop);
       } catch (error) {
         console.error("Failed to cleanup:", error);
       }
@@ -266,9 +867,18 @@ Use tools to help accomplish the user's task. Be methodical and efficient.`,
 
 // Main
 async function main() {
-  const agent = new InteractiveComputerAgent();
+  // npm run interactive -- --resume <runId>
+  const resumeIndex = process.argv.indexOf("--resume");
+  const runId = resumeIndex >= 0 ? process.argv[resumeIndex + 1] : undefined;
 
   try {
+    if (resumeIndex >= 0 && !runId) {
+      throw new Error("Usage: npm run interactive -- --resume <runId>");
+    }
+    const agent = runId
+      ? await InteractiveComputerAgent.resume(runId)
+      : new InteractiveComputerAgent();
+
     await agent.initialize();
     await agent.startInteractiveSession();
   } catch (error) {
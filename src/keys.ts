@@ -0,0 +1,260 @@
+/**
+ * Key Combo Parsing
+ * Normalises key names and xdotool-style chords ("ctrl+shift+t", "super",
+ * "Return") to canonical X keysyms understood by every desktop backend
+ */
+
+export type Modifier = "ctrl" | "alt" | "shift" | "super";
+
+export interface KeyOptions {
+  key: string;
+  modifiers?: Modifier[];
+}
+
+export interface KeyCombo {
+  modifiers: Modifier[];
+  /** Canonical keysym of the non-modifier key, or null for a bare modifier */
+  key: string | null;
+}
+
+const MODIFIER_ORDER: Modifier[] = ["ctrl", "alt", "shift", "super"];
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  ctrl: "ctrl",
+  control: "ctrl",
+  control_l: "ctrl",
+  control_r: "ctrl",
+  alt: "alt",
+  alt_l: "alt",
+  alt_r: "alt",
+  option: "alt",
+  shift: "shift",
+  shift_l: "shift",
+  shift_r: "shift",
+  super: "super",
+  super_l: "super",
+  super_r: "super",
+  win: "super",
+  windows: "super",
+  meta: "super",
+  cmd: "super",
+  command: "super",
+};
+
+/** Named keys, spelled the way X keysyms spell them */
+const NAMED_KEYS = [
+  "Return",
+  "KP_Enter",
+  "Tab",
+  "Escape",
+  "BackSpace",
+  "Delete",
+  "Insert",
+  "Home",
+  "End",
+  "Page_Up",
+  "Page_Down",
+  "Up",
+  "Down",
+  "Left",
+  "Right",
+  "space",
+  "Menu",
+  "Print",
+  "Pause",
+  "Caps_Lock",
+  "Num_Lock",
+  "Scroll_Lock",
+  "minus",
+  "plus",
+  "equal",
+  "comma",
+  "period",
+  "slash",
+  "backslash",
+  "semicolon",
+  "apostrophe",
+  "grave",
+  "bracketleft",
+  "bracketright",
+  "XF86AudioRaiseVolume",
+  "XF86AudioLowerVolume",
+  "XF86AudioMute",
+  ...Array.from({ length: 24 }, (_, i) => `F${i + 1}`),
+];
+
+const KEY_ALIASES: Record<string, string> = {
+  enter: "Return",
+  ret: "Return",
+  esc: "Escape",
+  backspace: "BackSpace",
+  bksp: "BackSpace",
+  del: "Delete",
+  ins: "Insert",
+  pageup: "Page_Up",
+  pgup: "Page_Up",
+  pagedown: "Page_Down",
+  pgdn: "Page_Down",
+  arrowup: "Up",
+  arrowdown: "Down",
+  arrowleft: "Left",
+  arrowright: "Right",
+  spacebar: "space",
+  capslock: "Caps_Lock",
+  printscreen: "Print",
+  "-": "minus",
+  "+": "plus",
+  "=": "equal",
+  ",": "comma",
+  ".": "period",
+  "/": "slash",
+  "\\": "backslash",
+  ";": "semicolon",
+  "'": "apostrophe",
+  "`": "grave",
+  "[": "bracketleft",
+  "]": "bracketright",
+};
+
+const KEYSYMS = new Map<string, string>([
+  ...NAMED_KEYS.map((name): [string, string] => [name.toLowerCase(), name]),
+  ...Object.entries(KEY_ALIASES),
+]);
+
+/**
+ * Resolve a single key name to its canonical keysym.
+ * Single characters (letters, digits, symbols) are passed through as-is so
+ * "t" and "T" keep their meaning.
+ */
+export function normalizeKey(name: string): string {
+  const keysym = KEYSYMS.get(name.toLowerCase());
+  if (keysym) {
+    return keysym;
+  }
+  if ([...name].length === 1) {
+    return name;
+  }
+
+  const suggestion = suggestKey(name);
+  throw new Error(
+    `Unknown key "${name}".` +
+      (suggestion ? ` Did you mean "${suggestion}"?` : "") +
+      ` Use X keysym names such as Return, Tab, Escape, BackSpace, Page_Down or F5,` +
+      ` optionally prefixed by modifiers, e.g. "ctrl+shift+t"`
+  );
+}
+
+/**
+ * Parse a key chord from either the KeyOptions form or an xdotool-style
+ * string such as "ctrl+shift+t", "alt+F4" or "super"
+ */
+export function parseKeyCombo(input: KeyOptions | string): KeyCombo {
+  const parts =
+    typeof input === "string"
+      ? splitCombo(input)
+      : [...(input.modifiers ?? []), ...splitCombo(input.key)];
+
+  if (parts.length === 0) {
+    throw new Error("Key combo must not be empty");
+  }
+
+  const modifiers = new Set<Modifier>();
+
+  parts.forEach((part, index) => {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (modifier) {
+      modifiers.add(modifier);
+    } else if (index !== parts.length - 1) {
+      throw new Error(
+        `Invalid key combo "${describe(input)}": only the last key may be a non-modifier, got "${part}"`
+      );
+    }
+  });
+
+  const last = parts[parts.length - 1];
+  let key = MODIFIER_ALIASES[last.toLowerCase()] ? null : normalizeKey(last);
+
+  // With modifiers held, "ctrl+S" means ctrl+s; use "ctrl+shift+s" for the
+  // shifted variant
+  if (key && modifiers.size > 0 && /^[A-Z]$/.test(key)) {
+    key = key.toLowerCase();
+  }
+
+  return {
+    modifiers: MODIFIER_ORDER.filter((m) => modifiers.has(m)),
+    key,
+  };
+}
+
+/**
+ * Format a parsed combo in the xdotool syntax the backends expect
+ */
+export function formatKeyCombo(combo: KeyCombo): string {
+  return [...combo.modifiers, ...(combo.key ? [combo.key] : [])].join("+");
+}
+
+/**
+ * Parse and re-format a key chord in one step
+ */
+export function toKeysym(input: KeyOptions | string): string {
+  return formatKeyCombo(parseKeyCombo(input));
+}
+
+function splitCombo(value: string): string[] {
+  const trimmed = value.trim();
+  if (trimmed === "+") {
+    return ["+"];
+  }
+  // "ctrl++" means ctrl and the plus key
+  const parts = trimmed.endsWith("++")
+    ? [...trimmed.slice(0, -2).split("+"), "+"]
+    : trimmed.split("+");
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+}
+
+function describe(input: KeyOptions | string): string {
+  return typeof input === "string"
+    ? input
+    : [...(input.modifiers ?? []), input.key].join("+");
+}
+
+function suggestKey(name: string): string | null {
+  const lower = name.toLowerCase();
+  const candidates = [
+    ...KEYSYMS.keys(),
+    ...Object.keys(MODIFIER_ALIASES),
+  ].filter((candidate) => candidate.length > 1);
+
+  let best: string | null = null;
+  let bestDistance = Math.max(1, Math.floor(lower.length / 3));
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  return KEYSYMS.get(best) ?? MODIFIER_ALIASES[best] ?? best;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
@@ -0,0 +1,456 @@
+/**
+ * Local Desktop Backend
+ * Drives a local Xvfb display through xdotool and ImageMagick, so the agent
+ * can run on a plain Linux box without an E2B account or network access.
+ *
+ * Requirements: Xvfb, xdotool and ImageMagick (`import`) on the PATH; for
+ * the live view also x11vnc, websockify and noVNC.
+ */
+
+import { execFile, spawn, type ChildProcess } from "child_process";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type {
+  CommandResult,
+  DesktopBackend,
+  DesktopStream,
+  MouseButton,
+  Point,
+  ScrollDirection,
+} from "./desktop-backend.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface LocalDesktopOptions {
+  display: string;
+  width: number;
+  height: number;
+  /** Map of app names used by the agent to the commands that launch them */
+  apps?: Record<string, string>;
+  vnc?: LocalVncOptions;
+}
+
+export interface LocalVncOptions {
+  /** VNC port x11vnc listens on (localhost only) */
+  port: number;
+  /** HTTP/WebSocket port websockify serves noVNC on */
+  webPort: number;
+  /** Directory with the noVNC web client (vnc.html) */
+  webDir: string;
+}
+
+const DEFAULT_VNC: LocalVncOptions = {
+  port: 5900,
+  webPort: 6080,
+  webDir: "/usr/share/novnc",
+};
+
+const DEFAULT_APPS: Record<string, string> = {
+  terminal: "x-terminal-emulator",
+};
+
+// X11 pointer button numbers
+const BUTTONS: Record<MouseButton, string> = {
+  left: "1",
+  middle: "2",
+  right: "3",
+};
+
+const WHEEL_BUTTONS: Record<ScrollDirection, string> = {
+  up: "4",
+  down: "5",
+  left: "6",
+  right: "7",
+};
+
+export class LocalDesktopBackend implements DesktopBackend {
+  readonly kind = "local";
+  private children: ChildProcess[] = [];
+  private screenshotCount = 0;
+  // Xvfb an earlier agent process started for the same session
+  private adoptedXvfb: number | null = null;
+
+  private constructor(
+    private options: LocalDesktopOptions,
+    private xvfb: ChildProcess | null
+  ) {}
+
+  /**
+   * Attach to the configured display, starting Xvfb if it is not running
+   */
+  static async create(
+    options: LocalDesktopOptions
+  ): Promise<LocalDesktopBackend> {
+    const backend = new LocalDesktopBackend(options, null);
+    if (await backend.isDisplayReady()) {
+      return backend;
+    }
+
+    const xvfb = spawn(
+      "Xvfb",
+      [
+        options.display,
+        "-screen",
+        "0",
+        `${options.width}x${options.height}x24`,
+        "-nolisten",
+        "tcp",
+      ],
+      // Own process group, so Ctrl+C in the agent (which pauses the
+      // session) does not take the display down with it
+      { stdio: "ignore", detached: true }
+    );
+    xvfb.unref();
+    backend.xvfb = xvfb;
+
+    const deadline = Date.now() + 10000;
+    while (Date.now() < deadline) {
+      if (xvfb.exitCode !== null) {
+        throw new Error(
+          `Xvfb exited with code ${xvfb.exitCode} on display ${options.display}`
+        );
+      }
+      if (await backend.isDisplayReady()) {
+        return backend;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+
+    xvfb.kill();
+    throw new Error(`Timed out waiting for Xvfb on display ${options.display}`);
+  }
+
+  get id(): string {
+    return `local${this.options.display}`;
+  }
+
+  /** Whether kill() stops the display: this backend started or adopted it */
+  get owned(): boolean {
+    return this.xvfb !== null || this.adoptedXvfb !== null;
+  }
+
+  /**
+   * Take over the Xvfb serving the display, started by an earlier agent
+   * process for the same session, so kill() stops it. Returns false, and
+   * leaves the display alone, when no Xvfb can be found for it.
+   */
+  adoptDisplay(): boolean {
+    const number = this.options.display.replace(/^:/, "").split(".")[0];
+    try {
+      const pid = Number(
+        fs.readFileSync(`/tmp/.X${number}-lock`, "utf8").trim()
+      );
+      const [command] = fs
+        .readFileSync(`/proc/${pid}/cmdline`, "utf8")
+        .split("\0");
+      if (path.basename(command) !== "Xvfb") {
+        return false;
+      }
+      this.adoptedXvfb = pid;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * X display of a backend ID, e.g. ":99" for "local:99"
+   */
+  static displayOf(id: string): string {
+    if (!id.startsWith("local:")) {
+      throw new Error(`Not a local desktop ID: ${id}`);
+    }
+    return id.slice("local".length);
+  }
+
+  async screenshot(): Promise<string> {
+    const file = path.join(
+      os.tmpdir(),
+      `desktop-${process.pid}-${++this.screenshotCount}.png`
+    );
+    await this.run("import", ["-window", "root", file]);
+    return file;
+  }
+
+  async click(position: Point, button: MouseButton = "left"): Promise<void> {
+    await this.xdotool([
+      "mousemove",
+      String(position.x),
+      String(position.y),
+      "click",
+      BUTTONS[button],
+    ]);
+  }
+
+  async doubleClick(position: Point): Promise<void> {
+    await this.xdotool([
+      "mousemove",
+      String(position.x),
+      String(position.y),
+      "click",
+      "--repeat",
+      "2",
+      BUTTONS.left,
+    ]);
+  }
+
+  async moveMouse(position: Point): Promise<void> {
+    await this.xdotool(["mousemove", String(position.x), String(position.y)]);
+  }
+
+  async mouseDown(button: MouseButton = "left"): Promise<void> {
+    await this.xdotool(["mousedown", BUTTONS[button]]);
+  }
+
+  async mouseUp(button: MouseButton = "left"): Promise<void> {
+    await this.xdotool(["mouseup", BUTTONS[button]]);
+  }
+
+  async scroll(direction: ScrollDirection, amount: number): Promise<void> {
+    await this.xdotool([
+      "click",
+      "--repeat",
+      String(amount),
+      WHEEL_BUTTONS[direction],
+    ]);
+  }
+
+  async getCursorPosition(): Promise<Point> {
+    const output = await this.xdotool(["getmouselocation", "--shell"]);
+    const x = /^X=(\d+)$/m.exec(output);
+    const y = /^Y=(\d+)$/m.exec(output);
+    if (!x || !y) {
+      throw new Error(`Unexpected xdotool output: ${output.trim()}`);
+    }
+    return { x: Number(x[1]), y: Number(y[1]) };
+  }
+
+  async write(text: string): Promise<void> {
+    await this.xdotool(["type", "--delay", "12", "--", text]);
+  }
+
+  async press(key: string): Promise<void> {
+    await this.xdotool(["key", "--", key]);
+  }
+
+  async launch(app: string): Promise<void> {
+    const command = this.options.apps?.[app] ?? DEFAULT_APPS[app] ?? app;
+    const child = spawn(command, [], {
+      env: this.env(),
+      stdio: "ignore",
+      detached: true,
+    });
+    child.on("error", (error) => {
+      console.error(`Failed to launch ${app}:`, error.message);
+    });
+    child.unref();
+    this.children.push(child);
+  }
+
+  /**
+   * Serve the display with x11vnc and noVNC through websockify. When the
+   * noVNC port is already taken, e.g. by another agent on the same display,
+   * that server is reused if it serves this display; otherwise this fails
+   * rather than show (and hand over) another desktop.
+   */
+  async startStream(): Promise<DesktopStream> {
+    const { port, webPort, webDir } = this.options.vnc ?? DEFAULT_VNC;
+    const url = `http://localhost:${webPort}/vnc.html?autoconnect=true&resize=scale`;
+    if (await isListening(webPort)) {
+      if (!(await this.servesDisplay(port, webPort))) {
+        throw new Error(
+          `Port ${webPort} is taken by a server that does not stream display ` +
+            `${this.options.display}; set NOVNC_PORT and VNC_PORT to free ports`
+        );
+      }
+      return { url };
+    }
+
+    const services = [
+      this.startService("x11vnc", [
+        "-display",
+        this.options.display,
+        "-rfbport",
+        String(port),
+        "-localhost",
+        "-shared",
+        "-forever",
+        "-nopw",
+        "-quiet",
+      ]),
+      this.startService("websockify", [
+        "--web",
+        webDir,
+        String(webPort),
+        `localhost:${port}`,
+      ]),
+    ];
+
+    const deadline = Date.now() + 10000;
+    while (Date.now() < deadline) {
+      const failed = services.find((service) => service.error);
+      if (failed) {
+        throw new Error(`Failed to start the live view: ${failed.error}`);
+      }
+      if (await isListening(webPort)) {
+        return { url };
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    throw new Error(`Timed out waiting for noVNC on port ${webPort}`);
+  }
+
+  /**
+   * Run a command with `sh -c` on this machine, on the desktop's display
+   */
+  async runCommand(command: string): Promise<CommandResult> {
+    try {
+      const { stdout, stderr } = await execFileAsync("sh", ["-c", command], {
+        env: this.env(),
+      });
+      return { exitCode: 0, stdout, stderr };
+    } catch (error: any) {
+      if (typeof error?.code !== "number") {
+        throw error;
+      }
+      return { exitCode: error.code, stdout: error.stdout, stderr: error.stderr };
+    }
+  }
+
+  async kill(): Promise<void> {
+    for (const child of this.children) {
+      if (child.exitCode === null) {
+        child.kill();
+      }
+    }
+    this.children = [];
+
+    if (this.xvfb) {
+      this.xvfb.kill();
+      this.xvfb = null;
+    }
+    if (this.adoptedXvfb !== null) {
+      try {
+        process.kill(this.adoptedXvfb);
+      } catch {
+        // Already gone
+      }
+      this.adoptedXvfb = null;
+    }
+  }
+
+  /**
+   * Spawn a long-running helper, stopped by kill(). `error` is set once it
+   * fails to start or exits.
+   */
+  private startService(
+    command: string,
+    args: string[]
+  ): { error: string | null } {
+    const service = { error: null as string | null };
+    const child = spawn(command, args, {
+      env: this.env(),
+      stdio: "ignore",
+      detached: true,
+    });
+    child.on("error", (error) => {
+      service.error = `${command}: ${error.message}`;
+    });
+    child.on("exit", (code) => {
+      service.error ??= `${command} exited with code ${code}`;
+    });
+    child.unref();
+    this.children.push(child);
+    return service;
+  }
+
+  private async isDisplayReady(): Promise<boolean> {
+    try {
+      await this.xdotool(["getdisplaygeometry"]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async xdotool(args: string[]): Promise<string> {
+    return this.run("xdotool", args);
+  }
+
+  private async run(command: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync(command, args, {
+      env: this.env(),
+    });
+    return stdout;
+  }
+
+  /**
+   * Whether websockify on `webPort` forwards to x11vnc on `port` and that
+   * x11vnc serves this display
+   */
+  private async servesDisplay(port: number, webPort: number): Promise<boolean> {
+    const websockify = await listenerCommand(webPort);
+    const vnc = await listenerCommand(port);
+    if (!websockify || !vnc) {
+      return false;
+    }
+    const target = websockify.at(-1) ?? "";
+    const display = vnc[vnc.indexOf("-display") + 1];
+    return (
+      websockify.some((arg) => path.basename(arg) === "websockify") &&
+      (target === `localhost:${port}` || target === `127.0.0.1:${port}`) &&
+      path.basename(vnc[0]) === "x11vnc" &&
+      vnc.includes("-display") &&
+      display === this.options.display
+    );
+  }
+
+  private env(): NodeJS.ProcessEnv {
+    return { ...process.env, DISPLAY: this.options.display };
+  }
+}
+
+/**
+ * Whether something accepts connections on a local port
+ */
+function isListening(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect(port, "127.0.0.1");
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once("error", () => resolve(false));
+  });
+}
+
+/**
+ * Command line of the process listening on a local TCP port, if `ss` can
+ * tell (it only sees other users' processes as root)
+ */
+async function listenerCommand(port: number): Promise<string[] | undefined> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync("ss", [
+      "-Hltnp",
+      `sport = :${port}`,
+    ]));
+  } catch {
+    return undefined;
+  }
+  const pid = stdout.match(/pid=(\d+)/)?.[1];
+  if (!pid) {
+    return undefined;
+  }
+  try {
+    const cmdline = fs.readFileSync(`/proc/${pid}/cmdline`, "utf8");
+    return cmdline.split("\0").filter(Boolean);
+  } catch {
+    return undefined;
+  }
+}
+
+export default LocalDesktopBackend;
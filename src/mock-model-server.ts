@@ -0,0 +1,437 @@
+/**
+ * Mock Model Server
+ * A local, scripted server that speaks the Anthropic Messages API, so agents
+ * can be exercised offline and deterministically. Each scenario is a fixed
+ * sequence of assistant turns; the turn to play is derived from the request
+ * itself (assistant turns since the last user prompt), so the server is
+ * stateless and repeatable.
+ *
+ * The scenario is picked from the first path segment of the base URL
+ * (http://127.0.0.1:4010/<scenario>), the `x-mock-scenario` header or the
+ * server's default scenario. Requests with `stream: true` get the same turn
+ * as server-sent events, with text and tool input split into deltas.
+ *
+ * Usage: npm run mock-model -- [--port 4010] [--scenario screenshot-click] [--scenarios file.json] [--stream-delay 50]
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import { estimateTokens } from "./history-manager.js";
+
+export type MockContent =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; name: string; input: Record<string, unknown> };
+
+export interface MockTurn {
+  content?: MockContent[];
+  /** Reply with an API error instead of a message */
+  error?: { status: number; type: string; message: string };
+}
+
+export interface MockScenario {
+  description: string;
+  turns: MockTurn[];
+  /** Replay the last turn forever instead of finishing the scenario */
+  repeatLast?: boolean;
+}
+
+export interface MockRequest {
+  scenario: string;
+  turn: number;
+  body: Anthropic.MessageCreateParams;
+}
+
+export interface MockModelServerOptions {
+  host?: string;
+  /** Port to listen on (default: a free port) */
+  port?: number;
+  scenarios?: Record<string, MockScenario>;
+  defaultScenario?: string;
+  /** Pause between streamed events, to make streaming visible (default 0) */
+  streamDelayMs?: number;
+}
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  "text-only": {
+    description: "Answers with text and no tool calls",
+    turns: [
+      { content: [{ type: "text", text: "Hello from the mock model." }] },
+    ],
+  },
+  "screenshot-click": {
+    description: "Takes a screenshot, clicks a point, then reports success",
+    turns: [
+      {
+        content: [
+          { type: "text", text: "Let me look at the screen first." },
+          { type: "tool_use", name: "screenshot", input: {} },
+        ],
+      },
+      {
+        content: [
+          { type: "tool_use", name: "click", input: { x: 100, y: 200 } },
+        ],
+      },
+      { content: [{ type: "text", text: "Clicked the button." }] },
+    ],
+  },
+  "type-and-submit": {
+    description: "Types text and presses Return in one turn",
+    turns: [
+      {
+        content: [
+          { type: "tool_use", name: "type", input: { text: "hello world" } },
+          { type: "tool_use", name: "key", input: { key: "Return" } },
+        ],
+      },
+      { content: [{ type: "text", text: "Submitted the form." }] },
+    ],
+  },
+  "invalid-tool-input": {
+    description: "Calls click without coordinates, then gives up",
+    turns: [
+      {
+        content: [
+          { type: "tool_use", name: "click", input: { button: "left" } },
+        ],
+      },
+      { content: [{ type: "text", text: "The click was rejected." }] },
+    ],
+  },
+  "unknown-tool": {
+    description: "Calls a tool that does not exist, then gives up",
+    turns: [
+      { content: [{ type: "tool_use", name: "teleport", input: {} }] },
+      { content: [{ type: "text", text: "That tool is not available." }] },
+    ],
+  },
+  "api-error": {
+    description: "Fails the first request with an invalid_request_error",
+    turns: [
+      {
+        error: {
+          status: 400,
+          type: "invalid_request_error",
+          message: "Scripted failure from the mock model server",
+        },
+      },
+    ],
+  },
+  endless: {
+    description: "Keeps calling wait, to exercise the step limit",
+    turns: [
+      {
+        content: [{ type: "tool_use", name: "wait", input: { duration: 1 } }],
+      },
+    ],
+    repeatLast: true,
+  },
+};
+
+const FINISHED_TURN: MockTurn = {
+  content: [{ type: "text", text: "Scenario complete." }],
+};
+
+export class MockModelServer {
+  /** Every request received, in order, for assertions in tests */
+  readonly requests: MockRequest[] = [];
+  readonly scenarios: Record<string, MockScenario>;
+  private server: http.Server | null = null;
+  private defaultScenario: string;
+
+  constructor(private options: MockModelServerOptions = {}) {
+    this.scenarios = { ...MOCK_SCENARIOS, ...options.scenarios };
+    this.defaultScenario = options.defaultScenario ?? "text-only";
+    if (!this.scenarios[this.defaultScenario]) {
+      throw new Error(`Unknown mock scenario: ${this.defaultScenario}`);
+    }
+  }
+
+  /**
+   * Start listening. Returns the base URL for the default scenario.
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(
+        this.options.port ?? 0,
+        this.options.host ?? "127.0.0.1",
+        () => resolve()
+      );
+    });
+    this.server = server;
+    return this.baseURL();
+  }
+
+  /**
+   * Base URL to configure as MODEL_BASE_URL for the given scenario
+   */
+  baseURL(scenario: string = this.defaultScenario): string {
+    if (!this.server) {
+      throw new Error("Mock model server is not running");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host ?? "127.0.0.1"}:${port}/${scenario}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method !== "POST" || !url.pathname.endsWith("/messages")) {
+      this.sendError(
+        res,
+        404,
+        "not_found_error",
+        `No route for ${req.method} ${url.pathname}`
+      );
+      return;
+    }
+
+    let body: Anthropic.MessageCreateParams;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      this.sendError(
+        res,
+        400,
+        "invalid_request_error",
+        "Request body is not valid JSON"
+      );
+      return;
+    }
+
+    const segment = url.pathname.split("/").filter(Boolean)[0];
+    const header = req.headers["x-mock-scenario"];
+    const name =
+      (typeof header === "string" && header) ||
+      (segment && this.scenarios[segment] ? segment : this.defaultScenario);
+    const scenario = this.scenarios[name];
+    if (!scenario) {
+      this.sendError(
+        res,
+        404,
+        "not_found_error",
+        `Unknown mock scenario: ${name}`
+      );
+      return;
+    }
+
+    const turn = currentTurn(body.messages ?? []);
+    this.requests.push({ scenario: name, turn, body });
+
+    const script =
+      scenario.turns[turn] ??
+      (scenario.repeatLast
+        ? scenario.turns[scenario.turns.length - 1]
+        : FINISHED_TURN);
+
+    if (script.error) {
+      const { status, type, message } = script.error;
+      this.sendError(res, status, type, message);
+      return;
+    }
+
+    const content: Anthropic.ContentBlock[] = (script.content ?? []).map(
+      (block, index) =>
+        block.type === "tool_use"
+          ? { ...block, id: `toolu_mock_${turn}_${index}` }
+          : block
+    );
+
+    const message: Anthropic.Message = {
+      id: `msg_mock_${this.requests.length}`,
+      type: "message",
+      role: "assistant",
+      model: body.model,
+      content,
+      stop_reason: content.some((block) => block.type === "tool_use")
+        ? "tool_use"
+        : "end_turn",
+      stop_sequence: null,
+      usage: {
+        input_tokens: estimateTokens(body.messages ?? []),
+        output_tokens: Math.ceil(JSON.stringify(content).length / 4),
+      },
+    };
+
+    if (body.stream) {
+      await this.sendStream(res, message);
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(message));
+  }
+
+  /**
+   * Send a message as Messages API server-sent events
+   */
+  private async sendStream(
+    res: http.ServerResponse,
+    message: Anthropic.Message
+  ): Promise<void> {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    });
+    const send = async (event: Anthropic.MessageStreamEvent): Promise<void> => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (this.options.streamDelayMs) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.options.streamDelayMs)
+        );
+      }
+    };
+
+    await send({
+      type: "message_start",
+      message: {
+        ...message,
+        content: [],
+        stop_reason: null,
+        usage: { ...message.usage, output_tokens: 0 },
+      },
+    });
+
+    for (const [index, block] of message.content.entries()) {
+      if (block.type === "text") {
+        await send({
+          type: "content_block_start",
+          index,
+          content_block: { type: "text", text: "" },
+        });
+        for (const text of block.text.match(/\S+\s*|\s+/g) ?? []) {
+          await send({
+            type: "content_block_delta",
+            index,
+            delta: { type: "text_delta", text },
+          });
+        }
+      } else {
+        await send({
+          type: "content_block_start",
+          index,
+          content_block: { ...block, input: {} },
+        });
+        const json = JSON.stringify(block.input);
+        const middle = Math.ceil(json.length / 2);
+        for (const partial_json of [json.slice(0, middle), json.slice(middle)]) {
+          await send({
+            type: "content_block_delta",
+            index,
+            delta: { type: "input_json_delta", partial_json },
+          });
+        }
+      }
+      await send({ type: "content_block_stop", index });
+    }
+
+    await send({
+      type: "message_delta",
+      delta: { stop_reason: message.stop_reason, stop_sequence: null },
+      usage: { output_tokens: message.usage.output_tokens },
+    });
+    await send({ type: "message_stop" });
+    res.end();
+  }
+
+  private sendError(
+    res: http.ServerResponse,
+    status: number,
+    type: string,
+    message: string
+  ): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ type: "error", error: { type, message } }));
+  }
+}
+
+/**
+ * Number of assistant turns since the last user message that is not just
+ * tool results, i.e. since the current task prompt
+ */
+function currentTurn(messages: Anthropic.MessageParam[]): number {
+  let turn = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === "assistant") {
+      turn++;
+    } else if (
+      typeof message.content === "string" ||
+      message.content.some((block) => block.type !== "tool_result")
+    ) {
+      break;
+    }
+  }
+  return turn;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const scenariosFile = flag("--scenarios");
+  const server = new MockModelServer({
+    port: Number(flag("--port") ?? 4010),
+    defaultScenario: flag("--scenario"),
+    streamDelayMs: Number(flag("--stream-delay") ?? 0),
+    scenarios: scenariosFile
+      ? (JSON.parse(fs.readFileSync(scenariosFile, "utf8")) as Record<
+          string,
+          MockScenario
+        >)
+      : undefined,
+  });
+
+  const baseURL = await server.start();
+  console.log(`🧪 Mock model server listening on ${baseURL}`);
+  console.log("\nScenarios:");
+  for (const [name, scenario] of Object.entries(server.scenarios)) {
+    console.log(`  ${name.padEnd(20)} ${scenario.description}`);
+  }
+  console.log(
+    `\nPoint an agent at it with:\n  MODEL_PROVIDER=anthropic MODEL_BASE_URL=${baseURL} MODEL_API_KEY=mock npm start`
+  );
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+export default MockModelServer;
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -0,0 +1,125 @@
+/**
+ * Model Provider Abstraction
+ * Agents talk to a ModelProvider rather than a specific SDK. Conversations
+ * are kept in the Anthropic Messages format; providers for other APIs
+ * translate requests and responses at the edge.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import CONFIG from "./config.js";
+import type { ToolDefinition } from "./tools.js";
+
+export type ModelProviderKind = "anthropic" | "openai" | "opencode";
+
+export interface ModelCapabilities {
+  /** Accepts images (screenshots) in messages */
+  vision: boolean;
+  /** Supports tool definitions and tool calls */
+  toolUse: boolean;
+  /** Maximum number of images accepted in one request */
+  maxImages: number;
+}
+
+export interface ModelRequest {
+  system?: string;
+  messages: Anthropic.MessageParam[];
+  tools?: ToolDefinition[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelResponse {
+  /** Text and tool_use blocks, in the Anthropic Messages format */
+  content: Anthropic.ContentBlock[];
+  stopReason: string | null;
+  usage?: ModelUsage;
+}
+
+export interface ModelStreamHandlers {
+  /** A chunk of text, as soon as it arrives */
+  onTextDelta?(text: string): void;
+  /** A text or tool_use block is complete; tool input is fully parsed */
+  onContentBlock?(block: Anthropic.ContentBlock): void;
+}
+
+export interface ModelProvider {
+  readonly kind: ModelProviderKind;
+  /** Model identifier sent to the API */
+  readonly model: string;
+  readonly capabilities: ModelCapabilities;
+
+  /** Send one request and return the model's reply */
+  createMessage(request: ModelRequest): Promise<ModelResponse>;
+
+  /**
+   * Like createMessage, but reports the reply while it is generated.
+   * Optional; callers fall back to createMessage.
+   */
+  streamMessage?(
+    request: ModelRequest,
+    handlers: ModelStreamHandlers
+  ): Promise<ModelResponse>;
+}
+
+export interface ModelProviderConfig {
+  provider: ModelProviderKind;
+  name: string;
+  baseURL?: string;
+  apiKey?: string;
+  /** Overrides for the capabilities a provider declares by default */
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+/**
+ * Create the model provider described by the configuration.
+ * Providers are imported lazily so unused SDKs are never loaded.
+ */
+export async function createModelProvider(
+  config: ModelProviderConfig = CONFIG.model
+): Promise<ModelProvider> {
+  switch (config.provider) {
+    case "anthropic": {
+      const { AnthropicModelProvider } = await import(
+        "./anthropic-model-provider.js"
+      );
+      return new AnthropicModelProvider(config);
+    }
+    case "openai": {
+      const { OpenAIModelProvider } = await import(
+        "./openai-model-provider.js"
+      );
+      return new OpenAIModelProvider(config);
+    }
+    case "opencode": {
+      const { OpenCodeModelProvider } = await import(
+        "./opencode-model-provider.js"
+      );
+      return new OpenCodeModelProvider(config);
+    }
+    default:
+      throw new Error(`Unknown model provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Throw if the provider cannot drive a computer use agent
+ */
+export function assertComputerUseCapable(provider: ModelProvider): void {
+  if (!provider.capabilities.toolUse) {
+    throw new Error(
+      `Model ${provider.model} (${provider.kind}) does not support tool use and cannot control the desktop`
+    );
+  }
+  if (!provider.capabilities.vision) {
+    console.warn(
+      `⚠️  Model ${provider.model} (${provider.kind}) has no vision support; screenshots will be replaced by placeholders`
+    );
+  }
+}
+
+export default createModelProvider;
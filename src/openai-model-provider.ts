@@ -0,0 +1,236 @@
+/**
+ * OpenAI-Compatible Model Provider
+ * Calls any /chat/completions endpoint with function calling (OpenAI,
+ * OpenRouter, vLLM, Ollama, ...). Anthropic-format conversations are
+ * translated to chat messages on the way out and back on the way in.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type {
+  ModelCapabilities,
+  ModelProvider,
+  ModelProviderConfig,
+  ModelRequest,
+  ModelResponse,
+} from "./model-provider.js";
+
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+type ChatMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | ChatContentPart[] }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: ChatToolCall[];
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletion {
+  choices: Array<{
+    message: { content: string | null; tool_calls?: ChatToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+const STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  tool_calls: "tool_use",
+  length: "max_tokens",
+};
+
+export class OpenAIModelProvider implements ModelProvider {
+  readonly kind = "openai" as const;
+  readonly model: string;
+  readonly capabilities: ModelCapabilities;
+  private baseURL: string;
+  private apiKey?: string;
+
+  constructor(config: ModelProviderConfig) {
+    this.model = config.name;
+    this.capabilities = {
+      vision: true,
+      toolUse: true,
+      maxImages: 10,
+      ...config.capabilities,
+    };
+    this.baseURL = (config.baseURL || "https://api.openai.com/v1").replace(
+      /\/+$/,
+      ""
+    );
+    this.apiKey = config.apiKey;
+  }
+
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: toChatMessages(request),
+        tools: request.tools?.length
+          ? request.tools.map((tool) => ({
+              type: "function",
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.input_schema,
+              },
+            }))
+          : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI-compatible request failed (${response.status}): ${await response.text()}`
+      );
+    }
+
+    const completion = (await response.json()) as ChatCompletion;
+    const choice = completion.choices[0];
+    if (!choice) {
+      throw new Error("OpenAI-compatible response contained no choices");
+    }
+
+    const content: Anthropic.ContentBlock[] = [];
+    if (choice.message.content) {
+      content.push({ type: "text", text: choice.message.content });
+    }
+    for (const call of choice.message.tool_calls ?? []) {
+      content.push({
+        type: "tool_use",
+        id: call.id,
+        name: call.function.name,
+        input: parseArguments(call.function.arguments),
+      });
+    }
+
+    return {
+      content,
+      stopReason: choice.finish_reason
+        ? STOP_REASONS[choice.finish_reason] ?? choice.finish_reason
+        : null,
+      usage: completion.usage
+        ? {
+            inputTokens: completion.usage.prompt_tokens,
+            outputTokens: completion.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Translate an Anthropic-format request into chat completion messages.
+ * Tool results become `tool` messages; images they contain are sent in a
+ * follow-up user message because `tool` messages are text-only.
+ */
+function toChatMessages(request: ModelRequest): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (request.system) {
+    messages.push({ role: "system", content: request.system });
+  }
+
+  for (const message of request.messages) {
+    if (typeof message.content === "string") {
+      messages.push(
+        message.role === "user"
+          ? { role: "user", content: message.content }
+          : { role: "assistant", content: message.content }
+      );
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      const text: string[] = [];
+      const toolCalls: ChatToolCall[] = [];
+      for (const block of message.content) {
+        if (block.type === "text") {
+          text.push(block.text);
+        } else if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id,
+            type: "function",
+            function: {
+              name: block.name,
+              arguments: JSON.stringify(block.input ?? {}),
+            },
+          });
+        }
+      }
+      messages.push({
+        role: "assistant",
+        content: text.length > 0 ? text.join("\n") : null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    const parts: ChatContentPart[] = [];
+    for (const block of message.content) {
+      if (block.type === "tool_result") {
+        const text: string[] = [];
+        if (typeof block.content === "string") {
+          text.push(block.content);
+        } else {
+          for (const item of block.content ?? []) {
+            if (item.type === "text") {
+              text.push(item.text);
+            } else {
+              parts.push(toImagePart(item));
+            }
+          }
+        }
+        messages.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content:
+            (block.is_error ? "Error: " : "") + (text.join("\n") || "Done"),
+        });
+      } else if (block.type === "text") {
+        parts.push({ type: "text", text: block.text });
+      } else if (block.type === "image") {
+        parts.push(toImagePart(block));
+      }
+    }
+    if (parts.length > 0) {
+      messages.push({ role: "user", content: parts });
+    }
+  }
+
+  return messages;
+}
+
+function toImagePart(block: Anthropic.ImageBlockParam): ChatContentPart {
+  return {
+    type: "image_url",
+    image_url: {
+      url: `data:${block.source.media_type};base64,${block.source.data}`,
+    },
+  };
+}
+
+function parseArguments(value: string): Record<string, unknown> {
+  try {
+    return value ? (JSON.parse(value) as Record<string, unknown>) : {};
+  } catch {
+    throw new Error(`Model returned invalid tool arguments: ${value}`);
+  }
+}
+
+export default OpenAIModelProvider;
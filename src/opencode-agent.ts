@@ -32,7 +32,15 @@ export class OpencodeComputerAgent {
   private currentSession: Session | null = null;
   private config: AgentConfig;
 
-  constructor(config: AgentConfig = {}) {
+  /**
+   * @param client An existing OpenCode client; when given, initialize()
+   *   neither starts nor connects to a server (e.g. a fake in tests)
+   */
+  constructor(
+    config: AgentConfig = {},
+    client?: Awaited<ReturnType<typeof createOpencodeClient>>
+  ) {
+    this.client = client ?? null;
     this.config = {
       hostname: config.hostname || process.env.OPENCODE_HOST || "127.0.0.1",
       port: config.port || parseInt(process.env.OPENCODE_PORT || "4096"),
@@ -52,7 +60,9 @@ export class OpencodeComputerAgent {
     console.log("🚀 Initializing OpenCode Computer Agent...");
 
     try {
-      if (useExistingServer) {
+      if (this.client) {
+        console.log("📡 Using provided OpenCode client");
+      } else if (useExistingServer) {
         console.log(
           `📡 Connecting to existing OpenCode server at ${this.config.serverUrl}`
         );
@@ -10,10 +10,19 @@ export class OpenCodeController {
   private server: any;
   private isLocal: boolean;
 
-  constructor(options: { baseUrl?: string; isLocal?: boolean } = {}) {
+  /**
+   * @param options.client An existing OpenCode client to use instead of
+   *   creating one (e.g. a fake in tests)
+   */
+  constructor(
+    options: { baseUrl?: string; isLocal?: boolean; client?: any } = {}
+  ) {
     this.isLocal = options.isLocal ?? false;
     
-    if (this.isLocal) {
+    if (options.client) {
+      this.client = options.client;
+      this.server = null;
+    } else if (this.isLocal) {
       // Will create local server + client
       this.client = null;
       this.server = null;
@@ -307,7 +316,7 @@ export class OpenCodeController {
 /**
  * Helper function to create OpenCode controller
  */
-export function createOpenCodeController(options?: { baseUrl?: string; isLocal?: boolean }): OpenCodeController {
+export function createOpenCodeController(options?: { baseUrl?: string; isLocal?: boolean; client?: any }): OpenCodeController {
   return new OpenCodeController(options);
 }
 
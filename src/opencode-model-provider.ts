@@ -0,0 +1,86 @@
+/**
+ * OpenCode Session Model Provider
+ * Sends the conversation as a prompt to an OpenCode server session. OpenCode
+ * runs its own agent and tools, so this provider is text-only: it works for
+ * summaries and diagnostics but cannot drive the desktop.
+ */
+
+import { renderTranscript } from "./history-manager.js";
+import type {
+  ModelCapabilities,
+  ModelProvider,
+  ModelProviderConfig,
+  ModelRequest,
+  ModelResponse,
+} from "./model-provider.js";
+import { OpenCodeController } from "./opencode-client.js";
+
+export class OpenCodeModelProvider implements ModelProvider {
+  readonly kind = "opencode" as const;
+  readonly model: string;
+  readonly capabilities: ModelCapabilities;
+  private controller: OpenCodeController;
+
+  /**
+   * @param config `name` is "<providerID>/<modelID>", e.g.
+   *   "anthropic/claude-3-5-sonnet-20241022"; `baseURL` is the OpenCode
+   *   server URL
+   */
+  constructor(config: ModelProviderConfig) {
+    this.model = config.name;
+    this.capabilities = {
+      vision: false,
+      toolUse: false,
+      maxImages: 0,
+      ...config.capabilities,
+    };
+    this.controller = new OpenCodeController({
+      baseUrl: config.baseURL || "http://localhost:4096",
+    });
+  }
+
+  /**
+   * Every request carries the whole conversation, so each gets a session of
+   * its own; reusing one would make the server's context grow with every
+   * resent transcript.
+   */
+  async createMessage(request: ModelRequest): Promise<ModelResponse> {
+    const { id: sessionId } = await this.controller.createSession(
+      "Computer Use Agent"
+    );
+
+    const [providerID, ...rest] = this.model.split("/");
+    const model =
+      rest.length > 0 ? { providerID, modelID: rest.join("/") } : undefined;
+    let result: { parts?: Array<{ type: string; text?: string }> };
+    try {
+      result = (await this.controller.sendPrompt(
+        sessionId,
+        renderPrompt(request),
+        { model }
+      )) as unknown as typeof result;
+    } finally {
+      await this.controller.deleteSession(sessionId).catch(() => false);
+    }
+
+    const text = (result.parts ?? [])
+      .flatMap((part) => (part.type === "text" && part.text ? [part.text] : []))
+      .join("\n");
+
+    return {
+      content: text ? [{ type: "text", text }] : [],
+      stopReason: "end_turn",
+    };
+  }
+}
+
+/**
+ * Flatten system prompt and messages into a single text prompt
+ */
+function renderPrompt(request: ModelRequest): string {
+  return [request.system, renderTranscript(request.messages)]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export default OpenCodeModelProvider;
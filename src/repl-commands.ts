@@ -0,0 +1,205 @@
+/**
+ * REPL Commands
+ * Slash commands (`/help`, `/model <id>`, ...) for the interactive session:
+ * registration, dispatch, a `/help` listing and readline tab completion.
+ * Also parses manual tool calls (`!click 400 300`) typed by the operator.
+ */
+
+import fs from "fs";
+import type { ToolDefinition } from "./tools.js";
+
+export type CommandHandler = (args: string) => Promise<void> | void;
+
+export interface ReplCommand {
+  /** Name without the slash, e.g. "model" */
+  name: string;
+  /** Argument synopsis shown in /help, e.g. "<id>" */
+  args?: string;
+  description: string;
+  run: CommandHandler;
+  /** Completions for the argument typed so far */
+  complete?(partial: string): string[];
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, ReplCommand>();
+
+  constructor() {
+    this.register({
+      name: "help",
+      description: "List the available commands",
+      run: () => console.log(this.help()),
+    });
+  }
+
+  register(command: ReplCommand): this {
+    this.commands.set(command.name, command);
+    return this;
+  }
+
+  /**
+   * Whether a line of input is a slash command
+   */
+  static isCommand(line: string): boolean {
+    return line.trimStart().startsWith("/");
+  }
+
+  list(): ReplCommand[] {
+    return [...this.commands.values()].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Run the command on a line such as "/model claude-sonnet-4". Throws on
+   * unknown commands.
+   */
+  async execute(line: string): Promise<void> {
+    const { name, args } = parse(line);
+    const command = this.commands.get(name);
+    if (!command) {
+      throw new Error(`Unknown command /${name}. Type /help for a list`);
+    }
+    await command.run(args);
+  }
+
+  help(): string {
+    const rows = this.list().map((command) => [
+      `/${command.name}${command.args ? ` ${command.args}` : ""}`,
+      command.description,
+    ]);
+    const width = Math.max(...rows.map(([usage]) => usage.length));
+    return rows
+      .map(([usage, description]) => `  ${usage.padEnd(width)}  ${description}`)
+      .join("\n");
+  }
+
+  /**
+   * readline completer: command names, then the command's own arguments
+   */
+  complete(line: string): [string[], string] {
+    if (!CommandRegistry.isCommand(line)) {
+      return [[], line];
+    }
+
+    const { name, args } = parse(line);
+    if (!/\s/.test(line.trimStart())) {
+      const hits = this.list()
+        .map((command) => `/${command.name}`)
+        .filter((command) => command.startsWith(`/${name}`));
+      return [hits, line];
+    }
+
+    const hits = this.commands.get(name)?.complete?.(args) ?? [];
+    return [hits.filter((hit) => hit.startsWith(args)), args];
+  }
+}
+
+export interface ManualToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Whether a line of input is a manual tool call such as "!click 400 300"
+ */
+export function isToolCommand(line: string): boolean {
+  return line.trimStart().startsWith("!");
+}
+
+/**
+ * Parse a manual tool call. Arguments fill the tool's properties in schema
+ * order and are converted to numbers or booleans as the schema says; a tool
+ * whose only property is a string takes the rest of the line ("!type hello
+ * world"), and "{...}" is read as the JSON input. The input is validated
+ * later, by the tool registry.
+ */
+export function parseToolCommand(
+  line: string,
+  tools: ToolDefinition[]
+): ManualToolCall {
+  const match = /^\s*!(\S+)\s*(.*)$/s.exec(line);
+  const name = match?.[1] ?? "";
+  const rest = match?.[2].trim() ?? "";
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) {
+    throw new Error(`Unknown tool !${name}. Type /tools for a list`);
+  }
+
+  if (rest.startsWith("{")) {
+    try {
+      return { name, input: JSON.parse(rest) };
+    } catch {
+      throw new Error(`Invalid JSON input for !${name}`);
+    }
+  }
+
+  const properties = Object.entries(tool.input_schema.properties);
+  if (properties.length === 1 && properties[0][1].type === "string") {
+    return { name, input: rest ? { [properties[0][0]]: rest } : {} };
+  }
+
+  const args = rest ? rest.split(/\s+/) : [];
+  if (args.length > properties.length) {
+    throw new Error(`Too many arguments. Usage: ${toolUsage(tool)}`);
+  }
+  const input: Record<string, unknown> = {};
+  args.forEach((arg, index) => {
+    const [key, property] = properties[index];
+    input[key] =
+      property.type === "number" && arg !== "" && !isNaN(Number(arg))
+        ? Number(arg)
+        : property.type === "boolean" && (arg === "true" || arg === "false")
+          ? arg === "true"
+          : arg;
+  });
+  return { name, input };
+}
+
+/**
+ * Usage line for a manual tool call, e.g. "!click <x> <y> [button] [doubleClick]"
+ */
+export function toolUsage(tool: ToolDefinition): string {
+  const { properties, required } = tool.input_schema;
+  const args = Object.entries(properties)
+    .filter(([, property]) => property.type !== "array")
+    .map(([key]) => (required.includes(key) ? `<${key}>` : `[${key}]`));
+  return [`!${tool.name}`, ...args].join(" ");
+}
+
+/**
+ * readline completer for manual tool calls: completes the tool name
+ */
+export function completeToolCommand(
+  line: string,
+  tools: ToolDefinition[]
+): [string[], string] {
+  if (/\s/.test(line.trimStart())) {
+    return [[], line];
+  }
+  const hits = tools
+    .map((tool) => `!${tool.name}`)
+    .filter((name) => name.startsWith(line.trimStart()));
+  return [hits, line];
+}
+
+/**
+ * Complete a file path relative to the working directory, e.g. for /save
+ */
+export function completePath(partial: string): string[] {
+  const prefix = partial.slice(0, partial.lastIndexOf("/") + 1);
+  try {
+    return fs
+      .readdirSync(prefix || ".", { withFileTypes: true })
+      .map((entry) => `${prefix}${entry.name}${entry.isDirectory() ? "/" : ""}`);
+  } catch {
+    return [];
+  }
+}
+
+function parse(line: string): { name: string; args: string } {
+  const match = /^\s*\/(\S*)\s*(.*)$/s.exec(line);
+  return { name: match?.[1] ?? "", args: match?.[2] ?? "" };
+}
+
+export default CommandRegistry;
@@ -0,0 +1,267 @@
+/**
+ * Trajectory Replay
+ * Re-issues the tool calls of a recorded run against a fresh desktop,
+ * without calling the model. With --diff, every recorded screenshot is
+ * compared pixel by pixel with the live one, which turns recorded flows into
+ * deterministic regression tests.
+ *
+ * Calls go through the safety policy, and calls that failed when recorded
+ * (including ones the operator rejected or the policy blocked) are skipped
+ * unless --replay-errors is given.
+ *
+ * Usage: npm run replay -- <trajectory-dir> [--diff] [--threshold 0.02]
+ *   [--tolerance 16] [--replay-errors]
+ */
+
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { ToolResultContent } from "./agent-loop.js";
+import {
+  createDesktopBackend,
+  type DesktopBackend,
+} from "./desktop-backend.js";
+import { DesktopController } from "./desktop-controller.js";
+import { compareImages } from "./image-diff.js";
+import { loadSafetyPolicy, type SafetyPolicy } from "./safety-policy.js";
+import { createComputerToolRegistry } from "./tool-registry.js";
+import { loadTrajectory, type RecordedContent } from "./trajectory.js";
+
+export interface ReplayOptions {
+  /** Desktop to replay on; a new one is created (and killed) when omitted */
+  backend?: DesktopBackend;
+  /** Compare recorded and live screenshots */
+  diff?: boolean;
+  /** Maximum fraction of differing pixels before a step fails (default: 0.02) */
+  threshold?: number;
+  /** Per-channel tolerance passed to compareImages (default: 16) */
+  tolerance?: number;
+  /** Policy the replayed calls must pass (default: loadSafetyPolicy()) */
+  policy?: SafetyPolicy;
+  /**
+   * Also re-run calls that failed when recorded. Off by default: they
+   * include actions a person rejected or the safety policy blocked.
+   */
+  replayErrors?: boolean;
+}
+
+export interface ReplayStepResult {
+  step: number;
+  name: string;
+  input: Record<string, unknown>;
+  ok: boolean;
+  /** Not re-run because it failed when recorded */
+  skipped?: boolean;
+  error?: string;
+  diffRatio?: number;
+  diffFile?: string;
+}
+
+export interface ReplayReport {
+  dir: string;
+  prompt: string;
+  steps: ReplayStepResult[];
+  passed: boolean;
+}
+
+/**
+ * Replay a recorded trajectory and report which steps diverged
+ */
+export async function replayTrajectory(
+  dir: string,
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  const { threshold = 0.02, tolerance = 16 } = options;
+  const { task, events } = loadTrajectory(dir);
+  const diffDir = path.join(dir, "replay");
+
+  const backend = options.backend ?? (await createDesktopBackend());
+  const controller = new DesktopController(backend);
+  const tools = createComputerToolRegistry(
+    controller,
+    options.policy ?? loadSafetyPolicy()
+  );
+  const steps: ReplayStepResult[] = [];
+
+  /**
+   * Compare recorded image files with live images, returning the worst ratio
+   */
+  const diffImages = async (
+    recordedFiles: string[],
+    live: Buffer[]
+  ): Promise<{ ratio: number; file?: string }> => {
+    let worst: { ratio: number; file?: string } = { ratio: 0 };
+    for (let i = 0; i < Math.min(recordedFiles.length, live.length); i++) {
+      const expected = fs.readFileSync(path.join(dir, recordedFiles[i]));
+      const result = await compareImages(expected, live[i], { tolerance });
+      if (result.diffRatio > worst.ratio) {
+        fs.mkdirSync(diffDir, { recursive: true });
+        const name = path.parse(recordedFiles[i]).name;
+        const file = path.join(diffDir, `${name}-diff.png`);
+        fs.writeFileSync(file, result.diffImage);
+        worst = { ratio: result.diffRatio, file };
+      }
+    }
+    return worst;
+  };
+
+  console.log(`\n▶️  Replaying: ${task.prompt}`);
+  console.log(`   ${events.length} recorded events on desktop ${backend.id}`);
+
+  try {
+    // Capture once up front so coordinate mapping matches the live screen
+    const initial = await controller.takeScreenshot();
+
+    for (const event of events) {
+      if (event.type === "screenshot" && event.label === "initial") {
+        if (options.diff) {
+          const { ratio, file } = await diffImages(
+            [event.file],
+            [initial.buffer]
+          );
+          steps.push({
+            step: event.step,
+            name: "initial_screenshot",
+            input: {},
+            ok: ratio <= threshold,
+            diffRatio: ratio,
+            diffFile: file,
+          });
+          printStep(steps[steps.length - 1]);
+        }
+        continue;
+      }
+
+      if (event.type !== "tool_call") {
+        continue;
+      }
+
+      const result: ReplayStepResult = {
+        step: event.step,
+        name: event.name,
+        input: event.input,
+        ok: true,
+      };
+      if (event.isError && !options.replayErrors) {
+        result.skipped = true;
+        steps.push(result);
+        printStep(result);
+        continue;
+      }
+
+      try {
+        const content = await tools.execute(event.name, event.input);
+        if (event.isError) {
+          result.ok = false;
+          result.error = "Recorded call failed but replay succeeded";
+        } else if (options.diff) {
+          const { ratio, file } = await diffImages(
+            recordedImages(event.result),
+            liveImages(content)
+          );
+          result.diffRatio = ratio;
+          result.diffFile = file;
+          result.ok = ratio <= threshold;
+        }
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        result.ok = event.isError;
+      }
+
+      steps.push(result);
+      printStep(result);
+    }
+  } finally {
+    if (!options.backend) {
+      await backend.kill();
+    }
+  }
+
+  return {
+    dir,
+    prompt: task.prompt,
+    steps,
+    passed: steps.every((step) => step.ok),
+  };
+}
+
+function recordedImages(content: RecordedContent | undefined): string[] {
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  return content.flatMap((block) =>
+    block.type === "image" ? [block.file] : []
+  );
+}
+
+function liveImages(content: ToolResultContent): Buffer[] {
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  return content.flatMap((block) =>
+    block.type === "image" ? [Buffer.from(block.source.data, "base64")] : []
+  );
+}
+
+function printStep(result: ReplayStepResult): void {
+  const diff =
+    result.diffRatio !== undefined
+      ? ` (diff ${(result.diffRatio * 100).toFixed(2)}%)`
+      : "";
+  const error = result.error ? ` - ${result.error}` : "";
+  if (result.skipped) {
+    console.log(
+      `  - step ${result.step}: ${result.name} skipped (failed when recorded)`
+    );
+    return;
+  }
+  console.log(
+    `  ${result.ok ? "✓" : "✗"} step ${result.step}: ${result.name} ${JSON.stringify(result.input)}${diff}${error}`
+  );
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const flags: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--threshold" || args[i] === "--tolerance") {
+      flags[args[i]] = args[++i];
+    } else if (!args[i].startsWith("--")) {
+      positional.push(args[i]);
+    }
+  }
+  const dir = positional[0];
+
+  if (!dir) {
+    console.log(
+      "\nUsage: npm run replay -- <trajectory-dir> [--diff] [--threshold 0.02] [--tolerance 16] [--replay-errors]"
+    );
+    process.exit(1);
+  }
+
+  try {
+    const report = await replayTrajectory(path.resolve(dir), {
+      diff: args.includes("--diff"),
+      threshold: flags["--threshold"] ? Number(flags["--threshold"]) : undefined,
+      tolerance: flags["--tolerance"] ? Number(flags["--tolerance"]) : undefined,
+      replayErrors: args.includes("--replay-errors"),
+    });
+
+    const failed = report.steps.filter((step) => !step.ok);
+    console.log(
+      `\n${report.passed ? "✅" : "❌"} ${report.steps.length - failed.length}/${report.steps.length} steps matched`
+    );
+    process.exit(report.passed ? 0 : 1);
+  } catch (error) {
+    console.error("Replay failed:", error);
+    process.exit(1);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
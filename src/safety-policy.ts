@@ -0,0 +1,354 @@
+/**
+ * Safety Policy
+ * Declarative allow/deny rules for applications, key combos, typed text and
+ * screen regions, loaded from a YAML or JSON file and enforced by the tool
+ * registry before any tool touches the desktop
+ */
+
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import CONFIG from "./config.js";
+import type { Point } from "./desktop-backend.js";
+import { toKeysym } from "./keys.js";
+import type { ToolDefinition } from "./tools.js";
+
+export interface PatternRule {
+  pattern: string;
+  flags?: string;
+  /** Logged and reported to the model when the pattern blocks an action */
+  reason?: string;
+}
+
+/**
+ * Rectangle in native screen pixels (not screenshot coordinates)
+ */
+export interface Region {
+  name?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AllowDeny<T> {
+  /** When present, anything not listed is blocked */
+  allow?: T[];
+  /** Always blocked, even when also allowed */
+  deny?: T[];
+}
+
+/**
+ * Shape of the policy file
+ */
+export interface SafetyPolicyConfig {
+  apps?: AllowDeny<string>;
+  keys?: AllowDeny<string>;
+  text?: AllowDeny<string | PatternRule>;
+  regions?: AllowDeny<Region>;
+}
+
+export interface SafetyViolation {
+  rule: "apps" | "keys" | "text" | "regions";
+  reason: string;
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  reason: string;
+}
+
+function compilePatterns(
+  rules: (string | PatternRule)[] | undefined
+): CompiledPattern[] | undefined {
+  return rules?.map((rule) => {
+    const { pattern, flags, reason } =
+      typeof rule === "string" ? { pattern: rule } : rule;
+    return {
+      // Without g and y, test() keeps no lastIndex between calls and
+      // every check starts from the beginning of the text
+      regex: new RegExp(pattern, flags?.replace(/[gy]/g, "")),
+      reason: reason ?? `matches /${pattern}/`,
+    };
+  });
+}
+
+function describeRegion(region: Region): string {
+  return (
+    region.name ??
+    `${region.width}x${region.height} at (${region.x}, ${region.y})`
+  );
+}
+
+function inRegion(point: Point, region: Region): boolean {
+  return (
+    point.x >= region.x &&
+    point.x < region.x + region.width &&
+    point.y >= region.y &&
+    point.y < region.y + region.height
+  );
+}
+
+/** Tools that act where the pointer is when given no coordinates */
+const POINTER_TOOLS = new Set(["left_mouse_down", "left_mouse_up", "scroll"]);
+
+/**
+ * Points a tool call acts on, in the coordinates the model used
+ */
+function pointsOf(input: Record<string, unknown>): Point[] {
+  const points: Point[] = [];
+  const add = (x: unknown, y: unknown) => {
+    if (typeof x === "number" && typeof y === "number") {
+      points.push({ x, y });
+    }
+  };
+
+  add(input.x, input.y);
+  add(input.fromX, input.fromY);
+  add(input.toX, input.toY);
+  if (Array.isArray(input.path)) {
+    for (const point of input.path as Partial<Point>[]) {
+      add(point?.x, point?.y);
+    }
+  }
+  return points;
+}
+
+export class SafetyPolicy {
+  private allowedKeys?: Set<string>;
+  private deniedKeys: Set<string>;
+  private allowedText?: CompiledPattern[];
+  private deniedText: CompiledPattern[];
+
+  /**
+   * @param source File the policy was loaded from, for log messages
+   */
+  constructor(
+    readonly config: SafetyPolicyConfig = {},
+    readonly source?: string
+  ) {
+    this.allowedKeys =
+      config.keys?.allow && new Set(config.keys.allow.map(toKeysym));
+    this.deniedKeys = new Set((config.keys?.deny ?? []).map(toKeysym));
+    this.allowedText = compilePatterns(config.text?.allow);
+    this.deniedText = compilePatterns(config.text?.deny) ?? [];
+  }
+
+  /**
+   * Load a policy from a .yaml, .yml or .json file
+   */
+  static load(file: string): SafetyPolicy {
+    const raw = fs.readFileSync(file, "utf-8");
+
+    try {
+      const parsed =
+        path.extname(file).toLowerCase() === ".json"
+          ? JSON.parse(raw)
+          : YAML.parse(raw);
+      return new SafetyPolicy(validateConfig(parsed ?? {}), file);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid safety policy ${file}: ${message}`);
+    }
+  }
+
+  /**
+   * Check a tool call against the policy.
+   * @param toScreen Maps the model's coordinates to native screen pixels
+   * @param cursor Pointer position in native screen pixels, checked for
+   *   pointer actions without coordinates (see actsAtCursor)
+   */
+  check(
+    name: string,
+    input: Record<string, unknown>,
+    toScreen: (point: Point) => Point = (point) => point,
+    cursor?: Point
+  ): SafetyViolation | null {
+    switch (name) {
+      case "launch_app":
+        return this.checkApp(String(input.app));
+      case "key":
+        return this.checkKey(String(input.key));
+      case "type":
+        return this.checkText(String(input.text));
+      default: {
+        const points = pointsOf(input).map(toScreen);
+        if (cursor && points.length === 0 && POINTER_TOOLS.has(name)) {
+          points.push(cursor);
+        }
+        return this.checkRegions(points);
+      }
+    }
+  }
+
+  /**
+   * Whether the call acts at the current pointer position, which check()
+   * then needs to enforce the policy's regions
+   */
+  actsAtCursor(name: string, input: Record<string, unknown>): boolean {
+    const { allow, deny } = this.config.regions ?? {};
+    return (
+      (allow !== undefined || (deny?.length ?? 0) > 0) &&
+      POINTER_TOOLS.has(name) &&
+      pointsOf(input).length === 0
+    );
+  }
+
+  /**
+   * Narrow the launch_app enum to the apps the policy allows, so the model
+   * is only offered (and validation only accepts) apps it may launch
+   */
+  applyToTool(tool: ToolDefinition): ToolDefinition {
+    const app = tool.input_schema.properties.app;
+    if (tool.name !== "launch_app" || !app) {
+      return tool;
+    }
+
+    const apps = (this.config.apps?.allow ?? app.enum ?? []).filter(
+      (name) => !this.checkApp(name)
+    );
+    return {
+      ...tool,
+      input_schema: {
+        ...tool.input_schema,
+        properties: {
+          ...tool.input_schema.properties,
+          app: { ...app, enum: apps },
+        },
+      },
+    };
+  }
+
+  private checkApp(app: string): SafetyViolation | null {
+    const { allow, deny } = this.config.apps ?? {};
+    if (deny?.includes(app)) {
+      return { rule: "apps", reason: `app "${app}" is denied` };
+    }
+    if (allow && !allow.includes(app)) {
+      return { rule: "apps", reason: `app "${app}" is not in the allow list` };
+    }
+    return null;
+  }
+
+  private checkKey(key: string): SafetyViolation | null {
+    let keysym: string;
+    try {
+      keysym = toKeysym(key);
+    } catch {
+      // Unknown keys are rejected with a suggestion by the key tool itself
+      return null;
+    }
+
+    if (this.deniedKeys.has(keysym)) {
+      return { rule: "keys", reason: `key combo "${keysym}" is denied` };
+    }
+    if (this.allowedKeys && !this.allowedKeys.has(keysym)) {
+      return {
+        rule: "keys",
+        reason: `key combo "${keysym}" is not in the allow list`,
+      };
+    }
+    return null;
+  }
+
+  private checkText(text: string): SafetyViolation | null {
+    const denied = this.deniedText.find(({ regex }) => regex.test(text));
+    if (denied) {
+      return { rule: "text", reason: `typed text ${denied.reason}` };
+    }
+    if (
+      this.allowedText &&
+      !this.allowedText.some(({ regex }) => regex.test(text))
+    ) {
+      return {
+        rule: "text",
+        reason: "typed text does not match any allowed pattern",
+      };
+    }
+    return null;
+  }
+
+  private checkRegions(points: Point[]): SafetyViolation | null {
+    const { allow, deny } = this.config.regions ?? {};
+    for (const point of points) {
+      const denied = deny?.find((region) => inRegion(point, region));
+      if (denied) {
+        return {
+          rule: "regions",
+          reason: `(${point.x}, ${point.y}) is in denied region ${describeRegion(denied)}`,
+        };
+      }
+      if (allow && !allow.some((region) => inRegion(point, region))) {
+        return {
+          rule: "regions",
+          reason: `(${point.x}, ${point.y}) is outside the allowed regions`,
+        };
+      }
+    }
+    return null;
+  }
+}
+
+function validateConfig(value: unknown): SafetyPolicyConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("expected an object with apps, keys, text or regions");
+  }
+
+  const config = value as Record<string, unknown>;
+  for (const [section, rules] of Object.entries(config)) {
+    if (!["apps", "keys", "text", "regions"].includes(section)) {
+      throw new Error(`unknown section "${section}"`);
+    }
+    if (typeof rules !== "object" || rules === null) {
+      throw new Error(`${section} must be an object with allow and/or deny`);
+    }
+    for (const [list, entries] of Object.entries(rules)) {
+      if (list !== "allow" && list !== "deny") {
+        throw new Error(`${section}.${list} must be "allow" or "deny"`);
+      }
+      if (!Array.isArray(entries)) {
+        throw new Error(`${section}.${list} must be a list`);
+      }
+      entries.forEach((entry, i) =>
+        validateEntry(section, entry, `${section}.${list}[${i}]`)
+      );
+    }
+  }
+  return config as SafetyPolicyConfig;
+}
+
+function validateEntry(section: string, entry: unknown, at: string): void {
+  const record = entry as Record<string, unknown>;
+  switch (section) {
+    case "apps":
+    case "keys":
+      if (typeof entry !== "string") {
+        throw new Error(`${at} must be a string`);
+      }
+      return;
+    case "text":
+      if (typeof entry !== "string" && typeof record?.pattern !== "string") {
+        throw new Error(`${at} must be a regex string or { pattern, reason }`);
+      }
+      return;
+    case "regions":
+      for (const key of ["x", "y", "width", "height"]) {
+        if (typeof record?.[key] !== "number") {
+          throw new Error(`${at}.${key} must be a number`);
+        }
+      }
+      return;
+  }
+}
+
+/**
+ * Load the policy named by CONFIG.safety.policyFile. Without a file every
+ * action is allowed.
+ */
+export function loadSafetyPolicy(
+  file: string | undefined = CONFIG.safety.policyFile
+): SafetyPolicy {
+  return file ? SafetyPolicy.load(file) : new SafetyPolicy();
+}
+
+export default SafetyPolicy;
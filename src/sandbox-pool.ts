@@ -0,0 +1,232 @@
+/**
+ * Sandbox Pool
+ * Provisions up to `size` desktops and leases them to runs, so a batch of
+ * tasks can share a fixed number of sandboxes. A lease waits while every
+ * desktop is busy; a released desktop is killed and replaced for the next
+ * lease, or handed over as is when the pool recycles.
+ */
+
+import CONFIG from "./config.js";
+import {
+  createDesktopBackend,
+  type DesktopBackend,
+} from "./desktop-backend.js";
+
+export interface SandboxPoolOptions {
+  /** Most desktops alive at once, and so most concurrent leases */
+  size?: number;
+  /**
+   * Hand a released desktop to the next lease instead of killing it. Faster,
+   * but the next task starts on whatever the previous one left on screen.
+   */
+  recycle?: boolean;
+  /**
+   * Create the desktop for a slot (0 to size - 1). Defaults to
+   * CONFIG.desktop.backend, with one display per slot for local desktops.
+   */
+  create?: (slot: number) => Promise<DesktopBackend>;
+}
+
+export interface SandboxPoolStats {
+  size: number;
+  idle: number;
+  leased: number;
+  /** Leases waiting for a desktop */
+  waiting: number;
+}
+
+interface Waiter {
+  resolve: (desktop: DesktopBackend) => void;
+  reject: (error: Error) => void;
+}
+
+export class SandboxPool {
+  readonly size: number;
+  private recycle: boolean;
+  private create: (slot: number) => Promise<DesktopBackend>;
+  private free: number[];
+  private idle: Array<{ slot: number; desktop: DesktopBackend }> = [];
+  private leased = new Map<DesktopBackend, number>();
+  private waiting: Waiter[] = [];
+  private closed = false;
+
+  constructor(options: SandboxPoolOptions = {}) {
+    this.size = options.size ?? CONFIG.pool.size;
+    if (!Number.isInteger(this.size) || this.size < 1) {
+      throw new Error(`Pool size must be a positive integer, got ${this.size}`);
+    }
+    this.recycle = options.recycle ?? CONFIG.pool.recycle;
+    this.create = options.create ?? createSlotDesktop;
+    this.free = Array.from({ length: this.size }, (_, slot) => slot);
+  }
+
+  get stats(): SandboxPoolStats {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      leased: this.leased.size,
+      waiting: this.waiting.length,
+    };
+  }
+
+  /**
+   * Create desktops ahead of the first leases, in parallel
+   *
+   * @returns How many were created
+   */
+  async provision(count = this.size): Promise<number> {
+    const slots = this.free.splice(0, count);
+    const created = await Promise.allSettled(
+      slots.map(async (slot) => {
+        const desktop = await this.create(slot);
+        this.idle.push({ slot, desktop });
+        console.log(`✓ Pool desktop ${slot + 1}/${this.size}: ${desktop.id}`);
+      })
+    );
+
+    created.forEach((outcome, index) => {
+      if (outcome.status === "rejected") {
+        console.error(
+          `Failed to provision pool desktop ${slots[index] + 1}:`,
+          outcome.reason
+        );
+        this.fill(slots[index]);
+      }
+    });
+    return created.filter((outcome) => outcome.status === "fulfilled").length;
+  }
+
+  /**
+   * Lease a desktop: an idle one, a new one while the pool is below its
+   * size, or else the next one released
+   */
+  async acquire(): Promise<DesktopBackend> {
+    if (this.closed) {
+      throw new Error("Sandbox pool is closed");
+    }
+
+    const ready = this.idle.shift();
+    if (ready) {
+      this.leased.set(ready.desktop, ready.slot);
+      return ready.desktop;
+    }
+    const slot = this.free.shift();
+    if (slot !== undefined) {
+      return this.lease(slot);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Return a leased desktop. It is killed unless the pool recycles, and
+   * always when `kill` is set, e.g. after a failed run.
+   */
+  async release(
+    desktop: DesktopBackend,
+    options: { kill?: boolean } = {}
+  ): Promise<void> {
+    const slot = this.leased.get(desktop);
+    if (slot === undefined) {
+      throw new Error(`Desktop ${desktop.id} is not leased from this pool`);
+    }
+    this.leased.delete(desktop);
+
+    if (this.recycle && !options.kill && !this.closed) {
+      const waiter = this.waiting.shift();
+      if (waiter) {
+        this.leased.set(desktop, slot);
+        waiter.resolve(desktop);
+      } else {
+        this.idle.push({ slot, desktop });
+      }
+      return;
+    }
+
+    await killDesktop(desktop);
+    this.fill(slot);
+  }
+
+  /**
+   * Run `task` on a leased desktop and release it afterwards, killing it if
+   * the task throws
+   */
+  async use<T>(task: (desktop: DesktopBackend) => Promise<T>): Promise<T> {
+    const desktop = await this.acquire();
+    let failed = false;
+    try {
+      return await task(desktop);
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      await this.release(desktop, { kill: failed });
+    }
+  }
+
+  /**
+   * Kill the idle desktops and fail waiting leases. Leased desktops are
+   * killed when they are released.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(new Error("Sandbox pool is closed"));
+    }
+    const idle = this.idle.splice(0);
+    await Promise.all(idle.map(({ desktop }) => killDesktop(desktop)));
+  }
+
+  private async lease(slot: number): Promise<DesktopBackend> {
+    let desktop: DesktopBackend;
+    try {
+      desktop = await this.create(slot);
+    } catch (error) {
+      this.fill(slot);
+      throw error;
+    }
+    this.leased.set(desktop, slot);
+    return desktop;
+  }
+
+  /**
+   * Give a slot without a desktop to the next waiting lease, or keep it free
+   */
+  private fill(slot: number): void {
+    const waiter = this.closed ? undefined : this.waiting.shift();
+    if (waiter) {
+      this.lease(slot).then(waiter.resolve, waiter.reject);
+    } else {
+      this.free.push(slot);
+    }
+  }
+}
+
+/**
+ * Desktop of the configured backend for a pool slot. Local desktops get a
+ * display (and VNC ports) of their own, counting up from the configured one.
+ */
+async function createSlotDesktop(slot: number): Promise<DesktopBackend> {
+  if (CONFIG.desktop.backend !== "local") {
+    return createDesktopBackend();
+  }
+
+  const { LocalDesktopBackend } = await import("./local-desktop-backend.js");
+  const { display, vnc } = CONFIG.desktop.local;
+  return LocalDesktopBackend.create({
+    ...CONFIG.desktop.local,
+    display: `:${Number(display.slice(1)) + slot}`,
+    vnc: { ...vnc, port: vnc.port + slot, webPort: vnc.webPort + slot },
+  });
+}
+
+async function killDesktop(desktop: DesktopBackend): Promise<void> {
+  try {
+    await desktop.kill();
+  } catch (error) {
+    console.error(`Failed to kill desktop ${desktop.id}:`, error);
+  }
+}
+
+export default SandboxPool;
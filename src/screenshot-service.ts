@@ -0,0 +1,158 @@
+/**
+ * Screenshot Service
+ * Captures the desktop, encodes it as PNG/JPEG/WebP, downsamples it to the
+ * configured target resolution and maps coordinates between the image the
+ * model sees and native screen space
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import { promises as fs } from "fs";
+import sharp from "sharp";
+import CONFIG from "./config.js";
+import type { DesktopBackend, Point } from "./desktop-backend.js";
+
+export type ScreenshotFormat = "png" | "jpeg" | "webp";
+
+export type ScreenshotMediaType = "image/png" | "image/jpeg" | "image/webp";
+
+export interface ScreenshotServiceOptions {
+  format: ScreenshotFormat;
+  /** Screenshots are scaled down to fit within this size (never scaled up) */
+  targetWidth: number;
+  targetHeight: number;
+  /** Encoder quality for JPEG and WebP (1-100) */
+  quality: number;
+  /** Delay before capturing, so animations and redraws can settle */
+  settleMs: number;
+}
+
+export interface Screenshot {
+  buffer: Buffer;
+  base64: string;
+  format: ScreenshotFormat;
+  mediaType: ScreenshotMediaType;
+  /** Size of the encoded image */
+  width: number;
+  height: number;
+  /** Size of the screen it was captured from */
+  nativeWidth: number;
+  nativeHeight: number;
+  timestamp: number;
+}
+
+const MEDIA_TYPES: Record<ScreenshotFormat, ScreenshotMediaType> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+export class ScreenshotService {
+  private options: ScreenshotServiceOptions;
+  private scaleX = 1;
+  private scaleY = 1;
+
+  constructor(
+    private backend: DesktopBackend,
+    options: Partial<ScreenshotServiceOptions> = {}
+  ) {
+    this.options = {
+      format: CONFIG.desktop.screenshotFormat,
+      targetWidth: CONFIG.desktop.screenshotTargetWidth,
+      targetHeight: CONFIG.desktop.screenshotTargetHeight,
+      quality: CONFIG.desktop.screenshotQuality,
+      settleMs: CONFIG.desktop.screenshotWaitMs,
+      ...options,
+    };
+  }
+
+  /**
+   * Capture, downsample and encode the current screen. The scale of the
+   * returned image is remembered so later coordinates can be mapped back.
+   */
+  async capture(options: { settle?: boolean } = {}): Promise<Screenshot> {
+    const { settle = true } = options;
+    if (settle && this.options.settleMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.options.settleMs));
+    }
+
+    const path = await this.backend.screenshot();
+    const raw = await fs
+      .readFile(path)
+      .finally(() => fs.rm(path, { force: true }));
+    const metadata = await sharp(raw).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error(`Could not read screenshot dimensions from ${path}`);
+    }
+
+    let image = sharp(raw).resize({
+      width: this.options.targetWidth,
+      height: this.options.targetHeight,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+    switch (this.options.format) {
+      case "jpeg":
+        image = image.jpeg({ quality: this.options.quality });
+        break;
+      case "webp":
+        image = image.webp({ quality: this.options.quality });
+        break;
+      default:
+        image = image.png();
+    }
+
+    const { data, info } = await image.toBuffer({ resolveWithObject: true });
+
+    this.scaleX = metadata.width / info.width;
+    this.scaleY = metadata.height / info.height;
+
+    return {
+      buffer: data,
+      base64: data.toString("base64"),
+      format: this.options.format,
+      mediaType: MEDIA_TYPES[this.options.format],
+      width: info.width,
+      height: info.height,
+      nativeWidth: metadata.width,
+      nativeHeight: metadata.height,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Map a point in the last screenshot's coordinate space to native screen
+   * coordinates
+   */
+  toScreen(point: Point): Point {
+    return {
+      x: Math.round(point.x * this.scaleX),
+      y: Math.round(point.y * this.scaleY),
+    };
+  }
+
+  /**
+   * Map a native screen point into the last screenshot's coordinate space
+   */
+  toImage(point: Point): Point {
+    return {
+      x: Math.round(point.x / this.scaleX),
+      y: Math.round(point.y / this.scaleY),
+    };
+  }
+}
+
+/**
+ * Build a Messages API image block from a screenshot
+ */
+export function toImageBlock(screenshot: Screenshot): Anthropic.ImageBlockParam {
+  return {
+    type: "image",
+    source: {
+      type: "base64",
+      media_type: screenshot.mediaType,
+      data: screenshot.base64,
+    },
+  };
+}
+
+export default ScreenshotService;
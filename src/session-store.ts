@@ -0,0 +1,246 @@
+/**
+ * Session Store
+ * Persists agent state (desktop, conversation history, step count and the
+ * config it ran with) so a run can be paused and resumed later, even from
+ * a new process. Each session is one JSON file:
+ *
+ *   <sessionDir>/<runId>.json
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import fs from "fs";
+import path from "path";
+import type { AgentLoopHooks } from "./agent-loop.js";
+import CONFIG, { providerEndpoint } from "./config.js";
+import {
+  connectDesktopBackend,
+  type DesktopBackend,
+  type DesktopBackendKind,
+} from "./desktop-backend.js";
+import type {
+  ModelProviderConfig,
+  ModelProviderKind,
+} from "./model-provider.js";
+import { createRunId } from "./trajectory.js";
+
+/**
+ * running - a process is working on it (or died while doing so)
+ * paused - stopped with Ctrl+C, desktop kept alive for resume
+ * completed - the model finished its last instruction
+ * cancelled - stopped for good, desktop killed
+ * failed - the last run threw
+ */
+export type SessionStatus =
+  | "running"
+  | "paused"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+export interface AgentSession {
+  runId: string;
+  status: SessionStatus;
+  /** First instruction of the session */
+  task: string;
+  /**
+   * `owned` is false for a local display the agent attached to instead of
+   * starting; cancelling the session leaves it running
+   */
+  desktop: { kind: DesktopBackendKind; id: string; owned?: boolean };
+  history: Anthropic.MessageParam[];
+  /** Model calls made over the whole session */
+  steps: number;
+  /** Model calls made for the latest instruction, limited by maxSteps */
+  taskSteps?: number;
+  /** Settings the session ran with (never includes API keys) */
+  config: {
+    provider: string;
+    model: string;
+    maxSteps: number;
+  };
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class SessionStore {
+  readonly dir: string;
+
+  constructor(dir: string = CONFIG.agent.sessionDir) {
+    this.dir = path.resolve(dir);
+  }
+
+  /**
+   * Start a new session for the given instruction and save it
+   */
+  create(
+    task: string,
+    desktop: AgentSession["desktop"],
+    config: AgentSession["config"]
+  ): AgentSession {
+    const now = new Date().toISOString();
+    const session: AgentSession = {
+      runId: createRunId(),
+      status: "running",
+      task,
+      desktop,
+      history: [],
+      steps: 0,
+      taskSteps: 0,
+      config,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.save(session);
+    return session;
+  }
+
+  /**
+   * Write the session to disk. The file is replaced atomically, so a crash
+   * mid-write leaves the previous state intact.
+   */
+  save(session: AgentSession): void {
+    session.updatedAt = new Date().toISOString();
+    fs.mkdirSync(this.dir, { recursive: true });
+    const file = this.file(session.runId);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(session));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  load(runId: string): AgentSession {
+    const file = this.file(runId);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No saved session ${runId} in ${this.dir}`);
+    }
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as AgentSession;
+  }
+
+  /**
+   * All saved sessions, most recently updated first
+   */
+  list(): AgentSession[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.dir)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => this.load(path.basename(name, ".json")))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Agent loop hooks that count steps and save the session after each one
+   */
+  hooks(session: AgentSession): AgentLoopHooks {
+    return {
+      onStepComplete: () => {
+        session.steps++;
+        session.taskSteps = (session.taskSteps ?? 0) + 1;
+        this.save(session);
+      },
+    };
+  }
+
+  private file(runId: string): string {
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new Error(`Invalid run ID: ${runId}`);
+    }
+    return path.join(this.dir, `${runId}.json`);
+  }
+}
+
+/**
+ * Load a saved session and reconnect to the desktop it ran on. `model` is
+ * the model the session ran with, to continue it on.
+ */
+export async function reconnectSession(
+  runId: string,
+  store = new SessionStore()
+): Promise<{
+  session: AgentSession;
+  backend: DesktopBackend;
+  model: ModelProviderConfig;
+}> {
+  const session = store.load(runId);
+  if (session.status === "cancelled") {
+    throw new Error(`Session ${runId} was cancelled`);
+  }
+
+  console.log(
+    `🔄 Reconnecting to ${session.desktop.kind} desktop ${session.desktop.id}...`
+  );
+  const backend = await connectDesktopBackend(
+    session.desktop.kind,
+    session.desktop.id,
+    session.desktop.owned !== false
+  );
+  await keepForResume(backend);
+  return { session, backend, model: sessionModel(session) };
+}
+
+/**
+ * Model a session ran with. The configured endpoint is reused when the
+ * provider is still the configured one; otherwise the provider's own API.
+ */
+export function sessionModel(session: AgentSession): ModelProviderConfig {
+  const provider = session.config.provider as ModelProviderKind;
+  return provider === CONFIG.model.provider
+    ? { ...CONFIG.model, name: session.config.model }
+    : { provider, name: session.config.model, ...providerEndpoint(provider) };
+}
+
+/**
+ * Steps the session's latest instruction has left, so a resumed run does
+ * not start over with a full maxSteps
+ */
+export function remainingSteps(session: AgentSession): number {
+  const used = session.taskSteps ?? session.steps;
+  return Math.max(0, session.config.maxSteps - used);
+}
+
+/**
+ * Keep the desktop of a paused or resumed session for
+ * CONFIG.e2b.pausedTimeoutMs; E2B sandboxes otherwise time out before
+ * anyone resumes them
+ */
+export async function keepForResume(desktop: DesktopBackend): Promise<void> {
+  try {
+    await desktop.keepAlive?.(CONFIG.e2b.pausedTimeoutMs);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️  Could not keep desktop ${desktop.id} alive: ${message}`);
+  }
+}
+
+/**
+ * Call `pause` on Ctrl+C and exit at once on a second Ctrl+C. Sessions are
+ * saved after every step, so even then the run can be resumed from the
+ * last completed step. Returns a function that removes the handler.
+ */
+export function onInterrupt(pause: () => void): () => void {
+  let interrupted = false;
+  const handler = () => {
+    if (interrupted) {
+      console.log("\n⏹️  Exiting; resume continues from the last completed step");
+      process.exit(130);
+    }
+    interrupted = true;
+    console.log(
+      "\n⏸️  Pausing after the current step (Ctrl+C again to exit now)..."
+    );
+    pause();
+  };
+  process.on("SIGINT", handler);
+  return () => process.off("SIGINT", handler);
+}
+
+/**
+ * Whether the session has work left: the last message is an instruction or
+ * a batch of tool results the model has not answered yet
+ */
+export function hasPendingWork(session: AgentSession): boolean {
+  return session.history.at(-1)?.role === "user";
+}
+
+export default SessionStore;
@@ -0,0 +1,132 @@
+/**
+ * Session Commands
+ * List saved sessions, resume a paused (or crashed) one on its original
+ * desktop, or cancel one and kill its desktop.
+ *
+ * Usage:
+ *   npm run sessions                          # list
+ *   npm run resume -- <runId> ["next instruction"]
+ *   npm run sessions -- cancel <runId>
+ */
+
+import { pathToFileURL } from "url";
+import {
+  connectDesktopBackend,
+  terminateDesktop,
+} from "./desktop-backend.js";
+import { ComputerUseAgent } from "./index.js";
+import {
+  SessionStore,
+  hasPendingWork,
+  onInterrupt,
+  type AgentSession,
+} from "./session-store.js";
+
+function describeSession(session: AgentSession): string {
+  const pending = hasPendingWork(session) ? " (work pending)" : "";
+  return (
+    `${session.runId}  ${session.status}${pending}  ${session.steps} steps  ` +
+    `${session.desktop.kind}:${session.desktop.id}\n    ${session.task}`
+  );
+}
+
+/**
+ * Print all saved sessions, most recent first
+ */
+export function listSessions(store = new SessionStore()): AgentSession[] {
+  const sessions = store.list();
+  if (sessions.length === 0) {
+    console.log(`No saved sessions in ${store.dir}`);
+  }
+  for (const session of sessions) {
+    console.log(describeSession(session));
+  }
+  return sessions;
+}
+
+/**
+ * Reconnect to a session's desktop and continue it; with an instruction,
+ * send that afterwards as the next turn
+ */
+export async function resumeSession(
+  runId: string,
+  instruction?: string
+): Promise<void> {
+  const agent = await ComputerUseAgent.resume(runId);
+  const removeHandler = onInterrupt(() => agent.pause());
+
+  try {
+    await agent.initialize();
+    await agent.continue();
+    if (instruction && !agent.paused) {
+      await agent.chat(instruction);
+    }
+  } finally {
+    removeHandler();
+    await agent.cleanup();
+  }
+}
+
+/**
+ * Mark a session cancelled and kill its desktop if it is still running
+ */
+export async function cancelSession(
+  runId: string,
+  store = new SessionStore()
+): Promise<void> {
+  const session = store.load(runId);
+
+  try {
+    const desktop = await connectDesktopBackend(
+      session.desktop.kind,
+      session.desktop.id,
+      session.desktop.owned !== false
+    );
+    await terminateDesktop(desktop);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️  Could not reach desktop ${session.desktop.id}: ${errorMessage}`);
+  }
+
+  session.status = "cancelled";
+  store.save(session);
+  console.log(`✓ Session ${runId} cancelled`);
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const [command = "list", runId, ...rest] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case "list":
+        listSessions();
+        break;
+      case "resume":
+      case "cancel":
+        if (!runId) {
+          throw new Error(`Usage: npm run sessions -- ${command} <runId>`);
+        }
+        if (command === "resume") {
+          await resumeSession(runId, rest.join(" ") || undefined);
+        } else {
+          await cancelSession(runId);
+        }
+        break;
+      default:
+        throw new Error(
+          `Unknown command "${command}". Use list, resume <runId> or cancel <runId>`
+        );
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error("Session command failed:", error);
+    process.exit(1);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
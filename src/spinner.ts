@@ -0,0 +1,90 @@
+/**
+ * Spinner
+ * Single-line progress indicator for the terminal, shown while tools run.
+ * Other output can be printed in between by suspending it; nothing is drawn
+ * when the output is not a TTY.
+ */
+
+const FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+
+export interface SpinnerOutput {
+  isTTY?: boolean;
+  write(text: string): unknown;
+}
+
+export class Spinner {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private label = "";
+  private frame = 0;
+  private startedAt = 0;
+  private suspended = false;
+  private drawn = false;
+
+  constructor(
+    private output: SpinnerOutput = process.stdout,
+    private intervalMs = 80
+  ) {}
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Show the spinner with a label, e.g. "Running click"
+   */
+  start(label: string): void {
+    this.label = label;
+    this.startedAt = Date.now();
+    if (!this.output.isTTY || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.render(), this.intervalMs);
+    this.render();
+  }
+
+  /**
+   * Hide the spinner and stop animating it
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.clear();
+  }
+
+  /**
+   * Clear the line so other output can be printed; the spinner stays
+   * hidden until resume()
+   */
+  suspend(): void {
+    this.suspended = true;
+    this.clear();
+  }
+
+  resume(): void {
+    this.suspended = false;
+    if (this.timer) {
+      this.render();
+    }
+  }
+
+  private render(): void {
+    if (this.suspended) {
+      return;
+    }
+    const frame = FRAMES[this.frame++ % FRAMES.length];
+    const seconds = ((Date.now() - this.startedAt) / 1000).toFixed(1);
+    this.output.write(`\r\x1b[K  ${frame} ${this.label} (${seconds}s)`);
+    this.drawn = true;
+  }
+
+  private clear(): void {
+    if (this.drawn) {
+      this.output.write("\r\x1b[K");
+      this.drawn = false;
+    }
+  }
+}
+
+export default Spinner;
@@ -0,0 +1,232 @@
+/**
+ * Tool Registry
+ * Pairs each tool schema from COMPUTER_TOOLS with a handler that delegates to
+ * DesktopController, validates model input and dispatches tool calls
+ */
+
+import type { ToolResultContent } from "./agent-loop.js";
+import CONFIG from "./config.js";
+import type { MouseButton, Point, ScrollDirection } from "./desktop-backend.js";
+import { DesktopController } from "./desktop-controller.js";
+import type { SafetyPolicy } from "./safety-policy.js";
+import { toImageBlock } from "./screenshot-service.js";
+import {
+  COMPUTER_TOOLS,
+  validateToolInput,
+  type ToolDefinition,
+} from "./tools.js";
+
+export type ToolHandler = (
+  input: Record<string, unknown>,
+  controller: DesktopController
+) => Promise<ToolResultContent>;
+
+interface RegisteredTool {
+  definition: ToolDefinition;
+  handler: ToolHandler;
+}
+
+const OK = JSON.stringify({ success: true });
+
+/**
+ * Map a point from screenshot space (what the model sees) to native screen
+ * coordinates
+ */
+function toScreen(controller: DesktopController, x: unknown, y: unknown): Point {
+  return controller.screenshots.toScreen({ x: x as number, y: y as number });
+}
+
+/**
+ * Read optional x/y coordinates from tool input; both must be present
+ */
+function optionalPoint(
+  input: Record<string, unknown>,
+  controller: DesktopController
+): Point | undefined {
+  if (typeof input.x === "number" && typeof input.y === "number") {
+    return toScreen(controller, input.x, input.y);
+  }
+  return undefined;
+}
+
+/**
+ * Handlers for the built-in computer tools, keyed by tool name
+ */
+export const COMPUTER_TOOL_HANDLERS: Record<string, ToolHandler> = {
+  screenshot: async (_input, controller) => {
+    const screenshot = await controller.takeScreenshot();
+    return [toImageBlock(screenshot)];
+  },
+
+  click: async (input, controller) => {
+    await controller.click({
+      ...toScreen(controller, input.x, input.y),
+      button: input.button as MouseButton | undefined,
+      doubleClick: input.doubleClick as boolean | undefined,
+    });
+    return OK;
+  },
+
+  mouse_move: async (input, controller) => {
+    const { x, y } = toScreen(controller, input.x, input.y);
+    await controller.moveMouse(x, y);
+    return OK;
+  },
+
+  left_mouse_down: async (input, controller) => {
+    await controller.mouseDown("left", optionalPoint(input, controller));
+    return OK;
+  },
+
+  left_mouse_up: async (input, controller) => {
+    await controller.mouseUp("left", optionalPoint(input, controller));
+    return OK;
+  },
+
+  drag: async (input, controller) => {
+    const from = toScreen(controller, input.fromX, input.fromY);
+    const to = toScreen(controller, input.toX, input.toY);
+    const path = (input.path as Point[] | undefined)?.map((point) =>
+      toScreen(controller, point.x, point.y)
+    );
+    await controller.drag(from.x, from.y, to.x, to.y, { path });
+    return OK;
+  },
+
+  type: async (input, controller) => {
+    await controller.type(input.text as string);
+    return OK;
+  },
+
+  key: async (input, controller) => {
+    await controller.pressKey(input.key as string);
+    return OK;
+  },
+
+  scroll: async (input, controller) => {
+    await controller.scroll(
+      input.direction as ScrollDirection,
+      (input.amount as number | undefined) ?? 3,
+      optionalPoint(input, controller)
+    );
+    return OK;
+  },
+
+  cursor_position: async (_input, controller) => {
+    const position = await controller.getMousePosition();
+    return JSON.stringify(controller.screenshots.toImage(position));
+  },
+
+  launch_app: async (input, controller) => {
+    await controller.launchApp(
+      input.app as string,
+      CONFIG.desktop.appLaunchWaitMs
+    );
+    return OK;
+  },
+
+  wait: async (input, controller) => {
+    await controller.wait(input.duration as number);
+    return OK;
+  },
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  /**
+   * @param policy Safety policy checked before every tool call; it also
+   *   narrows the schemas of registered tools (e.g. the launch_app enum)
+   */
+  constructor(
+    private controller: DesktopController,
+    private policy?: SafetyPolicy
+  ) {}
+
+  /**
+   * Register a tool schema together with its handler
+   */
+  register(definition: ToolDefinition, handler: ToolHandler): this {
+    this.tools.set(definition.name, {
+      definition: this.policy?.applyToTool(definition) ?? definition,
+      handler,
+    });
+    return this;
+  }
+
+  /**
+   * Whether a tool with the given name is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Schemas of all registered tools, in the shape the Messages API expects
+   */
+  getDefinitions(): ToolDefinition[] {
+    return [...this.tools.values()].map((tool) => tool.definition);
+  }
+
+  /**
+   * Check the input against the safety policy, validate it and run the
+   * matching handler. Throws on unknown tools, policy violations and invalid
+   * input so the agent loop can report the problem back to the model as a
+   * tool_result error. The policy goes first so that a call it forbids is
+   * always logged as a violation, e.g. an app the narrowed launch_app enum
+   * would otherwise reject as invalid.
+   */
+  async execute(
+    name: string,
+    input: Record<string, unknown>
+  ): Promise<ToolResultContent> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const cursor = this.policy?.actsAtCursor(name, input)
+      ? await this.controller.getMousePosition()
+      : undefined;
+    const violation = this.policy?.check(
+      name,
+      input,
+      (point) => this.controller.screenshots.toScreen(point),
+      cursor
+    );
+    if (violation) {
+      console.warn(
+        `🛡️  Safety policy blocked ${name} (${violation.rule}): ${violation.reason}`
+      );
+      throw new Error(`Blocked by safety policy: ${violation.reason}`);
+    }
+
+    const errors = validateToolInput(tool.definition, input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid input for ${name}: ${errors.join("; ")}`);
+    }
+
+    return tool.handler(input, this.controller);
+  }
+}
+
+/**
+ * Create a registry containing every tool in COMPUTER_TOOLS, optionally
+ * restricted by a safety policy
+ */
+export function createComputerToolRegistry(
+  controller: DesktopController,
+  policy?: SafetyPolicy
+): ToolRegistry {
+  const registry = new ToolRegistry(controller, policy);
+  for (const definition of COMPUTER_TOOLS) {
+    const handler = COMPUTER_TOOL_HANDLERS[definition.name];
+    if (!handler) {
+      throw new Error(`No handler registered for tool: ${definition.name}`);
+    }
+    registry.register(definition, handler);
+  }
+  return registry;
+}
+
+export default ToolRegistry;
@@ -2,7 +2,26 @@
  * Tool Definitions for Computer Use Agent
  */
 
-export const COMPUTER_TOOLS = [
+export interface ToolInputProperty {
+  type: "string" | "number" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: string[];
+  items?: ToolInputProperty;
+  properties?: Record<string, ToolInputProperty>;
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: "object";
+    properties: Record<string, ToolInputProperty>;
+    required: string[];
+  };
+}
+
+export const COMPUTER_TOOLS: ToolDefinition[] = [
   {
     name: "screenshot",
     description: "Take a screenshot of the current desktop to see what is on the screen",
@@ -56,37 +75,152 @@ export const COMPUTER_TOOLS = [
   {
     name: "key",
     description:
-      "Press a keyboard key. Common keys: Return, Tab, Escape, Delete, Backspace, End, Home, Page_Up, Page_Down, etc.",
+      'Press a key or key combination. Grammar: [modifier+]*key, where modifier is ctrl, alt, shift or super and key is a single character or an X keysym name such as Return, Tab, Escape, BackSpace, Delete, Home, End, Page_Up, Page_Down, Up, Down, Left, Right, space or F1-F24. Examples: "Return", "ctrl+a", "ctrl+shift+t", "alt+F4", "super". Common aliases (enter, esc, pgdn) are accepted; unknown key names are rejected.',
     input_schema: {
       type: "object",
       properties: {
         key: {
           type: "string",
-          description: "The key to press (e.g., 'Return', 'Tab', 'Escape')",
+          description:
+            "The key or chord to press (e.g., 'Return', 'ctrl+l', 'ctrl+shift+t')",
         },
       },
       required: ["key"],
     },
   },
+  {
+    name: "mouse_move",
+    description: "Move the mouse pointer to the specified coordinates without clicking (e.g. to reveal hover menus or tooltips)",
+    input_schema: {
+      type: "object",
+      properties: {
+        x: {
+          type: "number",
+          description: "The x coordinate to move to",
+        },
+        y: {
+          type: "number",
+          description: "The y coordinate to move to",
+        },
+      },
+      required: ["x", "y"],
+    },
+  },
+  {
+    name: "left_mouse_down",
+    description:
+      "Press and hold the left mouse button, optionally at the specified coordinates. Release it with left_mouse_up",
+    input_schema: {
+      type: "object",
+      properties: {
+        x: {
+          type: "number",
+          description: "The x coordinate to press at (default: current position)",
+        },
+        y: {
+          type: "number",
+          description: "The y coordinate to press at (default: current position)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "left_mouse_up",
+    description:
+      "Release the left mouse button, optionally after moving to the specified coordinates",
+    input_schema: {
+      type: "object",
+      properties: {
+        x: {
+          type: "number",
+          description: "The x coordinate to release at (default: current position)",
+        },
+        y: {
+          type: "number",
+          description: "The y coordinate to release at (default: current position)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "drag",
+    description:
+      "Drag with the left mouse button held down from one point to another, e.g. to move sliders, select text or draw on a canvas",
+    input_schema: {
+      type: "object",
+      properties: {
+        fromX: {
+          type: "number",
+          description: "The x coordinate to start the drag at",
+        },
+        fromY: {
+          type: "number",
+          description: "The y coordinate to start the drag at",
+        },
+        toX: {
+          type: "number",
+          description: "The x coordinate to end the drag at",
+        },
+        toY: {
+          type: "number",
+          description: "The y coordinate to end the drag at",
+        },
+        path: {
+          type: "array",
+          description:
+            "Optional intermediate points to pass through between start and end",
+          items: {
+            type: "object",
+            properties: {
+              x: { type: "number" },
+              y: { type: "number" },
+            },
+            required: ["x", "y"],
+          },
+        },
+      },
+      required: ["fromX", "fromY", "toX", "toY"],
+    },
+  },
   {
     name: "scroll",
-    description: "Scroll the screen up or down",
+    description:
+      "Scroll with the mouse wheel, optionally at specific coordinates (the element under the pointer receives the scroll)",
     input_schema: {
       type: "object",
       properties: {
         direction: {
           type: "string",
-          enum: ["up", "down"],
+          enum: ["up", "down", "left", "right"],
           description: "The direction to scroll",
         },
         amount: {
           type: "number",
-          description: "How many times to scroll (default: 3)",
+          description: "How many wheel clicks to scroll (default: 3)",
+        },
+        x: {
+          type: "number",
+          description: "The x coordinate to scroll at (default: current position)",
+        },
+        y: {
+          type: "number",
+          description: "The y coordinate to scroll at (default: current position)",
         },
       },
       required: ["direction"],
     },
   },
+  {
+    name: "cursor_position",
+    description: "Get the current coordinates of the mouse pointer",
+    input_schema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+  },
   {
     name: "launch_app",
     description: "Launch an application on the desktop",
@@ -122,23 +256,82 @@ export const COMPUTER_TOOLS = [
 /**
  * Helper function to find tool definition by name
  */
-export function getToolDefinition(
-  toolName: string
-): (typeof COMPUTER_TOOLS)[0] | undefined {
+export function getToolDefinition(toolName: string): ToolDefinition | undefined {
   return COMPUTER_TOOLS.find((tool) => tool.name === toolName);
 }
 
 /**
  * Get all tool definitions for API calls
  */
-export function getToolsForAPI(): Array<{
-  name: string;
-  description: string;
-  input_schema: unknown;
-}> {
+export function getToolsForAPI(): ToolDefinition[] {
   return COMPUTER_TOOLS.map((tool) => ({
     name: tool.name,
     description: tool.description,
     input_schema: tool.input_schema,
   }));
 }
+
+/**
+ * Validate tool input against the tool's input_schema.
+ * Returns a list of problems; an empty list means the input is valid.
+ */
+export function validateToolInput(
+  tool: ToolDefinition,
+  input: unknown
+): string[] {
+  return validateValue(tool.input_schema, input, "input");
+}
+
+function validateValue(
+  schema: ToolInputProperty,
+  value: unknown,
+  path: string
+): string[] {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return [`${path} must be a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of: ${schema.enum.join(", ")}`];
+      }
+      return [];
+
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? []
+        : [`${path} must be a number`];
+
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path} must be a boolean`];
+
+    case "array":
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return schema.items
+        ? value.flatMap((item, i) =>
+            validateValue(schema.items!, item, `${path}[${i}]`)
+          )
+        : [];
+
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) {
+          errors.push(...validateValue(property, record[key], `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+  }
+}
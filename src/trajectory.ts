@@ -0,0 +1,258 @@
+/**
+ * Trajectory Recorder
+ * Writes every agent run to disk so failed runs can be debugged afterwards:
+ *
+ *   <screenshotDir>/<runId>/
+ *     task.json          prompt, model, timing, usage and final result
+ *     steps.jsonl        one event per line (text, tool_call, screenshot)
+ *     screenshots/       numbered screenshots (0001.png, 0002.png, ...)
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import { randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+import type {
+  AgentLoopHooks,
+  AgentLoopResult,
+  ToolCall,
+} from "./agent-loop.js";
+import CONFIG from "./config.js";
+import type { UsageSummary } from "./cost-tracker.js";
+import type { Screenshot } from "./screenshot-service.js";
+
+export interface TrajectoryTask {
+  runId: string;
+  prompt: string;
+  model?: string;
+  backend?: string;
+  startedAt: string;
+  finishedAt?: string;
+  result?: AgentLoopResult;
+  usage?: UsageSummary;
+  error?: string;
+}
+
+/** Tool result content as stored on disk, with images replaced by file names */
+export type RecordedContent =
+  | string
+  | Array<{ type: "text"; text: string } | { type: "image"; file: string }>;
+
+export type TrajectoryEvent =
+  | { type: "text"; step: number; text: string; timestamp: string }
+  | {
+      type: "tool_call";
+      step: number;
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+      result: RecordedContent | undefined;
+      isError: boolean;
+      durationMs: number;
+      timestamp: string;
+    }
+  | {
+      type: "screenshot";
+      step: number;
+      file: string;
+      label?: string;
+      timestamp: string;
+    };
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+/**
+ * Create a sortable, unique run identifier
+ */
+export function createRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return `${timestamp}-${randomBytes(3).toString("hex")}`;
+}
+
+export class TrajectoryRecorder {
+  readonly dir: string;
+  private task: TrajectoryTask;
+  private screenshotCount = 0;
+
+  constructor(
+    prompt: string,
+    options: {
+      runId?: string;
+      rootDir?: string;
+      model?: string;
+      backend?: string;
+    } = {}
+  ) {
+    const runId = options.runId ?? createRunId();
+    this.dir = path.resolve(
+      options.rootDir ?? CONFIG.agent.screenshotDir,
+      runId
+    );
+    fs.mkdirSync(path.join(this.dir, "screenshots"), { recursive: true });
+
+    this.task = {
+      runId,
+      prompt,
+      model: options.model,
+      backend: options.backend,
+      startedAt: new Date().toISOString(),
+    };
+    this.writeTask();
+  }
+
+  get runId(): string {
+    return this.task.runId;
+  }
+
+  /**
+   * Save a screenshot and log it as a step event. Returns the file name
+   * relative to the trajectory directory.
+   */
+  recordScreenshot(
+    screenshot: Screenshot,
+    step: number,
+    label?: string
+  ): string {
+    const file = this.saveImage(screenshot.buffer, screenshot.mediaType);
+    this.append({
+      type: "screenshot",
+      step,
+      file,
+      label,
+      timestamp: new Date().toISOString(),
+    });
+    return file;
+  }
+
+  recordText(text: string, step: number): void {
+    this.append({
+      type: "text",
+      step,
+      text,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  recordToolCall(
+    call: ToolCall,
+    result: Anthropic.ToolResultBlockParam,
+    step: number,
+    durationMs: number
+  ): void {
+    this.append({
+      type: "tool_call",
+      step,
+      id: call.id,
+      name: call.name,
+      input: call.input,
+      result: this.recordContent(result.content),
+      isError: result.is_error ?? false,
+      durationMs,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Mark the run as finished and store its outcome in task.json
+   */
+  finish(outcome: {
+    result?: AgentLoopResult;
+    usage?: UsageSummary;
+    error?: unknown;
+  }): void {
+    this.task.finishedAt = new Date().toISOString();
+    this.task.result = outcome.result;
+    this.task.usage = outcome.usage;
+    if (outcome.error !== undefined) {
+      this.task.error =
+        outcome.error instanceof Error
+          ? outcome.error.message
+          : String(outcome.error);
+    }
+    this.writeTask();
+  }
+
+  /**
+   * Hooks that record model text and tool calls from an AgentLoop
+   */
+  hooks(): AgentLoopHooks {
+    return {
+      onText: (text, step) => this.recordText(text, step),
+      onToolResult: (call, result, step, durationMs) =>
+        this.recordToolCall(call, result, step, durationMs),
+    };
+  }
+
+  private recordContent(
+    content: Anthropic.ToolResultBlockParam["content"]
+  ): RecordedContent | undefined {
+    if (content === undefined || typeof content === "string") {
+      return content;
+    }
+    return content.map((block) =>
+      block.type === "image"
+        ? {
+            type: "image" as const,
+            file: this.saveImage(
+              Buffer.from(block.source.data, "base64"),
+              block.source.media_type
+            ),
+          }
+        : { type: "text" as const, text: block.text }
+    );
+  }
+
+  private saveImage(buffer: Buffer, mediaType: string): string {
+    const index = String(++this.screenshotCount).padStart(4, "0");
+    const extension = EXTENSIONS[mediaType] ?? "png";
+    const file = path.join("screenshots", `${index}.${extension}`);
+    fs.writeFileSync(path.join(this.dir, file), buffer);
+    return file;
+  }
+
+  private append(event: TrajectoryEvent): void {
+    fs.appendFileSync(
+      path.join(this.dir, "steps.jsonl"),
+      JSON.stringify(event) + "\n"
+    );
+  }
+
+  private writeTask(): void {
+    fs.writeFileSync(
+      path.join(this.dir, "task.json"),
+      JSON.stringify(this.task, null, 2)
+    );
+  }
+}
+
+/**
+ * Read a recorded trajectory back from disk
+ */
+export function loadTrajectory(dir: string): {
+  task: TrajectoryTask;
+  events: TrajectoryEvent[];
+} {
+  const taskFile = path.join(dir, "task.json");
+  if (!fs.existsSync(taskFile)) {
+    throw new Error(`Not a trajectory directory (missing task.json): ${dir}`);
+  }
+
+  const task = JSON.parse(fs.readFileSync(taskFile, "utf8")) as TrajectoryTask;
+  const stepsFile = path.join(dir, "steps.jsonl");
+  const events = fs.existsSync(stepsFile)
+    ? fs
+        .readFileSync(stepsFile, "utf8")
+        .split("\n")
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line) as TrajectoryEvent)
+    : [];
+
+  return { task, events };
+}
+
+export default TrajectoryRecorder;
@@ -0,0 +1,330 @@
+/**
+ * Task Verifiers
+ * Programmatic checks of a task's outcome, run on the desktop once the agent
+ * has finished, so success does not rest on the model's own claim: a file
+ * with given content, a window title, text on screen (OCR), a shell command
+ * exiting 0 or a reference screenshot.
+ */
+
+import { execFile } from "child_process";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import type { CommandResult, DesktopBackend } from "./desktop-backend.js";
+import { compareImages } from "./image-diff.js";
+
+const execFileAsync = promisify(execFile);
+
+export type Verifier =
+  | {
+      /** A file on the desktop's machine, optionally with given content */
+      type: "file";
+      path: string;
+      contains?: string;
+      /** Regular expression the content must match */
+      matches?: string;
+    }
+  | {
+      /** A visible window whose title matches a regular expression */
+      type: "window";
+      title: string;
+    }
+  | {
+      /** Text found on the screen by OCR (case and spacing are ignored) */
+      type: "text";
+      text: string;
+    }
+  | {
+      /** A shell command on the desktop's machine that must exit 0 */
+      type: "command";
+      command: string;
+    }
+  | {
+      /** The screen looks like a reference screenshot */
+      type: "screenshot";
+      reference: string;
+      /** Fraction of pixels allowed to differ (default 0.02) */
+      threshold?: number;
+      /** Per-channel difference below which pixels count as equal */
+      tolerance?: number;
+    };
+
+export interface VerifierResult {
+  /** What was checked, e.g. `~/hello.txt contains "hello"` */
+  verifier: string;
+  passed: boolean;
+  detail?: string;
+}
+
+/** The field each verifier type requires, besides `type` */
+const REQUIRED_FIELDS: Record<Verifier["type"], string> = {
+  file: "path",
+  window: "title",
+  text: "text",
+  command: "command",
+  screenshot: "reference",
+};
+
+/** Optional fields of each verifier type and the type of their values */
+const OPTIONAL_FIELDS: Record<
+  Verifier["type"],
+  Record<string, "string" | "number">
+> = {
+  file: { contains: "string", matches: "string" },
+  window: {},
+  text: {},
+  command: {},
+  screenshot: { threshold: "number", tolerance: "number" },
+};
+
+/**
+ * Run the verifiers against the desktop as the agent left it. A verifier
+ * that cannot run fails with the reason as its detail.
+ */
+export async function runVerifiers(
+  desktop: DesktopBackend,
+  verifiers: Verifier[]
+): Promise<VerifierResult[]> {
+  const results: VerifierResult[] = [];
+  for (const verifier of verifiers) {
+    const description = describeVerifier(verifier);
+    try {
+      results.push({
+        verifier: description,
+        ...(await verify(desktop, verifier)),
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      results.push({
+        verifier: description,
+        passed: false,
+        detail: errorMessage,
+      });
+    }
+  }
+  return results;
+}
+
+async function verify(
+  desktop: DesktopBackend,
+  verifier: Verifier
+): Promise<Omit<VerifierResult, "verifier">> {
+  switch (verifier.type) {
+    case "file": {
+      const { exitCode, stdout } = await runCommand(
+        desktop,
+        `cat -- ${shellPath(verifier.path)}`
+      );
+      if (exitCode !== 0) {
+        return { passed: false, detail: `${verifier.path} does not exist` };
+      }
+      if (
+        verifier.contains !== undefined &&
+        !stdout.includes(verifier.contains)
+      ) {
+        return {
+          passed: false,
+          detail: `${verifier.path} does not contain "${verifier.contains}"`,
+        };
+      }
+      if (verifier.matches && !new RegExp(verifier.matches).test(stdout)) {
+        return {
+          passed: false,
+          detail: `${verifier.path} does not match /${verifier.matches}/`,
+        };
+      }
+      return { passed: true };
+    }
+    case "window": {
+      const { exitCode } = await runCommand(
+        desktop,
+        `xdotool search --onlyvisible --name ${shellQuote(verifier.title)}`
+      );
+      return exitCode === 0
+        ? { passed: true }
+        : { passed: false, detail: "no visible window has a matching title" };
+    }
+    case "text": {
+      const text = normalizeText(await readScreenText(desktop));
+      return text.includes(normalizeText(verifier.text))
+        ? { passed: true }
+        : { passed: false, detail: "text not found on the screen" };
+    }
+    case "command": {
+      const { exitCode, stderr } = await runCommand(desktop, verifier.command);
+      const reason = stderr.trim() ? `: ${stderr.trim()}` : "";
+      return exitCode === 0
+        ? { passed: true }
+        : { passed: false, detail: `exit code ${exitCode}${reason}` };
+    }
+    case "screenshot": {
+      const screenshot = await desktop.screenshot();
+      let screen: Buffer;
+      try {
+        screen = fs.readFileSync(screenshot);
+      } finally {
+        fs.rmSync(screenshot, { force: true });
+      }
+      const diff = await compareImages(
+        fs.readFileSync(verifier.reference),
+        screen,
+        { tolerance: verifier.tolerance }
+      );
+      const threshold = verifier.threshold ?? 0.02;
+      return {
+        passed: diff.diffRatio <= threshold,
+        detail: `${(diff.diffRatio * 100).toFixed(2)}% of pixels differ`,
+      };
+    }
+  }
+}
+
+export function describeVerifier(verifier: Verifier): string {
+  switch (verifier.type) {
+    case "file":
+      return verifier.contains !== undefined
+        ? `${verifier.path} contains "${verifier.contains}"`
+        : verifier.matches
+          ? `${verifier.path} matches /${verifier.matches}/`
+          : `${verifier.path} exists`;
+    case "window":
+      return `a window titled /${verifier.title}/ is open`;
+    case "text":
+      return `"${verifier.text}" is on the screen`;
+    case "command":
+      return `\`${verifier.command}\` succeeds`;
+    case "screenshot":
+      return `screen matches ${path.basename(verifier.reference)}`;
+  }
+}
+
+/**
+ * One line per verifier with ✓ or ✗, for logs
+ */
+export function formatVerification(results: VerifierResult[]): string {
+  return results
+    .map(
+      (result) =>
+        `  ${result.passed ? "✓" : "✗"} ${result.verifier}` +
+        (result.passed || !result.detail ? "" : ` - ${result.detail}`)
+    )
+    .join("\n");
+}
+
+/**
+ * Validate verifiers read from a task file. Screenshot references are
+ * resolved relative to `dir`, the file's directory.
+ *
+ * @param where Names the task in error messages, e.g. "task 2"
+ */
+export function parseVerifiers(
+  value: unknown,
+  where: string,
+  dir: string
+): Verifier[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`${where} has a \`verify\` that is not a list`);
+  }
+
+  return value.map((entry: unknown): Verifier => {
+    const verifier: Record<string, unknown> =
+      typeof entry === "object" && entry !== null
+        ? (entry as Record<string, unknown>)
+        : {};
+    const type = verifier.type;
+    const known = Object.keys(REQUIRED_FIELDS);
+    if (typeof type !== "string" || !known.includes(type)) {
+      throw new Error(`${where} has a verifier of unknown type ${type}`);
+    }
+    const field = REQUIRED_FIELDS[type as Verifier["type"]];
+    if (typeof verifier[field] !== "string") {
+      throw new Error(`${where} has a ${type} verifier without ${field}`);
+    }
+    const options = OPTIONAL_FIELDS[type as Verifier["type"]];
+    for (const [name, kind] of Object.entries(options)) {
+      const option = verifier[name];
+      if (
+        option !== undefined &&
+        (typeof option !== kind ||
+          (kind === "number" && !Number.isFinite(option)))
+      ) {
+        throw new Error(
+          `${where} has a ${type} verifier whose ${name} is not a ${kind}`
+        );
+      }
+    }
+    if (typeof verifier.matches === "string") {
+      try {
+        new RegExp(verifier.matches);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        throw new Error(
+          `${where} has a file verifier with an invalid matches: ${errorMessage}`
+        );
+      }
+    }
+
+    // Every field the type needs has been checked above
+    const parsed = verifier as unknown as Verifier;
+    return parsed.type === "screenshot"
+      ? { ...parsed, reference: path.resolve(dir, parsed.reference) }
+      : parsed;
+  });
+}
+
+/**
+ * Run a shell command on the desktop's machine
+ */
+export function runCommand(
+  desktop: DesktopBackend,
+  command: string
+): Promise<CommandResult> {
+  if (!desktop.runCommand) {
+    throw new Error(`The ${desktop.kind} desktop backend cannot run commands`);
+  }
+  return desktop.runCommand(command);
+}
+
+/**
+ * Text on the current screen, read with tesseract on this machine
+ */
+async function readScreenText(desktop: DesktopBackend): Promise<string> {
+  const screenshot = await desktop.screenshot();
+  try {
+    const { stdout } = await execFileAsync("tesseract", [screenshot, "stdout"]);
+    return stdout;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      throw new Error(
+        "Text verifiers need tesseract (sudo apt-get install tesseract-ocr)"
+      );
+    }
+    throw error;
+  } finally {
+    fs.rmSync(screenshot, { force: true });
+  }
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a path for sh, keeping a leading ~/ expandable
+ */
+function shellPath(file: string): string {
+  return file.startsWith("~/")
+    ? `"$HOME"/${shellQuote(file.slice(2))}`
+    : shellQuote(file);
+}
+
+export default runVerifiers;
@@ -0,0 +1,325 @@
+/**
+ * Test Fakes
+ * In-memory stand-ins for the desktop backend, the E2B Sandbox and the
+ * OpenCode client. Every fake records the calls it receives.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import type {
+  CommandResult,
+  DesktopBackend,
+  DesktopBackendKind,
+  DesktopStream,
+  MouseButton,
+  Point,
+  ScrollDirection,
+} from "../src/desktop-backend.js";
+import { DesktopController } from "../src/desktop-controller.js";
+import { ScreenshotService } from "../src/screenshot-service.js";
+
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Write a solid-colour PNG to a temporary file and return its path
+ */
+export async function writeTestImage(
+  width: number,
+  height: number,
+  color = "#3366cc"
+): Promise<string> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cua-test-"));
+  const file = path.join(dir, "screen.png");
+  await sharp({
+    create: { width, height, channels: 3, background: color },
+  })
+    .png()
+    .toFile(file);
+  return file;
+}
+
+export class FakeDesktopBackend implements DesktopBackend {
+  readonly kind: DesktopBackendKind = "local";
+  readonly id = "fake-desktop";
+  readonly calls: RecordedCall[] = [];
+  cursor: Point = { x: 0, y: 0 };
+  killed = false;
+  /** Image files handed out by screenshot() */
+  readonly screenshotFiles: string[] = [];
+  /** Methods that throw when called */
+  failOn = new Set<string>();
+  /** Answers runCommand(); by default every command succeeds silently */
+  onCommand: (command: string) => CommandResult = () => ({
+    exitCode: 0,
+    stdout: "",
+    stderr: "",
+  });
+  private image: string | null = null;
+
+  constructor(
+    readonly width = 1280,
+    readonly height = 800
+  ) {}
+
+  /** Names of the methods called so far, in order */
+  get methods(): string[] {
+    return this.calls.map((call) => call.method);
+  }
+
+  async screenshot(): Promise<string> {
+    this.record("screenshot");
+    this.image ??= await writeTestImage(this.width, this.height);
+    // A new file every time, since callers delete it once read
+    const file = `${this.image}.${this.calls.length}.png`;
+    fs.copyFileSync(this.image, file);
+    this.screenshotFiles.push(file);
+    return file;
+  }
+
+  async click(position: Point, button: MouseButton = "left"): Promise<void> {
+    this.record("click", position, button);
+    this.cursor = position;
+  }
+
+  async doubleClick(position: Point): Promise<void> {
+    this.record("doubleClick", position);
+    this.cursor = position;
+  }
+
+  async moveMouse(position: Point): Promise<void> {
+    this.record("moveMouse", position);
+    this.cursor = position;
+  }
+
+  async mouseDown(button: MouseButton = "left"): Promise<void> {
+    this.record("mouseDown", button);
+  }
+
+  async mouseUp(button: MouseButton = "left"): Promise<void> {
+    this.record("mouseUp", button);
+  }
+
+  async scroll(direction: ScrollDirection, amount: number): Promise<void> {
+    this.record("scroll", direction, amount);
+  }
+
+  async getCursorPosition(): Promise<Point> {
+    this.record("getCursorPosition");
+    return this.cursor;
+  }
+
+  async write(text: string): Promise<void> {
+    this.record("write", text);
+  }
+
+  async press(key: string): Promise<void> {
+    this.record("press", key);
+  }
+
+  async launch(app: string): Promise<void> {
+    this.record("launch", app);
+  }
+
+  async runCommand(command: string): Promise<CommandResult> {
+    this.record("runCommand", command);
+    return this.onCommand(command);
+  }
+
+  async startStream(): Promise<DesktopStream> {
+    this.record("startStream");
+    return { url: "http://localhost:6080/vnc.html?autoconnect=true" };
+  }
+
+  async kill(): Promise<void> {
+    this.record("kill");
+    this.killed = true;
+  }
+
+  private record(method: string, ...args: unknown[]): void {
+    this.calls.push({ method, args });
+    if (this.failOn.has(method)) {
+      throw new Error(`${method} failed`);
+    }
+  }
+}
+
+/**
+ * A DesktopController over a fake backend that captures screenshots without
+ * the settle delay and scales them to `targetWidth` x `targetHeight`
+ */
+export function createFakeController(
+  options: {
+    width?: number;
+    height?: number;
+    targetWidth?: number;
+    targetHeight?: number;
+  } = {}
+): { backend: FakeDesktopBackend; controller: DesktopController } {
+  const backend = new FakeDesktopBackend(options.width, options.height);
+  const screenshots = new ScreenshotService(backend, {
+    format: "png",
+    targetWidth: options.targetWidth ?? 1280,
+    targetHeight: options.targetHeight ?? 800,
+    settleMs: 0,
+  });
+  return { backend, controller: new DesktopController(backend, screenshots) };
+}
+
+/**
+ * Fake of the @e2b/desktop Sandbox, covering the methods E2BDesktopBackend
+ * uses
+ */
+export class FakeSandbox {
+  readonly sandboxId = "fake-sandbox";
+  readonly calls: RecordedCall[] = [];
+  /** Result of commands.run(), thrown like the SDK when it failed */
+  commandResult: CommandResult = { exitCode: 0, stdout: "ok\n", stderr: "" };
+  readonly commands = {
+    run: async (command: string) => {
+      const result = this.record("commands.run", this.commandResult, command);
+      if (result.exitCode !== 0) {
+        throw Object.assign(new Error(`exit status ${result.exitCode}`), result);
+      }
+      return result;
+    },
+  };
+  readonly stream = {
+    start: async (options: { requireAuth: boolean }) =>
+      this.record("stream.start", undefined, options),
+    getAuthKey: () => this.record("stream.getAuthKey", "secret"),
+    getUrl: (options: { authKey: string }) =>
+      this.record(
+        "stream.getUrl",
+        `https://6080-fake-sandbox.e2b.app/vnc.html?password=${options.authKey}`,
+        options
+      ),
+  };
+
+  async screenshot(): Promise<string> {
+    return this.record("screenshot", "/tmp/fake-sandbox.png");
+  }
+
+  async click(position: Point): Promise<void> {
+    this.record("click", undefined, position);
+  }
+
+  async rightClick(): Promise<void> {
+    this.record("rightClick", undefined);
+  }
+
+  async middleClick(): Promise<void> {
+    this.record("middleClick", undefined);
+  }
+
+  async doubleClick(): Promise<void> {
+    this.record("doubleClick", undefined);
+  }
+
+  async moveMouse(x: number, y: number): Promise<void> {
+    this.record("moveMouse", undefined, x, y);
+  }
+
+  async mousePress(button: string): Promise<void> {
+    this.record("mousePress", undefined, button);
+  }
+
+  async mouseRelease(button: string): Promise<void> {
+    this.record("mouseRelease", undefined, button);
+  }
+
+  async scroll(direction: string, amount: number): Promise<void> {
+    this.record("scroll", undefined, direction, amount);
+  }
+
+  async getCursorPosition(): Promise<Point> {
+    return this.record("getCursorPosition", { x: 12, y: 34 });
+  }
+
+  async write(text: string): Promise<void> {
+    this.record("write", undefined, text);
+  }
+
+  async press(key: string): Promise<void> {
+    this.record("press", undefined, key);
+  }
+
+  async launch(app: string): Promise<void> {
+    this.record("launch", undefined, app);
+  }
+
+  async setTimeout(timeoutMs: number): Promise<void> {
+    this.record("setTimeout", undefined, timeoutMs);
+  }
+
+  async kill(): Promise<void> {
+    this.record("kill", undefined);
+  }
+
+  private record<T>(method: string, result: T, ...args: unknown[]): T {
+    this.calls.push({ method, args });
+    return result;
+  }
+}
+
+/**
+ * Fake of the client returned by createOpencodeClient. Responses are
+ * wrapped in `{ data }` like the real client, unless `wrap` is false for
+ * code that takes responses as the bodies themselves; every call is
+ * recorded with its dotted name, e.g. "session.prompt".
+ */
+export function createFakeOpencodeClient(
+  overrides: Record<string, (options?: any) => unknown> = {},
+  { wrap = true }: { wrap?: boolean } = {}
+) {
+  const calls: RecordedCall[] = [];
+  const sessions = new Map<string, { id: string; title: string }>();
+  let nextId = 1;
+
+  const handlers: Record<string, (options?: any) => unknown> = {
+    "global.health": () => ({ healthy: true, version: "0.0.0-test" }),
+    "app.agents": () => [{ name: "build" }],
+    "session.create": (options) => {
+      const session = { id: `ses_${nextId++}`, title: options.body.title };
+      sessions.set(session.id, session);
+      return session;
+    },
+    "session.list": () => [...sessions.values()],
+    "session.get": (options) => sessions.get(options.path.id),
+    "session.delete": (options) => sessions.delete(options.path.id),
+    "session.prompt": (options) => ({
+      info: { id: "msg_1", role: "assistant" },
+      parts: [{ type: "text", text: `echo: ${options.body.parts[0].text}` }],
+    }),
+    "session.command": () => ({ info: { id: "msg_2" }, parts: [] }),
+    "session.shell": (options) => ({
+      info: { id: "msg_3" },
+      parts: [{ type: "shell", text: `$ ${options.body.command}` }],
+    }),
+    "session.messages": () => [],
+    "find.text": () => [],
+    "find.files": () => ["src/index.ts"],
+    "file.read": (options) => ({ type: "raw", content: `// ${options.query.path}` }),
+    "config.get": () => ({ model: "test/model" }),
+    "config.providers": () => ({ providers: [], default: {} }),
+    ...overrides,
+  };
+
+  const client: Record<string, Record<string, (options?: any) => Promise<any>>> =
+    {};
+  for (const [name, handler] of Object.entries(handlers)) {
+    const [group, method] = name.split(".");
+    client[group] ??= {};
+    client[group][method] = async (options?: any) => {
+      calls.push({ method: name, args: options === undefined ? [] : [options] });
+      const body = await handler(options);
+      return wrap ? { data: body } : body;
+    };
+  }
+
+  return { client: client as any, calls, sessions };
+}
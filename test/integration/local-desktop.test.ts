@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { once } from "node:events";
+import fs from "node:fs";
+import net, { type AddressInfo } from "node:net";
+import { after, before, describe, it, mock } from "node:test";
+import { AnthropicModelProvider } from "../../src/anthropic-model-provider.js";
+import { CONFIG } from "../../src/config.js";
+import { DesktopController } from "../../src/desktop-controller.js";
+import { ComputerUseAgent } from "../../src/index.js";
+import { LocalDesktopBackend } from "../../src/local-desktop-backend.js";
+import { MockModelServer } from "../../src/mock-model-server.js";
+
+function hasCommand(command: string): boolean {
+  try {
+    execFileSync("which", [command], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const missing = ["Xvfb", "xdotool", "import"].filter(
+  (command) => !hasCommand(command)
+);
+const skip = missing.length > 0 && `missing ${missing.join(", ")}`;
+
+describe("local desktop", { skip }, () => {
+  let backend: LocalDesktopBackend;
+  let controller: DesktopController;
+
+  before(async () => {
+    backend = await LocalDesktopBackend.create(CONFIG.desktop.local);
+    controller = new DesktopController(backend);
+  });
+
+  after(async () => {
+    await backend?.kill();
+  });
+
+  it("takes screenshots at the display size", async () => {
+    const file = await backend.screenshot();
+    try {
+      assert.ok(fs.statSync(file).size > 0);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+
+    const screenshot = await controller.takeScreenshot();
+    assert.ok(screenshot.base64.length > 0);
+  });
+
+  it("moves the pointer where it clicks", async () => {
+    await backend.click({ x: 120, y: 80 });
+    assert.deepEqual(await backend.getCursorPosition(), { x: 120, y: 80 });
+  });
+
+  it("runs commands on the display and reports their exit code", async () => {
+    const display = await backend.runCommand("echo $DISPLAY");
+    assert.deepEqual(display, {
+      exitCode: 0,
+      stdout: `${CONFIG.desktop.local.display}\n`,
+      stderr: "",
+    });
+
+    const failed = await backend.runCommand("echo oops >&2; exit 3");
+    assert.equal(failed.exitCode, 3);
+    assert.equal(failed.stderr, "oops\n");
+  });
+
+  it("refuses to stream through a port another server holds", async () => {
+    const other = net.createServer().listen(0, "127.0.0.1");
+    await once(other, "listening");
+    const { port } = other.address() as AddressInfo;
+    const streaming = await LocalDesktopBackend.create({
+      ...CONFIG.desktop.local,
+      vnc: { ...CONFIG.desktop.local.vnc, webPort: port },
+    });
+    try {
+      await assert.rejects(
+        streaming.startStream(),
+        /does not stream display/
+      );
+    } finally {
+      other.close();
+    }
+  });
+
+  it("only stops a display it attached to once it adopts it", async () => {
+    const attached = await LocalDesktopBackend.create(CONFIG.desktop.local);
+
+    assert.equal(attached.owned, false);
+    assert.equal(attached.adoptDisplay(), true);
+    assert.equal(attached.owned, true);
+  });
+
+  it("types and presses keys without errors", async () => {
+    await backend.write("hello");
+    await backend.press("Return");
+  });
+
+  describe("agent with the mock model", () => {
+    const server = new MockModelServer();
+
+    before(async () => {
+      await server.start();
+      mock.method(console, "log", () => {});
+    });
+
+    after(async () => {
+      mock.restoreAll();
+      await server.stop();
+    });
+
+    it("runs a scripted screenshot and click", async () => {
+      const provider = new AnthropicModelProvider({
+        provider: "anthropic",
+        name: "mock-model",
+        apiKey: "test",
+        baseURL: server.baseURL("screenshot-click"),
+      });
+      const agent = new ComputerUseAgent(backend, provider);
+      await agent.initialize();
+
+      const text = await agent.chat("Click the button");
+
+      assert.match(text, /Clicked the button/);
+      const position = await backend.getCursorPosition();
+      assert.ok(position.x > 0 && position.y > 0);
+    });
+  });
+});
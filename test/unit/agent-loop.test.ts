@@ -0,0 +1,365 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type Anthropic from "@anthropic-ai/sdk";
+import { AgentLoop, type ToolCall } from "../../src/agent-loop.js";
+import { AnthropicModelProvider } from "../../src/anthropic-model-provider.js";
+import { ApprovalPolicy } from "../../src/approval-policy.js";
+import { CostTracker } from "../../src/cost-tracker.js";
+import { HistoryManager } from "../../src/history-manager.js";
+import { MockModelServer } from "../../src/mock-model-server.js";
+import type { ModelProvider } from "../../src/model-provider.js";
+
+describe("AgentLoop", () => {
+  const server = new MockModelServer();
+
+  before(async () => {
+    await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  function createLoop(
+    scenario: string,
+    executeTool: (name: string, input: Record<string, unknown>) => Promise<any>,
+    options: {
+      maxSteps?: number;
+      stepTimeoutMs?: number;
+      approval?: ApprovalPolicy;
+    } = {}
+  ) {
+    const provider = new AnthropicModelProvider({
+      provider: "anthropic",
+      name: "mock-model",
+      apiKey: "test",
+      baseURL: server.baseURL(scenario),
+    });
+    return new AgentLoop({
+      provider,
+      system: "You are a test agent.",
+      executeTool,
+      maxSteps: options.maxSteps ?? 10,
+      stepTimeoutMs: options.stepTimeoutMs ?? 1000,
+      approval: options.approval,
+    });
+  }
+
+  function userMessage(text: string): Anthropic.MessageParam[] {
+    return [{ role: "user", content: text }];
+  }
+
+  it("returns text when the model calls no tools", async () => {
+    const loop = createLoop("text-only", async () => assert.fail("no tools"));
+    const history = userMessage("hi");
+
+    const result = await loop.run(history);
+
+    assert.deepEqual(result, {
+      text: "Hello from the mock model.",
+      steps: 1,
+      stopReason: "completed",
+    });
+    assert.equal(history.length, 2);
+  });
+
+  it("executes tool calls and feeds results back", async () => {
+    const calls: string[] = [];
+    const loop = createLoop("screenshot-click", async (name, input) => {
+      calls.push(`${name} ${JSON.stringify(input)}`);
+      return "ok";
+    });
+    const history = userMessage("click the button");
+
+    const result = await loop.run(history);
+
+    assert.deepEqual(calls, ["screenshot {}", 'click {"x":100,"y":200}']);
+    assert.equal(result.steps, 3);
+    assert.equal(
+      result.text,
+      "Let me look at the screen first.\nClicked the button."
+    );
+    assert.deepEqual(
+      history.map((message) => message.role),
+      ["user", "assistant", "user", "assistant", "user", "assistant"]
+    );
+    const toolResults = history[2].content as Anthropic.ToolResultBlockParam[];
+    assert.equal(toolResults[0].tool_use_id, "toolu_mock_0_1");
+    assert.equal(toolResults[0].content, "ok");
+  });
+
+  it("reports tool failures to the model as errors", async () => {
+    const loop = createLoop("unknown-tool", async (name) => {
+      throw new Error(`Unknown tool: ${name}`);
+    });
+    const history = userMessage("teleport");
+
+    const result = await loop.run(history);
+
+    assert.equal(result.stopReason, "completed");
+    const [toolResult] = history[2].content as Anthropic.ToolResultBlockParam[];
+    assert.equal(toolResult.is_error, true);
+    assert.equal(toolResult.content, "Unknown tool: teleport");
+  });
+
+  it("times out slow tools", async () => {
+    const loop = createLoop("type-and-submit", () => new Promise(() => {}), {
+      stepTimeoutMs: 10,
+    });
+    const history = userMessage("type");
+
+    await loop.run(history);
+
+    const results = history[2].content as Anthropic.ToolResultBlockParam[];
+    assert.equal(results.length, 2);
+    assert.match(String(results[0].content), /timed out after 10ms/);
+  });
+
+  it("times out model calls that never return", async () => {
+    const hung = new Promise<never>(() => {});
+    const provider: ModelProvider = {
+      kind: "anthropic",
+      model: "mock-model",
+      capabilities: { vision: true, toolUse: true, maxImages: 20 },
+      createMessage: () => hung,
+      streamMessage: () => hung,
+    };
+
+    for (const stream of [false, true]) {
+      const loop = new AgentLoop({
+        provider,
+        system: "You are a test agent.",
+        executeTool: async () => "ok",
+        stepTimeoutMs: 10,
+        stream,
+      });
+
+      await assert.rejects(
+        loop.run(userMessage("hi")),
+        /Model call timed out after 10ms/
+      );
+    }
+  });
+
+  it("stops after maxSteps", async () => {
+    const loop = createLoop("endless", async () => "ok", { maxSteps: 3 });
+
+    const result = await loop.run(userMessage("wait forever"));
+
+    assert.equal(result.stopReason, "max_steps");
+    assert.equal(result.steps, 3);
+  });
+
+  it("stops after the run's own maxSteps", async () => {
+    const loop = createLoop("endless", async () => "ok", { maxSteps: 3 });
+    const history = userMessage("wait forever");
+
+    const result = await loop.run(history, { maxSteps: 1 });
+
+    assert.equal(result.stopReason, "max_steps");
+    assert.equal(result.steps, 1);
+    assert.equal(history.length, 3);
+  });
+
+  it("pauses after the current step when aborted", async () => {
+    const controller = new AbortController();
+    const completed: number[] = [];
+    const loop = createLoop("screenshot-click", async (name) => {
+      if (name === "screenshot") {
+        controller.abort();
+      }
+      return "ok";
+    });
+    loop.addHooks({ onStepComplete: (step) => completed.push(step) });
+    const history = userMessage("click");
+
+    const paused = await loop.run(history, { signal: controller.signal });
+
+    assert.equal(paused.stopReason, "aborted");
+    assert.equal(paused.steps, 1);
+    assert.deepEqual(completed, [1]);
+    assert.deepEqual(
+      history.map((message) => message.role),
+      ["user", "assistant", "user"]
+    );
+
+    const resumed = await loop.run(history);
+    assert.equal(resumed.stopReason, "completed");
+    assert.deepEqual(completed, [1, 1, 2]);
+  });
+
+  it("stops once the budget is used up", async () => {
+    const loop = createLoop("endless", async () => "ok");
+    const costs = new CostTracker({
+      model: "mock-model",
+      limits: { maxTokens: 1 },
+    });
+    loop.addHooks(costs.hooks());
+
+    const result = await loop.run(userMessage("wait forever"), {
+      budget: costs,
+    });
+
+    assert.equal(result.stopReason, "budget");
+    assert.equal(result.steps, 1);
+    assert.match(costs.exceededLimit()!, /token limit reached/);
+    assert.equal(costs.summary().steps.length, 1);
+  });
+
+  it("counts the history summary against the step", async () => {
+    const replies = ["Clicked twice.", "Done."];
+    const provider: ModelProvider = {
+      kind: "anthropic",
+      model: "mock-model",
+      capabilities: { vision: true, toolUse: true, maxImages: 20 },
+      createMessage: async () => ({
+        content: [{ type: "text", text: replies.shift()! }],
+        stopReason: "end_turn",
+        usage: { inputTokens: 100, outputTokens: 10 },
+      }),
+    };
+    const costs = new CostTracker({ model: "mock-model" });
+    const loop = new AgentLoop({
+      provider,
+      system: "You are a test agent.",
+      executeTool: async () => "ok",
+      history: new HistoryManager({
+        provider,
+        tokenBudget: 100,
+        keepRecentMessages: 2,
+      }),
+      hooks: [costs.hooks()],
+    });
+    const history: Anthropic.MessageParam[] = [
+      { role: "user", content: "x".repeat(1000) },
+      { role: "assistant", content: "Clicking." },
+      { role: "user", content: "Again" },
+      { role: "assistant", content: "Clicking again." },
+      { role: "user", content: "Once more" },
+    ];
+
+    await loop.run(history);
+
+    assert.equal(replies.length, 0);
+    const { steps, inputTokens, outputTokens } = costs.summary();
+    assert.equal(steps.length, 1);
+    assert.equal(inputTokens, 200);
+    assert.equal(outputTokens, 20);
+  });
+
+  it("streams text and runs each tool as soon as its block closes", async () => {
+    const streaming = new MockModelServer({ streamDelayMs: 5 });
+    await streaming.start();
+    const events: string[] = [];
+    const loop = new AgentLoop({
+      provider: new AnthropicModelProvider({
+        provider: "anthropic",
+        name: "mock-model",
+        apiKey: "test",
+        baseURL: streaming.baseURL("type-and-submit"),
+      }),
+      system: "You are a test agent.",
+      executeTool: async (name) => {
+        events.push(`run ${name}`);
+        return "ok";
+      },
+      stream: true,
+      hooks: [
+        {
+          onTextDelta: (text) => events.push(`delta ${text}`),
+          onText: (text) => events.push(`text ${text}`),
+          onToolCall: (call) => events.push(`call ${call.name}`),
+          onModelResponse: (_response, _request, step) =>
+            events.push(`response ${step}`),
+        },
+      ],
+    });
+
+    try {
+      const result = await loop.run(userMessage("type"));
+
+      assert.equal(result.text, "Submitted the form.");
+      assert.deepEqual(events, [
+        "call type",
+        "run type",
+        "call key",
+        "run key",
+        "response 1",
+        "delta Submitted ",
+        "delta the ",
+        "delta form.",
+        "text Submitted the form.",
+        "response 2",
+      ]);
+      assert.equal(streaming.requests[0].body.stream, true);
+    } finally {
+      await streaming.stop();
+    }
+  });
+
+  it("propagates API errors", async () => {
+    const loop = createLoop("api-error", async () => "ok");
+
+    await assert.rejects(loop.run(userMessage("fail")), /Scripted failure/);
+  });
+
+  it("reports rejected tool calls as errors without running them", async () => {
+    const executed: string[] = [];
+    const approval = new ApprovalPolicy({
+      mode: "all",
+      prompt: async (action) =>
+        action.name === "key"
+          ? { action: "reject", reason: "do not submit" }
+          : { action: "edit", input: { text: "edited" } },
+    });
+    const loop = createLoop(
+      "type-and-submit",
+      async (name, input) => {
+        executed.push(`${name} ${JSON.stringify(input)}`);
+        return "ok";
+      },
+      { approval }
+    );
+    const history = userMessage("type");
+
+    await loop.run(history);
+
+    assert.deepEqual(executed, ['type {"text":"edited"}']);
+    const [typed, key] = history[2].content as Anthropic.ToolResultBlockParam[];
+    assert.equal(typed.content, "ok");
+    assert.equal(key.is_error, true);
+    assert.match(String(key.content), /rejected by the operator: do not submit/);
+  });
+
+  it("notifies hooks and isolates hook failures", async (t) => {
+    const errors = t.mock.method(console, "error", () => {});
+    const events: string[] = [];
+    const loop = createLoop("screenshot-click", async () => "ok");
+    loop.addHooks({
+      onToolCall: () => {
+        throw new Error("broken hook");
+      },
+    });
+    const remove = loop.addHooks({
+      onText: (_text, step) => events.push(`text ${step}`),
+      onToolCall: (call: ToolCall, step) =>
+        events.push(`call ${call.name} ${step}`),
+      onToolResult: (call, result, step) =>
+        events.push(`result ${call.name} ${step} ${result.is_error ?? false}`),
+    });
+
+    await loop.run(userMessage("click"));
+    remove();
+    await loop.run(userMessage("click again"));
+
+    assert.deepEqual(events, [
+      "text 1",
+      "call screenshot 1",
+      "result screenshot 1 false",
+      "call click 2",
+      "result click 2 false",
+      "text 3",
+    ]);
+    assert.equal(errors.mock.callCount(), 4);
+  });
+});
@@ -0,0 +1,436 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { WebSocket } from "ws";
+import {
+  AgentServer,
+  type RunDetail,
+  type RunEventRecord,
+  type RunInfo,
+} from "../../src/agent-server.js";
+import { AnthropicModelProvider } from "../../src/anthropic-model-provider.js";
+import { CONFIG } from "../../src/config.js";
+import { ComputerUseAgent } from "../../src/index.js";
+import { MockModelServer } from "../../src/mock-model-server.js";
+import { FakeDesktopBackend } from "../fakes.js";
+
+const TOKEN = "test-token";
+
+/**
+ * fetch with the server's token; a body is sent as JSON
+ */
+function api(url: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${TOKEN}`,
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+    },
+  });
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  return (await api(url)).json() as Promise<T>;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await api(url, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Collect events from a WebSocket until one matches `last`. `opened`
+ * settles once connected, so a test can trigger events without a race.
+ */
+function listen(
+  url: string,
+  last: (event: RunEventRecord) => boolean = (event) =>
+    event.type === "status" &&
+    (event.status === "completed" || event.status === "failed")
+): { opened: Promise<unknown>; events: Promise<RunEventRecord[]> } {
+  const socket = new WebSocket(`${url}?token=${TOKEN}`);
+  const opened = once(socket, "open");
+  const events = new Promise<RunEventRecord[]>((resolve) => {
+    const received: RunEventRecord[] = [];
+    socket.on("message", (data) => {
+      const event: RunEventRecord = JSON.parse(data.toString());
+      received.push(event);
+      if (last(event)) {
+        socket.close();
+      }
+    });
+    socket.on("close", () => resolve(received));
+  });
+  return { opened, events };
+}
+
+function describeEvent(event: RunEventRecord): string {
+  return event.type === "status"
+    ? `status ${event.status}`
+    : event.type === "tool_call" || event.type === "tool_result"
+      ? `${event.type} ${event.name}`
+      : event.type;
+}
+
+describe("AgentServer", () => {
+  const model = new MockModelServer();
+  const desktops: FakeDesktopBackend[] = [];
+  let scenario = "screenshot-click";
+  let server: AgentServer;
+  let baseURL: string;
+  let eventsURL: string;
+
+  before(async () => {
+    CONFIG.agent.sessionDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "agent-server-")
+    );
+    await model.start();
+    server = new AgentServer({
+      port: 0,
+      token: TOKEN,
+      origins: ["http://localhost:3000"],
+      createAgent: () => {
+        const desktop = new FakeDesktopBackend();
+        desktops.push(desktop);
+        return new ComputerUseAgent(
+          desktop,
+          new AnthropicModelProvider({
+            provider: "anthropic",
+            name: "mock-model",
+            apiKey: "test",
+            baseURL: model.baseURL(scenario),
+          })
+        );
+      },
+    });
+    baseURL = await server.start();
+    eventsURL = baseURL.replace("http", "ws");
+  });
+
+  after(async () => {
+    await server.stop();
+    await model.stop();
+  });
+
+  it("starts a run and streams its events", async () => {
+    const response = await api(`${baseURL}/runs`, {
+      method: "POST",
+      body: JSON.stringify({ prompt: "Click the button" }),
+    });
+    assert.equal(response.status, 201);
+    const run = (await response.json()) as RunInfo;
+    assert.equal(run.status, "starting");
+
+    const events = await listen(`${eventsURL}/runs/${run.id}/events`).events;
+
+    assert.deepEqual(events.map(describeEvent), [
+        "status starting",
+        "user",
+        "status running",
+        "text",
+        "tool_call screenshot",
+        "tool_result screenshot",
+        "step",
+        "tool_call click",
+        "tool_result click",
+        "step",
+        "text",
+        "step",
+        "status completed",
+      ]
+    );
+    assert.deepEqual(
+      events.map((event) => event.seq),
+      events.map((_, index) => index)
+    );
+
+    const detail = await getJson<RunDetail>(`${baseURL}/runs/${run.id}`);
+    assert.equal(detail.status, "completed");
+    assert.equal(detail.steps, 3);
+    assert.match(detail.result ?? "", /Clicked the button/);
+    assert.ok(detail.sessionId);
+    assert.equal(detail.events.length, events.length);
+
+    const runs = await getJson<RunInfo[]>(`${baseURL}/runs`);
+    assert.deepEqual(runs.map((info) => info.id), [run.id]);
+  });
+
+  it("serves the current screen of a run", async () => {
+    const [run] = await getJson<RunInfo[]>(`${baseURL}/runs`);
+
+    const response = await api(`${baseURL}/runs/${run.id}/screenshot`);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "image/png");
+    const image = Buffer.from(await response.arrayBuffer());
+    assert.equal(image.subarray(1, 4).toString(), "PNG");
+  });
+
+  it("continues a finished run with a follow-up message", async () => {
+    const [run] = await getJson<RunInfo[]>(`${baseURL}/runs`);
+    const all = listen(`${eventsURL}/events`);
+    await all.opened;
+
+    const response = await api(`${baseURL}/runs/${run.id}/messages`, {
+      method: "POST",
+      body: JSON.stringify({ text: "Click it again" }),
+    });
+
+    assert.equal(response.status, 202);
+    assert.equal(((await response.json()) as RunInfo).status, "running");
+    const events = await all.events;
+    assert.equal(events[0].type, "user");
+    assert.ok(events.every((event) => event.runId === run.id));
+    const detail = await getJson<RunDetail>(`${baseURL}/runs/${run.id}`);
+    assert.equal(detail.status, "completed");
+    assert.equal(detail.steps, 6);
+    assert.deepEqual(
+      detail.events
+        .filter((event) => event.type === "user")
+        .map((event) => event.type === "user" && event.text),
+      ["Click the button", "Click it again"]
+    );
+  });
+
+  it("cancels a run after its current step", async () => {
+    scenario = "endless";
+    const run = await postJson<RunInfo>(`${baseURL}/runs`, {
+      prompt: "Wait forever",
+    });
+    await listen(
+      `${eventsURL}/runs/${run.id}/events`,
+      (event) => event.type === "step"
+    ).events;
+
+    const busy = await api(`${baseURL}/runs/${run.id}/messages`, {
+      method: "POST",
+      body: JSON.stringify({ text: "Hurry up" }),
+    });
+    assert.equal(busy.status, 409);
+    assert.match(
+      ((await busy.json()) as { error: string }).error,
+      /is running; send messages once its task has finished/
+    );
+
+    const cancelled = await postJson<RunInfo>(
+      `${baseURL}/runs/${run.id}/cancel`,
+      {}
+    );
+
+    assert.equal(cancelled.status, "cancelled");
+    assert.equal(desktops.at(-1)?.killed, true);
+    const detail = await getJson<RunDetail>(`${baseURL}/runs/${run.id}`);
+    assert.deepEqual(detail.events.slice(-2).map(describeEvent), [
+      "status paused",
+      "status cancelled",
+    ]);
+    const again = await api(`${baseURL}/runs/${run.id}/cancel`, {
+      method: "POST",
+    });
+    assert.equal(again.status, 409);
+    const screen = await api(`${baseURL}/runs/${run.id}/screenshot`);
+    assert.equal(screen.status, 409);
+  });
+
+  it("holds a run while a person takes over the desktop", async () => {
+    const run = await postJson<RunInfo>(`${baseURL}/runs`, {
+      prompt: "Wait for me",
+    });
+    await listen(
+      `${eventsURL}/runs/${run.id}/events`,
+      (event) => event.type === "step"
+    ).events;
+
+    const { url } = await postJson<{ url: string }>(
+      `${baseURL}/runs/${run.id}/stream`,
+      {}
+    );
+    assert.match(url, /vnc\.html/);
+
+    const held = await postJson<RunInfo>(
+      `${baseURL}/runs/${run.id}/takeover`,
+      {}
+    );
+    assert.equal(held.status, "paused");
+    assert.equal(held.takenOver, true);
+    assert.equal(held.streamUrl, url);
+    const busy = await api(`${baseURL}/runs/${run.id}/messages`, {
+      method: "POST",
+      body: JSON.stringify({ text: "Carry on" }),
+    });
+    assert.equal(busy.status, 409);
+
+    const resumed = listen(
+      `${eventsURL}/runs/${run.id}/events`,
+      (event) => event.type === "step" && event.step > 1
+    );
+    await resumed.opened;
+    const released = await postJson<RunInfo>(
+      `${baseURL}/runs/${run.id}/handback`,
+      {}
+    );
+    assert.equal(released.status, "running");
+    assert.equal(released.takenOver, false);
+    await resumed.events;
+    assert.match(
+      JSON.stringify(model.requests.at(-1)?.body),
+      /handed it back/
+    );
+
+    await postJson(`${baseURL}/runs/${run.id}/cancel`, {});
+    const detail = await getJson<RunDetail>(`${baseURL}/runs/${run.id}`);
+    assert.equal(detail.takenOver, false);
+    assert.deepEqual(
+      detail.events
+        .filter((event) => event.type === "takeover")
+        .map((event) => event.type === "takeover" && event.active),
+      [true, false]
+    );
+    assert.deepEqual(
+      desktops.at(-1)?.calls.filter((call) => call.method === "startStream"),
+      [{ method: "startStream", args: [] }]
+    );
+    const again = await api(`${baseURL}/runs/${run.id}/handback`, {
+      method: "POST",
+    });
+    assert.equal(again.status, 409);
+  });
+
+  it("takes over a finished run and then takes messages again", async () => {
+    const run = (await getJson<RunInfo[]>(`${baseURL}/runs`)).at(-1)!;
+    const requests = model.requests.length;
+
+    const held = await postJson<RunInfo>(
+      `${baseURL}/runs/${run.id}/takeover`,
+      {}
+    );
+    assert.equal(held.status, "completed");
+    const released = await postJson<RunInfo>(
+      `${baseURL}/runs/${run.id}/handback`,
+      {}
+    );
+    assert.equal(released.status, "completed");
+    const { events } = await getJson<RunDetail>(`${baseURL}/runs/${run.id}`);
+
+    const seen = events.length;
+    const finished = listen(
+      `${eventsURL}/runs/${run.id}/events`,
+      (event) =>
+        event.type === "status" &&
+        event.status !== "running" &&
+        event.seq > seen
+    );
+    await finished.opened;
+    await postJson(`${baseURL}/runs/${run.id}/messages`, {
+      text: "Click it once more",
+    });
+    await finished.events;
+    const detail = await getJson<RunDetail>(`${baseURL}/runs/${run.id}`);
+    assert.equal(detail.status, "completed");
+    assert.match(detail.result ?? "", /Clicked the button/);
+    assert.ok(model.requests.length > requests);
+  });
+
+  it("hands out the stream URL only with the token from allowed origins", async () => {
+    const run = (await getJson<RunInfo[]>(`${baseURL}/runs`)).at(-1)!;
+    const desktop = desktops[0];
+
+    const anonymous = await fetch(`${baseURL}/runs/${run.id}/stream`, {
+      method: "POST",
+    });
+    const evil = await api(`${baseURL}/runs/${run.id}/stream`, {
+      method: "POST",
+      headers: { Origin: "https://evil.example" },
+    });
+
+    assert.equal(anonymous.status, 401);
+    assert.equal(evil.status, 403);
+    assert.equal(JSON.stringify(await evil.json()).includes("vnc"), false);
+    assert.equal(
+      desktop.calls.some((call) => call.method === "startStream"),
+      false
+    );
+    const listed = await fetch(`${baseURL}/runs`, {
+      headers: { Origin: "https://evil.example" },
+    });
+    assert.equal(listed.status, 403);
+  });
+
+  it("rejects bad requests", async () => {
+    const empty = await api(`${baseURL}/runs`, {
+      method: "POST",
+      body: JSON.stringify({ prompt: " " }),
+    });
+    assert.equal(empty.status, 400);
+    assert.deepEqual(await empty.json(), {
+      error: 'Expected { "prompt": "..." }',
+    });
+
+    const missing = await api(`${baseURL}/runs/nope`);
+    assert.equal(missing.status, 404);
+    assert.deepEqual(await missing.json(), { error: "Unknown run: nope" });
+
+    await assert.rejects(listen(`${eventsURL}/runs/nope/events`).opened, /404/);
+
+    const text = await api(`${baseURL}/runs`, {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: JSON.stringify({ prompt: "Open gedit" }),
+    });
+    assert.equal(text.status, 415);
+  });
+
+  it("only answers requests with its token from allowed origins", async () => {
+    const anonymous = await fetch(`${baseURL}/runs`);
+    assert.equal(anonymous.status, 401);
+    const wrong = await fetch(`${baseURL}/runs`, {
+      headers: { Authorization: "Bearer guess" },
+    });
+    assert.equal(wrong.status, 401);
+    // The first run, which finished and kept its desktop
+    const run = (await getJson<RunInfo[]>(`${baseURL}/runs`)).at(-1)!;
+    const screen = await fetch(
+      `${baseURL}/runs/${run.id}/screenshot?token=${TOKEN}`
+    );
+    assert.equal(screen.status, 200);
+
+    const dashboard = await api(`${baseURL}/runs`, {
+      headers: { Origin: "http://localhost:3000" },
+    });
+    assert.equal(dashboard.status, 200);
+    assert.equal(
+      dashboard.headers.get("access-control-allow-origin"),
+      "http://localhost:3000"
+    );
+    const runs = (await getJson<RunInfo[]>(`${baseURL}/runs`)).length;
+    const evil = await api(`${baseURL}/runs`, {
+      method: "POST",
+      headers: { Origin: "https://evil.example" },
+      body: JSON.stringify({ prompt: "Delete everything" }),
+    });
+    assert.equal(evil.status, 403);
+    assert.equal(evil.headers.get("access-control-allow-origin"), null);
+    assert.equal((await getJson<RunInfo[]>(`${baseURL}/runs`)).length, runs);
+
+    await assert.rejects(
+      once(new WebSocket(`${eventsURL}/events`), "open"),
+      /401/
+    );
+    await assert.rejects(
+      once(
+        new WebSocket(`${eventsURL}/events?token=${TOKEN}`, {
+          origin: "https://evil.example",
+        }),
+        "open"
+      ),
+      /403/
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ApprovalPolicy,
+  type ApprovalDecision,
+  type ApprovalMode,
+} from "../../src/approval-policy.js";
+
+function createPolicy(
+  decision: ApprovalDecision = { action: "approve" },
+  mode: ApprovalMode = "risky"
+) {
+  const prompts: string[] = [];
+  const policy = new ApprovalPolicy({
+    mode,
+    prompt: async (action, reason) => {
+      prompts.push(`${action.name}: ${reason}`);
+      return decision;
+    },
+  });
+  return { policy, prompts };
+}
+
+function call(name: string, input: Record<string, unknown> = {}) {
+  return { id: "toolu_1", name, input };
+}
+
+describe("ApprovalPolicy", () => {
+  it("flags launching a terminal", () => {
+    const { policy } = createPolicy();
+
+    assert.equal(
+      policy.classify(call("launch_app", { app: "terminal" })),
+      "launches a terminal"
+    );
+    assert.equal(policy.classify(call("launch_app", { app: "gedit" })), null);
+  });
+
+  it("flags Return and newlines only once a terminal is open", () => {
+    const { policy } = createPolicy();
+    const hooks = policy.hooks();
+
+    assert.equal(policy.classify(call("key", { key: "Return" })), null);
+
+    hooks.onToolResult?.(
+      call("launch_app", { app: "terminal" }),
+      { type: "tool_result", tool_use_id: "toolu_1", content: "ok" },
+      1,
+      0
+    );
+
+    assert.match(policy.classify(call("key", { key: "enter" }))!, /Return/);
+    assert.match(policy.classify(call("key", { key: "KP_Enter" }))!, /Return/);
+    assert.match(
+      policy.classify(call("type", { text: "rm -rf build\n" }))!,
+      /newline/
+    );
+    assert.equal(policy.classify(call("type", { text: "ls" })), null);
+    assert.equal(policy.classify(call("key", { key: "ctrl+c" })), null);
+  });
+
+  it("does not track apps that failed to launch", () => {
+    const { policy } = createPolicy();
+
+    policy.hooks().onToolResult?.(
+      call("launch_app", { app: "terminal" }),
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        content: "failed",
+        is_error: true,
+      },
+      1,
+      0
+    );
+
+    assert.equal(policy.classify(call("key", { key: "Return" })), null);
+  });
+
+  it("flags typing while the model talks about passwords", () => {
+    const { policy } = createPolicy();
+
+    policy.hooks().onText?.("Now I'll enter the password.", 1);
+
+    assert.match(
+      policy.classify(call("type", { text: "hunter2" }))!,
+      /password/
+    );
+    assert.equal(policy.classify(call("click", { x: 1, y: 2 })), null);
+  });
+
+  it("asks for every desktop-changing action in all mode", () => {
+    const { policy } = createPolicy({ action: "approve" }, "all");
+
+    assert.ok(policy.classify(call("click", { x: 1, y: 2 })));
+    assert.equal(policy.classify(call("screenshot")), null);
+    assert.equal(policy.classify(call("wait", { duration: 10 })), null);
+  });
+
+  it("never asks in off mode", () => {
+    const { policy } = createPolicy({ action: "approve" }, "off");
+
+    assert.equal(policy.classify(call("launch_app", { app: "terminal" })), null);
+  });
+
+  it("passes safe calls through without prompting", async () => {
+    const { policy, prompts } = createPolicy({ action: "reject" });
+
+    const input = await policy.review(call("click", { x: 1, y: 2 }));
+
+    assert.deepEqual(input, { x: 1, y: 2 });
+    assert.deepEqual(prompts, []);
+  });
+
+  it("returns approved and edited input", async () => {
+    const approving = createPolicy({ action: "approve" });
+    assert.deepEqual(
+      await approving.policy.review(call("launch_app", { app: "terminal" })),
+      { app: "terminal" }
+    );
+    assert.deepEqual(approving.prompts, ["launch_app: launches a terminal"]);
+
+    const editing = createPolicy({ action: "edit", input: { app: "gedit" } });
+    assert.deepEqual(
+      await editing.policy.review(call("launch_app", { app: "terminal" })),
+      { app: "gedit" }
+    );
+  });
+
+  it("throws with the operator's reason on rejection", async () => {
+    const { policy } = createPolicy({ action: "reject", reason: "not now" });
+
+    await assert.rejects(
+      policy.review(call("launch_app", { app: "terminal" })),
+      /rejected by the operator: not now/
+    );
+  });
+});
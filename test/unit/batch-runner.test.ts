@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { AnthropicModelProvider } from "../../src/anthropic-model-provider.js";
+import { loadBatchTasks, runBatch } from "../../src/batch-runner.js";
+import { CONFIG } from "../../src/config.js";
+import { ComputerUseAgent } from "../../src/index.js";
+import { MockModelServer } from "../../src/mock-model-server.js";
+import { SandboxPool } from "../../src/sandbox-pool.js";
+import { FakeDesktopBackend } from "../fakes.js";
+
+describe("runBatch", () => {
+  const model = new MockModelServer();
+  let dir: string;
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "batch-runner-"));
+    CONFIG.agent.sessionDir = dir;
+    await model.start();
+  });
+
+  after(async () => {
+    await model.stop();
+  });
+
+  it("runs tasks in parallel on pooled desktops", async () => {
+    const desktops: FakeDesktopBackend[] = [];
+    const pool = new SandboxPool({
+      size: 2,
+      create: async () => {
+        const desktop = new FakeDesktopBackend();
+        // The second desktop cannot take screenshots, so its task fails
+        if (desktops.push(desktop) === 2) {
+          desktop.failOn.add("screenshot");
+        }
+        return desktop;
+      },
+    });
+    let mostLeased = 0;
+
+    const results = await runBatch(
+      ["one", "two", "three"].map((name) => ({ name, prompt: `Do ${name}` })),
+      {
+        pool,
+        createAgent: (desktop) => {
+          mostLeased = Math.max(mostLeased, pool.stats.leased);
+          return new ComputerUseAgent(
+            desktop,
+            new AnthropicModelProvider({
+              provider: "anthropic",
+              name: "mock-model",
+              apiKey: "test",
+              baseURL: model.baseURL("screenshot-click"),
+            })
+          );
+        },
+      }
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.name, result.status]),
+      [
+        ["one", "completed"],
+        ["two", "failed"],
+        ["three", "completed"],
+      ]
+    );
+    assert.match(results[0].result ?? "", /Clicked the button/);
+    assert.equal(results[1].error, "screenshot failed");
+    assert.equal(results[0].usage.steps.length, 3);
+    assert.ok(results.every((result) => result.runId));
+    assert.equal(mostLeased, 2);
+    assert.equal(desktops.length, 3);
+    assert.ok(desktops.every((desktop) => desktop.killed));
+    assert.deepEqual(pool.stats, { size: 2, idle: 0, leased: 0, waiting: 0 });
+  });
+
+  it("reports a desktop that fails to start as a failed task", async () => {
+    let created = 0;
+    const pool = new SandboxPool({
+      size: 2,
+      create: async () => {
+        if (++created === 1) {
+          throw new Error("E2B quota exceeded");
+        }
+        return new FakeDesktopBackend();
+      },
+    });
+
+    const results = await runBatch(
+      ["one", "two", "three"].map((name) => ({ name, prompt: `Do ${name}` })),
+      {
+        pool,
+        createAgent: (desktop) =>
+          new ComputerUseAgent(
+            desktop,
+            new AnthropicModelProvider({
+              provider: "anthropic",
+              name: "mock-model",
+              apiKey: "test",
+              baseURL: model.baseURL("text-only"),
+            })
+          ),
+      }
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.name, result.status, result.error]),
+      [
+        ["one", "failed", "E2B quota exceeded"],
+        ["two", "completed", undefined],
+        ["three", "completed", undefined],
+      ]
+    );
+    assert.equal(results[0].desktopId, undefined);
+    assert.equal(results[0].usage.steps.length, 0);
+    assert.deepEqual(pool.stats, { size: 2, idle: 0, leased: 0, waiting: 0 });
+  });
+
+  it("fails tasks whose verifiers fail", async () => {
+    const pool = new SandboxPool({
+      size: 1,
+      create: async () => {
+        const desktop = new FakeDesktopBackend();
+        desktop.onCommand = (command) => ({
+          exitCode: command.includes("done.txt") ? 0 : 1,
+          stdout: "",
+          stderr: "",
+        });
+        return desktop;
+      },
+    });
+
+    const results = await runBatch(
+      ["done", "missing"].map((name) => ({
+        name,
+        prompt: `Create ${name}.txt`,
+        verify: [{ type: "file" as const, path: `/tmp/${name}.txt` }],
+      })),
+      {
+        pool,
+        createAgent: (desktop) =>
+          new ComputerUseAgent(
+            desktop,
+            new AnthropicModelProvider({
+              provider: "anthropic",
+              name: "mock-model",
+              apiKey: "test",
+              baseURL: model.baseURL("text-only"),
+            })
+          ),
+      }
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.status, result.error]),
+      [
+        ["completed", undefined],
+        ["failed", "Verification failed"],
+      ]
+    );
+    assert.deepEqual(results[1].verification, [
+      {
+        verifier: "/tmp/missing.txt exists",
+        passed: false,
+        detail: "/tmp/missing.txt does not exist",
+      },
+    ]);
+  });
+
+  it("loads prompts and named tasks from a file", () => {
+    const file = path.join(dir, "tasks.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify(["Open gedit", { name: "calc", prompt: "Add 2 and 2" }])
+    );
+
+    assert.deepEqual(loadBatchTasks(file), [
+      { name: "task-1", prompt: "Open gedit" },
+      { name: "calc", prompt: "Add 2 and 2", verify: [] },
+    ]);
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify([
+        { prompt: "Open gedit", verify: [{ type: "window", title: "gedit" }] },
+      ])
+    );
+    assert.deepEqual(loadBatchTasks(file)[0].verify, [
+      { type: "window", title: "gedit" },
+    ]);
+
+    fs.writeFileSync(file, JSON.stringify([{ name: "empty" }]));
+    assert.throws(() => loadBatchTasks(file), /Task 1 in .* has no prompt/);
+  });
+});
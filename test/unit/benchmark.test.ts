@@ -0,0 +1,299 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  formatMarkdown,
+  loadBenchmarkSuite,
+  parseModelSpec,
+  runBenchmark,
+  type BenchmarkSuite,
+} from "../../src/benchmark.js";
+import { CONFIG } from "../../src/config.js";
+import type { CommandResult } from "../../src/desktop-backend.js";
+import { MockModelServer } from "../../src/mock-model-server.js";
+import type { ModelProviderConfig } from "../../src/model-provider.js";
+import { SandboxPool } from "../../src/sandbox-pool.js";
+import { FakeDesktopBackend } from "../fakes.js";
+
+/**
+ * Commands of a desktop whose home holds hello.txt and nothing else
+ */
+function homeWithHello(command: string): CommandResult {
+  if (command.includes("hello.txt")) {
+    return { exitCode: 0, stdout: "hello world\n", stderr: "" };
+  }
+  if (command.startsWith("cat")) {
+    return { exitCode: 1, stdout: "", stderr: "No such file or directory" };
+  }
+  return { exitCode: 0, stdout: "", stderr: "" };
+}
+
+describe("runBenchmark", () => {
+  const model = new MockModelServer();
+  const desktops: FakeDesktopBackend[] = [];
+  let pool: SandboxPool;
+  let models: ModelProviderConfig[];
+
+  before(async () => {
+    CONFIG.agent.sessionDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "benchmark-")
+    );
+    await model.start();
+    models = ["mock-a", "mock-b"].map((name) => ({
+      provider: "anthropic",
+      name,
+      apiKey: "test",
+      baseURL: model.baseURL("screenshot-click"),
+    }));
+    pool = new SandboxPool({
+      size: 2,
+      create: async () => {
+        const desktop = new FakeDesktopBackend();
+        desktop.onCommand = homeWithHello;
+        desktops.push(desktop);
+        return desktop;
+      },
+    });
+  });
+
+  after(async () => {
+    await pool.close();
+    await model.stop();
+  });
+
+  it("runs every task per model and checks the outcome", async () => {
+    const suite: BenchmarkSuite = {
+      name: "files",
+      tasks: [
+        {
+          name: "hello",
+          prompt: "Write hello to ~/hello.txt",
+          setup: "rm -f ~/hello.txt",
+          verify: [{ type: "file", path: "~/hello.txt", contains: "hello" }],
+        },
+        {
+          name: "notes",
+          prompt: "Save your notes to ~/notes.txt",
+          verify: [{ type: "file", path: "~/notes.txt" }],
+        },
+      ],
+    };
+
+    const report = await runBenchmark(suite, { models, runs: 2, pool });
+
+    assert.equal(report.runs.length, 8);
+    assert.deepEqual(report.models, ["anthropic:mock-a", "anthropic:mock-b"]);
+    assert.deepEqual(
+      report.tasks.map((task) => [task.task, task.model, task.successRate]),
+      [
+        ["hello", "anthropic:mock-a", 1],
+        ["hello", "anthropic:mock-b", 1],
+        ["notes", "anthropic:mock-a", 0],
+        ["notes", "anthropic:mock-b", 0],
+      ]
+    );
+    assert.deepEqual(
+      report.totals.map((total) => [total.model, total.passed, total.runs]),
+      [
+        ["anthropic:mock-a", 2, 4],
+        ["anthropic:mock-b", 2, 4],
+      ]
+    );
+    assert.equal(report.totals[0].meanSteps, 3);
+    assert.ok(report.totals[0].meanTokens > 0);
+
+    const failed = report.runs.find((run) => run.task === "notes");
+    assert.equal(failed?.status, "failed");
+    assert.deepEqual(failed?.verification, [
+      {
+        verifier: "~/notes.txt exists",
+        passed: false,
+        detail: "~/notes.txt does not exist",
+      },
+    ]);
+    const hello = desktops.find((desktop) =>
+      desktop.calls.some((call) => call.args[0] === "rm -f ~/hello.txt")
+    );
+    assert.deepEqual(
+      hello?.calls
+        .filter((call) => call.method === "runCommand")
+        .map((call) => call.args[0]),
+      ["rm -f ~/hello.txt", `cat -- "$HOME"/'hello.txt'`]
+    );
+    assert.equal(desktops.length, 8);
+    assert.ok(desktops.every((desktop) => desktop.killed));
+
+    const markdown = formatMarkdown(report);
+    assert.match(markdown, /^# Benchmark: files/);
+    assert.match(markdown, /\| anthropic:mock-a \| 50% \(2\/4\) \| 3\.0 \|/);
+    assert.match(markdown, /\| notes \| anthropic:mock-b \| 0% \(0\/2\) \|/);
+    assert.match(
+      markdown,
+      /- notes \(anthropic:mock-a, run 1\): ~\/notes\.txt exists: ~\/notes\.txt does not exist/
+    );
+  });
+
+  it("reports a failed setup as an error without running the agent", async () => {
+    const requests = model.requests.length;
+    const suite: BenchmarkSuite = {
+      name: "broken",
+      tasks: [
+        { name: "setup", prompt: "Anything", setup: "cat missing", verify: [] },
+      ],
+    };
+
+    const report = await runBenchmark(suite, {
+      models: models.slice(0, 1),
+      pool,
+    });
+
+    assert.equal(report.runs[0].status, "error");
+    assert.equal(
+      report.runs[0].error,
+      "Setup failed with exit code 1: No such file or directory"
+    );
+    assert.equal(report.runs[0].steps, 0);
+    assert.equal(model.requests.length, requests);
+  });
+});
+
+describe("runBenchmark without desktops", () => {
+  it("reports attempts that get no desktop as errors", async () => {
+    const pool = new SandboxPool({
+      size: 1,
+      create: async () => {
+        throw new Error("Xvfb not found");
+      },
+    });
+    const suite: BenchmarkSuite = {
+      name: "nodesktop",
+      tasks: [{ name: "any", prompt: "Anything", verify: [] }],
+    };
+
+    const report = await runBenchmark(suite, {
+      models: [{ provider: "anthropic", name: "mock", apiKey: "test" }],
+      runs: 2,
+      pool,
+    });
+
+    assert.deepEqual(
+      report.runs.map((run) => [run.status, run.error, run.durationMs]),
+      [
+        ["error", "Xvfb not found", 0],
+        ["error", "Xvfb not found", 0],
+      ]
+    );
+    assert.equal(report.totals[0].passed, 0);
+  });
+});
+
+describe("loadBenchmarkSuite", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "benchmark-suite-"));
+
+  it("loads YAML suites and resolves references next to the file", () => {
+    const file = path.join(dir, "desktop.yaml");
+    fs.writeFileSync(
+      file,
+      [
+        "runs: 3",
+        "tasks:",
+        "  - name: wallpaper",
+        "    prompt: Set a blue wallpaper",
+        "    verify:",
+        "      - type: screenshot",
+        "        reference: refs/blue.png",
+        "  - prompt: Open gedit",
+      ].join("\n")
+    );
+
+    assert.deepEqual(loadBenchmarkSuite(file), {
+      name: "desktop",
+      runs: 3,
+      models: undefined,
+      tasks: [
+        {
+          name: "wallpaper",
+          prompt: "Set a blue wallpaper",
+          setup: undefined,
+          verify: [
+            { type: "screenshot", reference: path.join(dir, "refs/blue.png") },
+          ],
+        },
+        {
+          name: "task-2",
+          prompt: "Open gedit",
+          setup: undefined,
+          verify: [],
+        },
+      ],
+    });
+  });
+
+  it("rejects suites without tasks and unknown verifiers", () => {
+    const file = path.join(dir, "broken.json");
+    fs.writeFileSync(file, JSON.stringify({ tasks: [] }));
+    assert.throws(
+      () => loadBenchmarkSuite(file),
+      /Invalid benchmark suite .*broken\.json: expected a non-empty `tasks` list/
+    );
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ tasks: [{ prompt: "x", verify: [{ type: "vibes" }] }] })
+    );
+    assert.throws(
+      () => loadBenchmarkSuite(file),
+      /task 1 has a verifier of unknown type vibes/
+    );
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ tasks: [{ prompt: "x", setup: ["rm", "-rf", "/"] }] })
+    );
+    assert.throws(
+      () => loadBenchmarkSuite(file),
+      /task 1 has a setup that is not a shell script/
+    );
+
+    fs.writeFileSync(file, JSON.stringify({ runs: "3", tasks: ["x"] }));
+    assert.throws(
+      () => loadBenchmarkSuite(file),
+      /`runs` must be a positive whole number/
+    );
+  });
+});
+
+describe("parseModelSpec", () => {
+  it("takes the provider from a prefix, else from the configuration", () => {
+    assert.equal(parseModelSpec("openai:gpt-4o").provider, "openai");
+    assert.equal(parseModelSpec("openai:gpt-4o").name, "gpt-4o");
+    assert.equal(parseModelSpec("qwen3:8b").provider, CONFIG.model.provider);
+    assert.equal(parseModelSpec("qwen3:8b").name, "qwen3:8b");
+  });
+
+  it("gives each prefixed provider its own endpoint and key", () => {
+    const env = { ...process.env };
+    process.env.ANTHROPIC_API_KEY = "sk-ant";
+    delete process.env.ANTHROPIC_BASE_URL;
+    process.env.OPENAI_API_KEY = "sk-openai";
+    process.env.OPENAI_BASE_URL = "http://localhost:11434/v1";
+    try {
+      assert.deepEqual(parseModelSpec("anthropic:claude-sonnet-4-5"), {
+        provider: "anthropic",
+        name: "claude-sonnet-4-5",
+        baseURL: undefined,
+        apiKey: "sk-ant",
+      });
+      assert.deepEqual(parseModelSpec("openai:qwen2.5-vl"), {
+        provider: "openai",
+        name: "qwen2.5-vl",
+        baseURL: "http://localhost:11434/v1",
+        apiKey: "sk-openai",
+      });
+    } finally {
+      process.env = env;
+    }
+  });
+});
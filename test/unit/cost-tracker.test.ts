@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  CostTracker,
+  DEFAULT_PRICES,
+  combineUsage,
+  findPrice,
+  formatUsage,
+  loadPriceTable,
+} from "../../src/cost-tracker.js";
+
+function usage(inputTokens: number, outputTokens: number) {
+  return { inputTokens, outputTokens };
+}
+
+function writePrices(content: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "prices-"));
+  const file = path.join(dir, "prices.json");
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+describe("findPrice", () => {
+  it("matches the longest prefix of the model name", () => {
+    assert.deepEqual(findPrice("claude-3-5-sonnet-20241022"), {
+      input: 3,
+      output: 15,
+    });
+    assert.deepEqual(findPrice("gpt-4o-mini-2024-07-18"), {
+      input: 0.15,
+      output: 0.6,
+    });
+    assert.equal(findPrice("qwen2.5-vl"), undefined);
+  });
+});
+
+describe("loadPriceTable", () => {
+  it("merges a price file over the defaults", () => {
+    const prices = loadPriceTable(
+      writePrices(JSON.stringify({ "qwen2.5-vl": { input: 0.2, output: 0.6 } }))
+    );
+
+    assert.deepEqual(prices["qwen2.5-vl"], { input: 0.2, output: 0.6 });
+    assert.deepEqual(prices["gpt-4o"], DEFAULT_PRICES["gpt-4o"]);
+    assert.equal(loadPriceTable(undefined), DEFAULT_PRICES);
+  });
+
+  it("rejects malformed price files", () => {
+    assert.throws(
+      () => loadPriceTable(writePrices("{")),
+      /Invalid price table .*prices\.json/
+    );
+    assert.throws(
+      () => loadPriceTable(writePrices('{"gpt-4o": {"input": "2.5"}}')),
+      /gpt-4o needs numeric "input" and "output"/
+    );
+  });
+});
+
+describe("CostTracker", () => {
+  it("accounts tokens, images and cost per step", () => {
+    const tracker = new CostTracker({
+      model: "claude-3-5-sonnet-20241022",
+      limits: {},
+    });
+
+    tracker.recordResponse(1, usage(1000, 200), usage(1, 1), 1);
+    tracker.completeStep(1);
+    tracker.recordResponse(2, undefined, usage(500, 100), 2);
+    tracker.completeStep(2);
+
+    const summary = tracker.summary();
+    assert.equal(summary.steps.length, 2);
+    assert.equal(summary.inputTokens, 1500);
+    assert.equal(summary.outputTokens, 300);
+    assert.equal(summary.images, 3);
+    assert.ok(Math.abs(summary.costUsd - 0.009) < 1e-9);
+    assert.equal(summary.steps[0].estimated, undefined);
+    assert.equal(summary.steps[1].estimated, true);
+    assert.match(
+      formatUsage(summary),
+      /2 steps, 1500 in \/ 300 out tokens \(estimated\), 3 images/
+    );
+  });
+
+  it("reports the first limit reached", () => {
+    const tracker = new CostTracker({
+      model: "claude-opus-4-1",
+      limits: { maxTokens: 10_000, maxCostUsd: 0.1 },
+    });
+
+    tracker.recordResponse(1, usage(2000, 500), usage(0, 0), 0);
+    assert.equal(tracker.exceededLimit(), null);
+
+    tracker.recordResponse(2, usage(4000, 500), usage(0, 0), 0);
+    assert.equal(
+      tracker.exceededLimit(),
+      "cost limit reached ($0.1650 of $0.1000)"
+    );
+
+    const byTokens = new CostTracker({
+      model: "x",
+      limits: { maxTokens: 100 },
+    });
+    byTokens.recordResponse(1, usage(80, 20), usage(0, 0), 0);
+    assert.equal(byTokens.exceededLimit(), "token limit reached (100 of 100)");
+  });
+
+  it("flags models without a price", () => {
+    const tracker = new CostTracker({ model: "qwen2.5-vl", limits: {} });
+    tracker.recordResponse(1, usage(10, 10), usage(0, 0), 0);
+
+    const summary = tracker.summary();
+    assert.equal(summary.unpriced, true);
+    assert.match(
+      formatUsage(summary),
+      /cost unknown \(no price for qwen2\.5-vl\)/
+    );
+    assert.equal(
+      combineUsage("qwen2.5-vl", [summary, summary]).inputTokens,
+      20
+    );
+  });
+});
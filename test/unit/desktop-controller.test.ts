@@ -0,0 +1,271 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { describe, it } from "node:test";
+import { TaskExecutor } from "../../src/desktop-controller.js";
+import { createFakeController } from "../fakes.js";
+
+describe("DesktopController", () => {
+  it("clicks with the requested button", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.click({ x: 10, y: 20 });
+    await controller.click({ x: 30, y: 40, button: "right" });
+
+    assert.deepEqual(backend.calls, [
+      { method: "click", args: [{ x: 10, y: 20 }, "left"] },
+      { method: "click", args: [{ x: 30, y: 40 }, "right"] },
+    ]);
+  });
+
+  it("uses the backend double-click for the left button", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.click({ x: 5, y: 6, doubleClick: true });
+
+    assert.deepEqual(backend.methods, ["doubleClick"]);
+  });
+
+  it("double-clicks other buttons with two clicks", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.click({ x: 5, y: 6, button: "middle", doubleClick: true });
+
+    assert.deepEqual(backend.methods, ["click", "click"]);
+  });
+
+  it("normalises key chords before pressing them", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.pressKey("Control+Shift+T");
+    await controller.pressKey({ key: "enter", modifiers: ["alt"] });
+    await controller.pressKeys(["esc", "pgdn"]);
+
+    assert.deepEqual(
+      backend.calls.map((call) => call.args[0]),
+      ["ctrl+shift+t", "alt+Return", "Escape", "Page_Down"]
+    );
+  });
+
+  it("rejects unknown keys without touching the backend", async () => {
+    const { backend, controller } = createFakeController();
+
+    await assert.rejects(controller.pressKey("Retrun"), /Did you mean "Return"/);
+    assert.equal(backend.calls.length, 0);
+  });
+
+  it("types text at once or character by character", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.type("hello");
+    await controller.type({ text: "ab", delayMs: 1 });
+
+    assert.deepEqual(
+      backend.calls.map((call) => call.args[0]),
+      ["hello", "a", "b"]
+    );
+  });
+
+  it("moves to the scroll position before scrolling", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.scroll("down", 5, { x: 100, y: 200 });
+    await controller.scroll("up");
+
+    assert.deepEqual(backend.calls, [
+      { method: "moveMouse", args: [{ x: 100, y: 200 }] },
+      { method: "scroll", args: ["down", 5] },
+      { method: "scroll", args: ["up", 3] },
+    ]);
+  });
+
+  it("drags through interpolated points with the button held", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.drag(0, 0, 100, 50, { steps: 4, stepDelayMs: 0 });
+
+    assert.deepEqual(backend.methods, [
+      "moveMouse",
+      "mouseDown",
+      "moveMouse",
+      "moveMouse",
+      "moveMouse",
+      "moveMouse",
+      "mouseUp",
+    ]);
+    assert.deepEqual(
+      backend.calls
+        .filter((call) => call.method === "moveMouse")
+        .map((call) => call.args[0]),
+      [
+        { x: 0, y: 0 },
+        { x: 25, y: 13 },
+        { x: 50, y: 25 },
+        { x: 75, y: 38 },
+        { x: 100, y: 50 },
+      ]
+    );
+  });
+
+  it("follows an explicit drag path", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.drag(0, 0, 10, 10, {
+      path: [{ x: 10, y: 0 }],
+      stepDelayMs: 0,
+    });
+
+    assert.deepEqual(
+      backend.calls
+        .filter((call) => call.method === "moveMouse")
+        .map((call) => call.args[0]),
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+      ]
+    );
+  });
+
+  it("releases the button when a drag fails midway", async () => {
+    const { backend, controller } = createFakeController();
+    let moves = 0;
+    backend.moveMouse = async (position) => {
+      backend.calls.push({ method: "moveMouse", args: [position] });
+      if (++moves === 2) {
+        throw new Error("pointer lost");
+      }
+    };
+
+    await assert.rejects(
+      controller.drag(0, 0, 10, 10, { stepDelayMs: 0 }),
+      /pointer lost/
+    );
+    assert.equal(backend.methods.at(-1), "mouseUp");
+  });
+
+  it("downscales screenshots and maps coordinates back", async () => {
+    const { backend, controller } = createFakeController({
+      width: 2560,
+      height: 1600,
+    });
+
+    const screenshot = await controller.takeScreenshot();
+
+    assert.equal(screenshot.width, 1280);
+    assert.equal(screenshot.height, 800);
+    assert.equal(screenshot.nativeWidth, 2560);
+    assert.equal(screenshot.mediaType, "image/png");
+    assert.deepEqual(controller.screenshots.toScreen({ x: 100, y: 50 }), {
+      x: 200,
+      y: 100,
+    });
+    assert.deepEqual(controller.screenshots.toImage({ x: 200, y: 100 }), {
+      x: 100,
+      y: 50,
+    });
+    assert.deepEqual(backend.methods, ["screenshot"]);
+  });
+
+  it("never scales screenshots up", async () => {
+    const { controller } = createFakeController({ width: 800, height: 600 });
+
+    const screenshot = await controller.takeScreenshot();
+
+    assert.equal(screenshot.width, 800);
+    assert.equal(screenshot.height, 600);
+    assert.deepEqual(controller.screenshots.toScreen({ x: 7, y: 9 }), {
+      x: 7,
+      y: 9,
+    });
+  });
+
+  it("deletes each screenshot file once it is read", async () => {
+    const { backend, controller } = createFakeController();
+
+    await controller.takeScreenshot();
+    await controller.takeScreenshot();
+
+    assert.equal(backend.screenshotFiles.length, 2);
+    assert.equal(backend.screenshotFiles.some(fs.existsSync), false);
+  });
+});
+
+describe("TaskExecutor", () => {
+  it("runs actions in order", async () => {
+    const { controller } = createFakeController();
+    const executor = new TaskExecutor(controller);
+    const order: number[] = [];
+
+    await executor.executeSequence([
+      async () => {
+        order.push(1);
+      },
+      async () => {
+        order.push(2);
+      },
+    ]);
+
+    assert.deepEqual(order, [1, 2]);
+  });
+
+  it("waits until a condition holds", async () => {
+    const { controller } = createFakeController();
+    const executor = new TaskExecutor(controller);
+    let checks = 0;
+
+    const result = await executor.waitForCondition(
+      async () => ++checks === 3,
+      1000,
+      1
+    );
+
+    assert.equal(result, true);
+    assert.equal(checks, 3);
+  });
+
+  it("gives up waiting after the timeout", async () => {
+    const { controller } = createFakeController();
+    const executor = new TaskExecutor(controller);
+
+    const result = await executor.waitForCondition(async () => false, 20, 5);
+
+    assert.equal(result, false);
+  });
+
+  it("retries failing actions until one succeeds", async () => {
+    const { controller } = createFakeController();
+    const executor = new TaskExecutor(controller);
+    let attempts = 0;
+
+    const result = await executor.retry(
+      async () => {
+        if (++attempts < 3) {
+          throw new Error("not yet");
+        }
+      },
+      3,
+      1
+    );
+
+    assert.equal(result, true);
+    assert.equal(attempts, 3);
+  });
+
+  it("reports failure after the last attempt", async () => {
+    const { controller } = createFakeController();
+    const executor = new TaskExecutor(controller);
+    let attempts = 0;
+
+    const result = await executor.retry(
+      async () => {
+        attempts++;
+        throw new Error("never");
+      },
+      2,
+      1
+    );
+
+    assert.equal(result, false);
+    assert.equal(attempts, 2);
+  });
+});
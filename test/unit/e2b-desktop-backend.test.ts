@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { E2BDesktopBackend } from "../../src/e2b-desktop-backend.js";
+import { FakeSandbox } from "../fakes.js";
+
+function createBackend() {
+  const sandbox = new FakeSandbox();
+  const backend = new E2BDesktopBackend(sandbox as any);
+  return { sandbox, backend };
+}
+
+describe("E2BDesktopBackend", () => {
+  it("uses the sandbox ID as desktop ID", () => {
+    const { backend } = createBackend();
+    assert.equal(backend.id, "fake-sandbox");
+  });
+
+  it("left-clicks directly at the position", async () => {
+    const { sandbox, backend } = createBackend();
+
+    await backend.click({ x: 1, y: 2 });
+
+    assert.deepEqual(sandbox.calls, [
+      { method: "click", args: [{ x: 1, y: 2 }] },
+    ]);
+  });
+
+  it("moves before right, middle and double clicks", async () => {
+    const { sandbox, backend } = createBackend();
+
+    await backend.click({ x: 1, y: 2 }, "right");
+    await backend.click({ x: 3, y: 4 }, "middle");
+    await backend.doubleClick({ x: 5, y: 6 });
+
+    assert.deepEqual(sandbox.calls, [
+      { method: "moveMouse", args: [1, 2] },
+      { method: "rightClick", args: [] },
+      { method: "moveMouse", args: [3, 4] },
+      { method: "middleClick", args: [] },
+      { method: "moveMouse", args: [5, 6] },
+      { method: "doubleClick", args: [] },
+    ]);
+  });
+
+  it("presses and releases mouse buttons", async () => {
+    const { sandbox, backend } = createBackend();
+
+    await backend.mouseDown();
+    await backend.mouseUp("right");
+
+    assert.deepEqual(sandbox.calls, [
+      { method: "mousePress", args: ["left"] },
+      { method: "mouseRelease", args: ["right"] },
+    ]);
+  });
+
+  it("scrolls vertically and rejects horizontal scrolling", async () => {
+    const { sandbox, backend } = createBackend();
+
+    await backend.scroll("down", 2);
+    await assert.rejects(backend.scroll("left", 1), /does not support scrolling left/);
+
+    assert.deepEqual(sandbox.calls, [{ method: "scroll", args: ["down", 2] }]);
+  });
+
+  it("delegates keyboard, launch and lifecycle calls", async () => {
+    const { sandbox, backend } = createBackend();
+
+    await backend.write("hello");
+    await backend.press("ctrl+a");
+    await backend.launch("gedit");
+    assert.deepEqual(await backend.getCursorPosition(), { x: 12, y: 34 });
+    assert.equal(await backend.screenshot(), "/tmp/fake-sandbox.png");
+    await backend.keepAlive(60000);
+    await backend.kill();
+
+    assert.deepEqual(
+      sandbox.calls.map((call) => call.method),
+      [
+        "write",
+        "press",
+        "launch",
+        "getCursorPosition",
+        "screenshot",
+        "setTimeout",
+        "kill",
+      ]
+    );
+    assert.deepEqual(sandbox.calls[5].args, [60000]);
+  });
+
+  it("reports the exit code of commands instead of throwing", async () => {
+    const { sandbox, backend } = createBackend();
+
+    assert.deepEqual(await backend.runCommand("echo ok"), {
+      exitCode: 0,
+      stdout: "ok\n",
+      stderr: "",
+    });
+    sandbox.commandResult = { exitCode: 2, stdout: "", stderr: "missing" };
+    assert.deepEqual(await backend.runCommand("ls nope"), {
+      exitCode: 2,
+      stdout: "",
+      stderr: "missing",
+    });
+  });
+
+  it("starts an authenticated stream once and reuses its URL", async () => {
+    const { sandbox, backend } = createBackend();
+
+    const first = await backend.startStream();
+    const second = await backend.startStream();
+
+    assert.equal(
+      first.url,
+      "https://6080-fake-sandbox.e2b.app/vnc.html?password=secret"
+    );
+    assert.deepEqual(second, first);
+    assert.deepEqual(sandbox.calls, [
+      { method: "stream.start", args: [{ requireAuth: true }] },
+      { method: "stream.getAuthKey", args: [] },
+      { method: "stream.getUrl", args: [{ authKey: "secret" }] },
+    ]);
+  });
+});
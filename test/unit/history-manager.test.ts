@@ -0,0 +1,271 @@
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import type Anthropic from "@anthropic-ai/sdk";
+import {
+  HistoryManager,
+  countImages,
+  estimateTokens,
+  removeLastInstruction,
+  renderTranscript,
+} from "../../src/history-manager.js";
+import type {
+  ModelCapabilities,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+} from "../../src/model-provider.js";
+
+/**
+ * Provider that answers with the given summary and records its requests
+ */
+function createProvider(
+  summary: string | Error,
+  capabilities: Partial<ModelCapabilities> = {}
+) {
+  const requests: ModelRequest[] = [];
+  const provider: ModelProvider = {
+    kind: "anthropic",
+    model: "mock-model",
+    capabilities: { vision: true, toolUse: true, maxImages: 20, ...capabilities },
+    createMessage: async (request): Promise<ModelResponse> => {
+      requests.push(request);
+      if (summary instanceof Error) {
+        throw summary;
+      }
+      return {
+        content: [{ type: "text", text: summary }],
+        stopReason: "end_turn",
+      };
+    },
+  };
+  return { provider, requests };
+}
+
+const image: Anthropic.ImageBlockParam = {
+  type: "image",
+  source: { type: "base64", media_type: "image/png", data: "AAAA" },
+};
+
+/** A click and its result, a screenshot */
+function clickTurn(index: number): Anthropic.MessageParam[] {
+  return [
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool_use",
+          id: `call-${index}`,
+          name: "click",
+          input: { x: index, y: index },
+        },
+      ],
+    },
+    {
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: `call-${index}`, content: [image] },
+      ],
+    },
+  ];
+}
+
+function createHistory(): Anthropic.MessageParam[] {
+  return [
+    { role: "user", content: [image, { type: "text", text: "x".repeat(4000) }] },
+    ...clickTurn(1),
+    ...clickTurn(2),
+    ...clickTurn(3),
+  ];
+}
+
+describe("HistoryManager", () => {
+  it("keeps only the newest images, including those in tool results", () => {
+    const { provider } = createProvider("unused");
+    const history = createHistory();
+    const manager = new HistoryManager({ provider, maxImages: 2 });
+
+    assert.equal(manager.pruneImages(history), 2);
+
+    assert.equal(countImages(history), 2);
+    assert.deepEqual(history[0].content, [
+      { type: "text", text: "[Earlier screenshot removed to save context]" },
+      { type: "text", text: "x".repeat(4000) },
+    ]);
+    assert.deepEqual(history[2].content, [
+      {
+        type: "tool_result",
+        tool_use_id: "call-1",
+        content: [
+          { type: "text", text: "[Earlier screenshot removed to save context]" },
+        ],
+      },
+    ]);
+    assert.deepEqual(history.at(-1), clickTurn(3)[1]);
+  });
+
+  it("keeps no images for models without vision", () => {
+    const { provider } = createProvider("unused", { vision: false });
+    const history = createHistory();
+
+    new HistoryManager({ provider, maxImages: 5 }).pruneImages(history);
+
+    assert.equal(countImages(history), 0);
+  });
+
+  it("summarises older turns once over the token budget", async () => {
+    const { provider, requests } = createProvider("Clicked twice.");
+    const history = createHistory();
+    const manager = new HistoryManager({
+      provider,
+      maxImages: 1,
+      tokenBudget: 500,
+      keepRecentMessages: 2,
+    });
+
+    const result = await manager.compact(history);
+
+    assert.deepEqual(history, [
+      {
+        role: "user",
+        content: "Summary of the earlier conversation:\nClicked twice.",
+      },
+      ...clickTurn(3),
+    ]);
+    assert.equal(result.imagesRemoved, 3);
+    assert.equal(result.messagesSummarised, 5);
+    assert.ok(result.tokensAfter < result.tokensBefore);
+    assert.equal(result.tokensAfter, estimateTokens(history));
+
+    assert.equal(requests.length, 1);
+    assert.equal(result.summaryCall?.request, requests[0]);
+    assert.deepEqual(result.summaryCall?.response.content, [
+      { type: "text", text: "Clicked twice." },
+    ]);
+    const transcript = String(requests[0].messages[0].content);
+    assert.match(transcript, /^USER:\n\[Earlier screenshot removed/);
+    assert.match(transcript, /\[tool call\] click \{"x":2,"y":2\}/);
+    assert.doesNotMatch(transcript, /call-3|"x":3/);
+  });
+
+  it("does not summarise when only the recent turns are large", async () => {
+    const { provider, requests } = createProvider("unused");
+    const history: Anthropic.MessageParam[] = [
+      { role: "user", content: "open gedit" },
+      ...clickTurn(1),
+    ];
+    const manager = new HistoryManager({
+      provider,
+      tokenBudget: 100,
+      keepRecentMessages: 2,
+    });
+
+    const result = await manager.compact(history);
+
+    assert.equal(result.messagesSummarised, 0);
+    assert.equal(result.summaryCall, undefined);
+    assert.equal(history.length, 3);
+    assert.equal(requests.length, 0);
+  });
+
+  it("keeps the history when the summary fails", async () => {
+    const warn = mock.method(console, "warn", () => {});
+    const { provider } = createProvider(new Error("rate limited"));
+    const history = createHistory();
+    const manager = new HistoryManager({
+      provider,
+      maxImages: 1,
+      tokenBudget: 500,
+      keepRecentMessages: 2,
+    });
+
+    try {
+      const result = await manager.compact(history);
+
+      assert.equal(result.messagesSummarised, 0);
+      assert.equal(history.length, 7);
+      assert.match(
+        String(warn.mock.calls[0].arguments[0]),
+        /Could not summarise history: rate limited/
+      );
+    } finally {
+      warn.mock.restore();
+    }
+  });
+});
+
+describe("renderTranscript", () => {
+  it("renders messages as text without images", () => {
+    assert.equal(
+      renderTranscript([
+        { role: "user", content: [image, { type: "text", text: "Save it" }] },
+        ...clickTurn(1),
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "call-2",
+              content: "Blocked",
+              is_error: true,
+            },
+          ],
+        },
+      ]),
+      [
+        "USER:\n[screenshot]\nSave it",
+        'ASSISTANT:\n[tool call] click {"x":1,"y":1}',
+        "USER:\n[tool result] [screenshot]",
+        "USER:\n[tool result (error)] Blocked",
+      ].join("\n\n")
+    );
+  });
+});
+
+describe("removeLastInstruction", () => {
+  it("removes the last instruction and the turns after it", () => {
+    const history: Anthropic.MessageParam[] = [
+      { role: "user", content: "open gedit" },
+      { role: "assistant", content: "Done." },
+      { role: "user", content: [image, { type: "text", text: "type hi" }] },
+      ...clickTurn(1),
+    ];
+
+    assert.equal(removeLastInstruction(history), 3);
+
+    assert.deepEqual(history, [
+      { role: "user", content: "open gedit" },
+      { role: "assistant", content: "Done." },
+    ]);
+  });
+
+  it("keeps the tool results an instruction after a pause joined", () => {
+    const [call, results] = clickTurn(1);
+    const pending = results.content as Anthropic.ToolResultBlockParam[];
+    const history: Anthropic.MessageParam[] = [
+      { role: "user", content: "open gedit" },
+      call,
+      // Paused here; the next instruction joined the pending results
+      {
+        role: "user",
+        content: [...pending, image, { type: "text", text: "close it" }],
+      },
+      { role: "assistant", content: "Closing." },
+    ];
+
+    assert.equal(removeLastInstruction(history), 2);
+
+    assert.deepEqual(history, [
+      { role: "user", content: "open gedit" },
+      call,
+      { role: "user", content: pending },
+    ]);
+  });
+
+  it("does nothing without an instruction", () => {
+    const history = clickTurn(1);
+
+    assert.equal(removeLastInstruction(history), 0);
+    assert.equal(removeLastInstruction([]), 0);
+    assert.equal(history.length, 2);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sharp from "sharp";
+import { compareImages } from "../../src/image-diff.js";
+
+/** PNG of the given size, with a block of another colour at the top left */
+async function createImage(
+  width: number,
+  height: number,
+  background: string,
+  block?: { width: number; height: number; color: string }
+): Promise<Buffer> {
+  const image = sharp({ create: { width, height, channels: 3, background } });
+  if (block) {
+    const input = await sharp({
+      create: {
+        width: block.width,
+        height: block.height,
+        channels: 3,
+        background: block.color,
+      },
+    })
+      .png()
+      .toBuffer();
+    image.composite([{ input, left: 0, top: 0 }]);
+  }
+  return image.png().toBuffer();
+}
+
+describe("compareImages", () => {
+  it("finds no difference between identical images", async () => {
+    const image = await createImage(20, 10, "#3366cc");
+
+    const diff = await compareImages(image, image);
+
+    assert.equal(diff.width, 20);
+    assert.equal(diff.height, 10);
+    assert.equal(diff.differentPixels, 0);
+    assert.equal(diff.diffRatio, 0);
+  });
+
+  it("counts differing pixels and marks them red", async () => {
+    const expected = await createImage(10, 10, "#000000");
+    const actual = await createImage(10, 10, "#000000", {
+      width: 5,
+      height: 2,
+      color: "#ffffff",
+    });
+
+    const diff = await compareImages(expected, actual);
+
+    assert.equal(diff.differentPixels, 10);
+    assert.equal(diff.diffRatio, 0.1);
+    const { data } = await sharp(diff.diffImage)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    assert.deepEqual([...data.subarray(0, 3)], [255, 0, 0]);
+    assert.deepEqual([...data.subarray(data.length - 3)], [0, 0, 0]);
+  });
+
+  it("ignores differences within the tolerance", async () => {
+    const expected = await createImage(10, 10, "#808080");
+    const actual = await createImage(10, 10, "#888888");
+
+    assert.equal((await compareImages(expected, actual)).differentPixels, 0);
+    assert.equal(
+      (await compareImages(expected, actual, { tolerance: 4 })).diffRatio,
+      1
+    );
+  });
+
+  it("resizes the actual image to the expected size", async () => {
+    const expected = await createImage(40, 20, "#3366cc");
+    const actual = await createImage(80, 40, "#3366cc");
+
+    const diff = await compareImages(expected, actual);
+
+    assert.equal(diff.width, 40);
+    assert.equal(diff.height, 20);
+    assert.equal(diff.differentPixels, 0);
+  });
+});
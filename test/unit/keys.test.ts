@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizeKey, parseKeyCombo, toKeysym } from "../../src/keys.js";
+
+describe("keys", () => {
+  it("normalises aliases to X keysyms", () => {
+    assert.equal(normalizeKey("enter"), "Return");
+    assert.equal(normalizeKey("ESC"), "Escape");
+    assert.equal(normalizeKey("pagedown"), "Page_Down");
+    assert.equal(normalizeKey("f5"), "F5");
+    assert.equal(normalizeKey("/"), "slash");
+    assert.equal(normalizeKey("kp_enter"), "KP_Enter");
+  });
+
+  it("passes single characters through unchanged", () => {
+    assert.equal(normalizeKey("t"), "t");
+    assert.equal(normalizeKey("T"), "T");
+    assert.equal(normalizeKey("7"), "7");
+  });
+
+  it("parses xdotool-style chords in canonical modifier order", () => {
+    assert.deepEqual(parseKeyCombo("shift+Control+t"), {
+      modifiers: ["ctrl", "shift"],
+      key: "t",
+    });
+    assert.equal(toKeysym("cmd+alt+Delete"), "alt+super+Delete");
+    assert.equal(toKeysym("super"), "super");
+  });
+
+  it("treats a trailing plus as the plus key", () => {
+    assert.equal(toKeysym("ctrl++"), "ctrl+plus");
+    assert.equal(toKeysym("+"), "plus");
+  });
+
+  it("lowercases letters when modifiers are held", () => {
+    assert.equal(toKeysym("ctrl+S"), "ctrl+s");
+    assert.equal(toKeysym("S"), "S");
+  });
+
+  it("accepts the KeyOptions form", () => {
+    assert.equal(toKeysym({ key: "tab", modifiers: ["shift"] }), "shift+Tab");
+  });
+
+  it("rejects non-modifiers before the last key", () => {
+    assert.throws(() => toKeysym("a+b"), /only the last key may be a non-modifier/);
+  });
+
+  it("rejects empty combos", () => {
+    assert.throws(() => toKeysym("  "), /must not be empty/);
+  });
+
+  it("suggests the closest key for typos", () => {
+    assert.throws(() => normalizeKey("Retrun"), /Did you mean "Return"/);
+    assert.throws(() => normalizeKey("Backspase"), /Did you mean "BackSpace"/);
+    assert.throws(() => normalizeKey("nonsense"), (error: Error) => {
+      assert.doesNotMatch(error.message, /Did you mean/);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { OpenAIModelProvider } from "../../src/openai-model-provider.js";
+
+/**
+ * Answer fetch with the given chat completion (or error status) and record
+ * the requests
+ */
+function mockFetch(reply: unknown, status = 200) {
+  const requests: { url: string; headers: any; body: any }[] = [];
+  mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+    requests.push({
+      url,
+      headers: init.headers,
+      body: JSON.parse(String(init.body)),
+    });
+    return new Response(
+      typeof reply === "string" ? reply : JSON.stringify(reply),
+      { status }
+    );
+  });
+  return requests;
+}
+
+function createProvider() {
+  return new OpenAIModelProvider({
+    provider: "openai",
+    name: "gpt-test",
+    baseURL: "https://llm.example/v1/",
+    apiKey: "secret",
+  });
+}
+
+const completion = {
+  choices: [
+    {
+      message: {
+        content: "Opening the editor",
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "launch_app", arguments: '{"app":"gedit"}' },
+          },
+        ],
+      },
+      finish_reason: "tool_calls",
+    },
+  ],
+  usage: { prompt_tokens: 120, completion_tokens: 8 },
+};
+
+describe("OpenAIModelProvider", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("translates Anthropic-format conversations to chat messages", async () => {
+    const requests = mockFetch(completion);
+
+    await createProvider().createMessage({
+      system: "You are a test agent.",
+      maxTokens: 100,
+      tools: [
+        {
+          name: "click",
+          description: "Click",
+          input_schema: { type: "object", properties: {}, required: [] },
+        },
+      ],
+      messages: [
+        { role: "user", content: "Open gedit" },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Clicking" },
+            { type: "tool_use", id: "call_0", name: "click", input: { x: 1 } },
+            { type: "tool_use", id: "call_1", name: "screenshot", input: {} },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "call_0", content: "" },
+            {
+              type: "tool_result",
+              tool_use_id: "call_1",
+              content: [
+                { type: "text", text: "Screen captured" },
+                {
+                  type: "image",
+                  source: {
+                    type: "base64",
+                    media_type: "image/png",
+                    data: "AAAA",
+                  },
+                },
+              ],
+              is_error: true,
+            },
+            { type: "text", text: "Hurry up" },
+          ],
+        },
+      ],
+    });
+
+    const [{ url, headers, body }] = requests;
+    assert.equal(url, "https://llm.example/v1/chat/completions");
+    assert.equal(headers.Authorization, "Bearer secret");
+    assert.equal(body.model, "gpt-test");
+    assert.equal(body.max_tokens, 100);
+    assert.deepEqual(body.tools, [
+      {
+        type: "function",
+        function: {
+          name: "click",
+          description: "Click",
+          parameters: { type: "object", properties: {}, required: [] },
+        },
+      },
+    ]);
+    assert.deepEqual(body.messages, [
+      { role: "system", content: "You are a test agent." },
+      { role: "user", content: "Open gedit" },
+      {
+        role: "assistant",
+        content: "Clicking",
+        tool_calls: [
+          {
+            id: "call_0",
+            type: "function",
+            function: { name: "click", arguments: '{"x":1}' },
+          },
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "screenshot", arguments: "{}" },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_0", content: "Done" },
+      {
+        role: "tool",
+        tool_call_id: "call_1",
+        content: "Error: Screen captured",
+      },
+      // Tool messages are text-only, so images follow in a user message
+      {
+        role: "user",
+        content: [
+          {
+            type: "image_url",
+            image_url: { url: "data:image/png;base64,AAAA" },
+          },
+          { type: "text", text: "Hurry up" },
+        ],
+      },
+    ]);
+  });
+
+  it("translates replies back to text and tool_use blocks", async () => {
+    mockFetch(completion);
+
+    const response = await createProvider().createMessage({
+      messages: [{ role: "user", content: "Open gedit" }],
+      maxTokens: 100,
+    });
+
+    assert.deepEqual(response, {
+      content: [
+        { type: "text", text: "Opening the editor" },
+        {
+          type: "tool_use",
+          id: "call_1",
+          name: "launch_app",
+          input: { app: "gedit" },
+        },
+      ],
+      stopReason: "tool_use",
+      usage: { inputTokens: 120, outputTokens: 8 },
+    });
+  });
+
+  it("reports failed requests and malformed replies", async () => {
+    const provider = createProvider();
+    const request = {
+      messages: [{ role: "user" as const, content: "Open gedit" }],
+      maxTokens: 100,
+    };
+
+    mockFetch("model not found", 404);
+    await assert.rejects(
+      provider.createMessage(request),
+      /OpenAI-compatible request failed \(404\): model not found/
+    );
+
+    mock.restoreAll();
+    mockFetch({ choices: [] });
+    await assert.rejects(provider.createMessage(request), /no choices/);
+
+    mock.restoreAll();
+    const broken = structuredClone(completion);
+    broken.choices[0].message.tool_calls[0].function.arguments = "{app:";
+    mockFetch(broken);
+    await assert.rejects(
+      provider.createMessage(request),
+      /invalid tool arguments: \{app:/
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { OpencodeComputerAgent } from "../../src/opencode-agent.js";
+import { createFakeOpencodeClient } from "../fakes.js";
+
+/**
+ * OpencodeComputerAgent reads the health check's `data` but takes every
+ * other response as the body itself
+ */
+function createFakeClient(
+  overrides: Parameters<typeof createFakeOpencodeClient>[0] = {}
+) {
+  return createFakeOpencodeClient(
+    {
+      "global.health": () => ({
+        data: { healthy: true, version: "0.0.0-test" },
+      }),
+      ...overrides,
+    },
+    { wrap: false }
+  );
+}
+
+async function createAgent() {
+  const fake = createFakeClient();
+  const agent = new OpencodeComputerAgent({}, fake.client);
+  await agent.initialize();
+  return { ...fake, agent };
+}
+
+describe("OpencodeComputerAgent", () => {
+  before(() => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it("checks health on an injected client without starting a server", async () => {
+    const { calls } = await createAgent();
+    assert.deepEqual(
+      calls.map((call) => call.method),
+      ["global.health"]
+    );
+  });
+
+  it("requires a session before prompting", async () => {
+    const { agent } = await createAgent();
+
+    await assert.rejects(agent.prompt("hi"), /Session not created/);
+  });
+
+  it("creates a session and sends prompts to it", async () => {
+    const { agent, calls } = await createAgent();
+
+    const session = await agent.createSession("Task");
+    const result = await agent.prompt("open the editor");
+
+    assert.equal(agent.getCurrentSession()?.id, session.id);
+    assert.equal(result.parts[0].type, "text");
+    const prompt = calls.find((call) => call.method === "session.prompt");
+    assert.deepEqual((prompt?.args[0] as any).path, { id: session.id });
+    assert.deepEqual((prompt?.args[0] as any).body.parts, [
+      { type: "text", text: "open the editor" },
+    ]);
+  });
+
+  it("runs shell commands in the current session", async () => {
+    const { agent } = await createAgent();
+    await agent.createSession();
+
+    const result = await agent.shell("pwd");
+
+    assert.equal(result.parts[0].type, "shell");
+  });
+
+  it("deletes the current session on cleanup", async () => {
+    const { agent, sessions } = await createAgent();
+    await agent.createSession();
+    assert.equal(sessions.size, 1);
+
+    await agent.cleanup();
+
+    assert.equal(sessions.size, 0);
+    assert.equal(agent.getCurrentSession(), null);
+  });
+
+  it("propagates client errors", async () => {
+    const { client } = createFakeClient({
+      "session.create": () => {
+        throw new Error("quota exceeded");
+      },
+    });
+    const agent = new OpencodeComputerAgent({}, client);
+    await agent.initialize();
+
+    await assert.rejects(agent.createSession(), /quota exceeded/);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  OpenCodeController,
+  createOpenCodeController,
+} from "../../src/opencode-client.js";
+import { createFakeOpencodeClient } from "../fakes.js";
+
+function createController() {
+  const fake = createFakeOpencodeClient();
+  const controller = createOpenCodeController({ client: fake.client });
+  return { ...fake, controller };
+}
+
+describe("OpenCodeController", () => {
+  it("uses an injected client", () => {
+    const { controller } = createController();
+    assert.ok(controller instanceof OpenCodeController);
+  });
+
+  it("unwraps health and agent responses", async () => {
+    const { controller } = createController();
+
+    assert.deepEqual(await controller.health(), {
+      healthy: true,
+      version: "0.0.0-test",
+    });
+    assert.deepEqual(await controller.listAgents(), [{ name: "build" }]);
+  });
+
+  it("creates, lists and deletes sessions", async () => {
+    const { controller, calls } = createController();
+
+    const session = await controller.createSession("Test session");
+    assert.equal(session.title, "Test session");
+    assert.deepEqual(
+      (await controller.listSessions()).map((s) => s.id),
+      [session.id]
+    );
+    assert.equal(await controller.deleteSession(session.id), true);
+    assert.deepEqual(await controller.listSessions(), []);
+
+    assert.deepEqual(calls[0], {
+      method: "session.create",
+      args: [{ body: { title: "Test session" } }],
+    });
+  });
+
+  it("sends prompts as text parts to the session", async () => {
+    const { controller, calls } = createController();
+    const session = await controller.createSession("Prompt");
+
+    const message: any = await controller.sendPrompt(session.id, "hello", {
+      model: { providerID: "anthropic", modelID: "claude" },
+    });
+
+    assert.equal(message.parts[0].text, "echo: hello");
+    assert.deepEqual(calls.at(-1), {
+      method: "session.prompt",
+      args: [
+        {
+          path: { id: session.id },
+          body: {
+            parts: [{ type: "text", text: "hello" }],
+            noReply: false,
+            model: { providerID: "anthropic", modelID: "claude" },
+          },
+        },
+      ],
+    });
+  });
+
+  it("runs shell commands in the session", async () => {
+    const { controller, calls } = createController();
+
+    await controller.runShell("ses_9", "ls -la");
+
+    assert.deepEqual(calls.at(-1), {
+      method: "session.shell",
+      args: [{ path: { id: "ses_9" }, body: { command: "ls -la" } }],
+    });
+  });
+
+  it("searches and reads files", async () => {
+    const { controller, calls } = createController();
+
+    assert.deepEqual(await controller.findFiles("index", "file"), [
+      "src/index.ts",
+    ]);
+    assert.deepEqual(await controller.readFile("src/index.ts"), {
+      type: "raw",
+      content: "// src/index.ts",
+    });
+    assert.deepEqual(calls[0].args, [
+      { query: { query: "index", type: "file" } },
+    ]);
+  });
+
+  it("propagates client errors", async () => {
+    const { client } = createFakeOpencodeClient({
+      "session.list": () => {
+        throw new Error("server unavailable");
+      },
+    });
+    const controller = new OpenCodeController({ client });
+
+    await assert.rejects(controller.listSessions(), /server unavailable/);
+  });
+});
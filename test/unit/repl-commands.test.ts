@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  CommandRegistry,
+  completePath,
+  completeToolCommand,
+  isToolCommand,
+  parseToolCommand,
+  toolUsage,
+} from "../../src/repl-commands.js";
+import { COMPUTER_TOOLS, getToolDefinition } from "../../src/tools.js";
+
+function createRegistry(calls: string[]): CommandRegistry {
+  return new CommandRegistry()
+    .register({
+      name: "model",
+      args: "[id]",
+      description: "Show or switch the model",
+      run: (args) => {
+        calls.push(`model ${args}`);
+      },
+      complete: () => ["claude-sonnet-4", "claude-opus-4", "gpt-4o"],
+    })
+    .register({
+      name: "history",
+      description: "Show the conversation",
+      run: async () => {
+        calls.push("history");
+      },
+    });
+}
+
+describe("CommandRegistry", () => {
+  it("dispatches commands with their arguments", async () => {
+    const calls: string[] = [];
+    const registry = createRegistry(calls);
+
+    await registry.execute("/model  claude-opus-4 ");
+    await registry.execute("  /history");
+
+    assert.deepEqual(calls, ["model claude-opus-4 ", "history"]);
+    assert.equal(CommandRegistry.isCommand("/cost"), true);
+    assert.equal(CommandRegistry.isCommand("open /tmp"), false);
+  });
+
+  it("rejects unknown commands", async () => {
+    const registry = createRegistry([]);
+
+    await assert.rejects(
+      registry.execute("/nope"),
+      /Unknown command \/nope. Type \/help for a list/
+    );
+  });
+
+  it("lists every command in /help", async (t) => {
+    const log = t.mock.method(console, "log", () => {});
+    const registry = createRegistry([]);
+
+    await registry.execute("/help");
+
+    assert.equal(
+      log.mock.calls[0].arguments[0],
+      [
+        "  /help        List the available commands",
+        "  /history     Show the conversation",
+        "  /model [id]  Show or switch the model",
+      ].join("\n")
+    );
+  });
+
+  it("completes command names and then their arguments", () => {
+    const registry = createRegistry([]);
+
+    assert.deepEqual(registry.complete("/h"), [["/help", "/history"], "/h"]);
+    assert.deepEqual(registry.complete("/model claude-"), [
+      ["claude-sonnet-4", "claude-opus-4"],
+      "claude-",
+    ]);
+    assert.deepEqual(registry.complete("/history 1"), [[], "1"]);
+    assert.deepEqual(registry.complete("open"), [[], "open"]);
+  });
+});
+
+describe("completePath", () => {
+  it("lists entries of the directory typed so far", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "complete-path-"));
+    fs.writeFileSync(path.join(dir, "chat.json"), "[]");
+    fs.mkdirSync(path.join(dir, "saved"));
+
+    assert.deepEqual(completePath(`${dir}/`).sort(), [
+      `${dir}/chat.json`,
+      `${dir}/saved/`,
+    ]);
+    assert.deepEqual(completePath(`${dir}/missing/x`), []);
+  });
+});
+
+describe("parseToolCommand", () => {
+  it("fills arguments in schema order with their types", () => {
+    assert.deepEqual(parseToolCommand("!click 400 300", COMPUTER_TOOLS), {
+      name: "click",
+      input: { x: 400, y: 300 },
+    });
+    assert.deepEqual(
+      parseToolCommand("!click 10 20 right true", COMPUTER_TOOLS).input,
+      { x: 10, y: 20, button: "right", doubleClick: true }
+    );
+    assert.deepEqual(parseToolCommand("!scroll down 5", COMPUTER_TOOLS).input, {
+      direction: "down",
+      amount: 5,
+    });
+    assert.equal(isToolCommand("  !screenshot"), true);
+    assert.equal(isToolCommand("click here!"), false);
+  });
+
+  it("gives single-string tools the rest of the line", () => {
+    assert.deepEqual(parseToolCommand("!type hello  world", COMPUTER_TOOLS), {
+      name: "type",
+      input: { text: "hello  world" },
+    });
+    assert.deepEqual(parseToolCommand("!key ctrl+l", COMPUTER_TOOLS).input, {
+      key: "ctrl+l",
+    });
+  });
+
+  it("reads JSON input", () => {
+    assert.deepEqual(
+      parseToolCommand(
+        '!drag {"path": [{"x": 1, "y": 2}, {"x": 3, "y": 4}]}',
+        COMPUTER_TOOLS
+      ).input,
+      { path: [{ x: 1, y: 2 }, { x: 3, y: 4 }] }
+    );
+    assert.throws(
+      () => parseToolCommand("!drag {x", COMPUTER_TOOLS),
+      /Invalid JSON input for !drag/
+    );
+  });
+
+  it("rejects unknown tools and extra arguments", () => {
+    assert.throws(
+      () => parseToolCommand("!teleport 1 2", COMPUTER_TOOLS),
+      /Unknown tool !teleport/
+    );
+    assert.throws(
+      () => parseToolCommand("!mouse_move 1 2 3", COMPUTER_TOOLS),
+      /Too many arguments. Usage: !mouse_move <x> <y>/
+    );
+  });
+
+  it("describes usage and completes tool names", () => {
+    assert.equal(
+      toolUsage(getToolDefinition("click")!),
+      "!click <x> <y> [button] [doubleClick]"
+    );
+    assert.deepEqual(completeToolCommand("!mo", COMPUTER_TOOLS), [
+      ["!mouse_move"],
+      "!mo",
+    ]);
+    assert.deepEqual(completeToolCommand("!type he", COMPUTER_TOOLS), [
+      [],
+      "!type he",
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { before, describe, it, mock } from "node:test";
+import { replayTrajectory } from "../../src/replay.js";
+import { SafetyPolicy } from "../../src/safety-policy.js";
+import { TrajectoryRecorder } from "../../src/trajectory.js";
+import { FakeDesktopBackend } from "../fakes.js";
+
+describe("replayTrajectory", () => {
+  let dir: string;
+
+  before(() => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "warn", () => {});
+    const recorder = new TrajectoryRecorder("Log out", {
+      rootDir: fs.mkdtempSync(path.join(os.tmpdir(), "replay-")),
+    });
+    const calls = [
+      { name: "click", input: { x: 10, y: 10 }, isError: false },
+      // Rejected by the operator when it was recorded
+      { name: "key", input: { key: "ctrl+alt+Delete" }, isError: true },
+      { name: "type", input: { text: "rm -rf ~" }, isError: false },
+    ];
+    calls.forEach(({ name, input, isError }, index) =>
+      recorder.recordToolCall(
+        { id: `call-${index}`, name, input },
+        {
+          type: "tool_result",
+          tool_use_id: `call-${index}`,
+          content: isError ? "Rejected by the operator" : "done",
+          is_error: isError,
+        },
+        index + 1,
+        5
+      )
+    );
+    recorder.finish({});
+    dir = recorder.dir;
+  });
+
+  it("skips calls that failed when recorded and applies the policy", async () => {
+    const backend = new FakeDesktopBackend();
+
+    const report = await replayTrajectory(dir, {
+      backend,
+      policy: new SafetyPolicy({ text: { deny: ["rm -rf"] } }),
+    });
+
+    assert.deepEqual(
+      report.steps.map((step) => [step.name, step.ok, step.skipped]),
+      [
+        ["click", true, undefined],
+        ["key", true, true],
+        ["type", false, undefined],
+      ]
+    );
+    assert.match(report.steps[2].error ?? "", /Blocked by safety policy/);
+    assert.equal(report.passed, false);
+    assert.equal(backend.methods.includes("press"), false);
+    assert.equal(backend.methods.includes("write"), false);
+  });
+
+  it("re-runs failed calls when asked to", async () => {
+    const backend = new FakeDesktopBackend();
+
+    const report = await replayTrajectory(dir, {
+      backend,
+      policy: new SafetyPolicy(),
+      replayErrors: true,
+    });
+
+    assert.deepEqual(report.steps[1], {
+      step: 2,
+      name: "key",
+      input: { key: "ctrl+alt+Delete" },
+      ok: false,
+      error: "Recorded call failed but replay succeeded",
+    });
+    assert.equal(backend.methods.includes("press"), true);
+  });
+});
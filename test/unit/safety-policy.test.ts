@@ -0,0 +1,282 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { SafetyPolicy, loadSafetyPolicy } from "../../src/safety-policy.js";
+import { createComputerToolRegistry } from "../../src/tool-registry.js";
+import { getToolDefinition } from "../../src/tools.js";
+import { createFakeController } from "../fakes.js";
+
+function writePolicy(name: string, content: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "safety-policy-"));
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+describe("SafetyPolicy", () => {
+  it("allows everything without rules", () => {
+    const policy = loadSafetyPolicy(undefined);
+
+    assert.equal(policy.source, undefined);
+    assert.equal(policy.check("launch_app", { app: "terminal" }), null);
+    assert.equal(policy.check("type", { text: "rm -rf /" }), null);
+  });
+
+  it("checks apps against allow and deny lists", () => {
+    const policy = new SafetyPolicy({
+      apps: { allow: ["gedit", "terminal"], deny: ["terminal"] },
+    });
+
+    assert.equal(policy.check("launch_app", { app: "gedit" }), null);
+    assert.deepEqual(policy.check("launch_app", { app: "terminal" }), {
+      rule: "apps",
+      reason: 'app "terminal" is denied',
+    });
+    assert.match(
+      policy.check("launch_app", { app: "firefox" })!.reason,
+      /not in the allow list/
+    );
+  });
+
+  it("normalises key combos before comparing them", () => {
+    const policy = new SafetyPolicy({
+      keys: { deny: ["Control+Alt+Delete"] },
+    });
+
+    assert.equal(
+      policy.check("key", { key: "ctrl+alt+delete" })?.rule,
+      "keys"
+    );
+    assert.equal(policy.check("key", { key: "alt+shift+Delete" }), null);
+
+    const allowOnly = new SafetyPolicy({ keys: { allow: ["enter", "tab"] } });
+    assert.equal(allowOnly.check("key", { key: "Return" }), null);
+    assert.equal(allowOnly.check("key", { key: "ctrl+w" })?.rule, "keys");
+  });
+
+  it("blocks typed text matching a denied pattern", () => {
+    const policy = new SafetyPolicy({
+      text: {
+        deny: [
+          "rm\\s+-rf",
+          {
+            pattern: "\\b(?:\\d[ -]?){13,16}\\b",
+            reason: "looks like a credit card number",
+          },
+        ],
+      },
+    });
+
+    assert.equal(
+      policy.check("type", { text: "4111 1111 1111 1111" })?.reason,
+      "typed text looks like a credit card number"
+    );
+    assert.equal(
+      policy.check("type", { text: "rm  -rf build" })?.reason,
+      "typed text matches /rm\\s+-rf/"
+    );
+    assert.equal(policy.check("type", { text: "hello world" }), null);
+  });
+
+  it("blocks denied text every time, whatever the pattern flags", () => {
+    const policy = new SafetyPolicy({
+      text: { deny: [{ pattern: "password", flags: "gi" }] },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal(policy.check("type", { text: "My Password" })?.rule, "text");
+    }
+  });
+
+  it("requires typed text to match an allowed pattern when given", () => {
+    const policy = new SafetyPolicy({ text: { allow: ["^[\\w .,]*$"] } });
+
+    assert.equal(policy.check("type", { text: "Hello, world." }), null);
+    assert.equal(policy.check("type", { text: "$(whoami)" })?.rule, "text");
+  });
+
+  it("checks every point of pointer tools against regions", () => {
+    const policy = new SafetyPolicy({
+      regions: {
+        allow: [{ x: 0, y: 0, width: 1000, height: 1000 }],
+        deny: [{ name: "top panel", x: 0, y: 0, width: 1000, height: 30 }],
+      },
+    });
+
+    assert.equal(policy.check("click", { x: 10, y: 100 }), null);
+    assert.equal(
+      policy.check("click", { x: 10, y: 10 })?.reason,
+      "(10, 10) is in denied region top panel"
+    );
+    assert.equal(
+      policy.check("drag", {
+        fromX: 10,
+        fromY: 100,
+        toX: 20,
+        toY: 200,
+        path: [{ x: 2000, y: 100 }],
+      })?.reason,
+      "(2000, 100) is outside the allowed regions"
+    );
+    assert.equal(policy.check("screenshot", {}), null);
+  });
+
+  it("maps model coordinates to the screen before checking regions", () => {
+    const policy = new SafetyPolicy({
+      regions: { deny: [{ x: 100, y: 100, width: 100, height: 100 }] },
+    });
+    const double = (point: { x: number; y: number }) => ({
+      x: point.x * 2,
+      y: point.y * 2,
+    });
+
+    assert.equal(policy.check("click", { x: 60, y: 60 }), null);
+    assert.equal(policy.check("click", { x: 40, y: 40 }, double), null);
+    assert.equal(
+      policy.check("click", { x: 60, y: 60 }, double)?.rule,
+      "regions"
+    );
+  });
+
+  it("narrows the launch_app enum", () => {
+    const launchApp = getToolDefinition("launch_app")!;
+
+    const denying = new SafetyPolicy({ apps: { deny: ["terminal"] } });
+    assert.deepEqual(
+      denying.applyToTool(launchApp).input_schema.properties.app.enum,
+      ["google-chrome", "code", "firefox", "gedit"]
+    );
+
+    const allowing = new SafetyPolicy({ apps: { allow: ["libreoffice"] } });
+    assert.deepEqual(
+      allowing.applyToTool(launchApp).input_schema.properties.app.enum,
+      ["libreoffice"]
+    );
+    assert.ok(launchApp.input_schema.properties.app.enum!.includes("terminal"));
+  });
+
+  it("loads YAML and JSON files", () => {
+    const yaml = loadSafetyPolicy(
+      writePolicy("policy.yaml", "apps:\n  deny: [terminal]\n")
+    );
+    const json = loadSafetyPolicy(
+      writePolicy("policy.json", JSON.stringify({ keys: { deny: ["alt+F4"] } }))
+    );
+
+    assert.equal(yaml.check("launch_app", { app: "terminal" })?.rule, "apps");
+    assert.equal(json.check("key", { key: "alt+f4" })?.rule, "keys");
+    assert.match(json.source!, /policy\.json$/);
+  });
+
+  it("loads the example policy", () => {
+    const policy = SafetyPolicy.load(
+      fileURLToPath(
+        new URL("../../safety-policy.example.yaml", import.meta.url)
+      )
+    );
+
+    assert.equal(policy.check("type", { text: "sudo rm -rf /" })?.rule, "text");
+    assert.equal(policy.check("launch_app", { app: "terminal" })?.rule, "apps");
+  });
+
+  it("rejects malformed policies with the file name", () => {
+    const file = writePolicy(
+      "bad.yaml",
+      "regions:\n  deny:\n    - { x: 0, y: 0, width: 10 }\n"
+    );
+
+    assert.throws(
+      () => SafetyPolicy.load(file),
+      /Invalid safety policy .*bad\.yaml: regions\.deny\[0\]\.height must be a number/
+    );
+    assert.throws(
+      () => SafetyPolicy.load(writePolicy("bad.json", '{"apps": {"block": []}}')),
+      /apps\.block must be "allow" or "deny"/
+    );
+    assert.throws(
+      () => SafetyPolicy.load(writePolicy("bad.yml", "keys:\n  deny: [Retrun]\n")),
+      /Did you mean "Return"/
+    );
+  });
+});
+
+describe("ToolRegistry with a safety policy", () => {
+  it("blocks violations before they reach the desktop", async (t) => {
+    const warnings = t.mock.method(console, "warn", () => {});
+    const { backend, controller } = createFakeController();
+    const registry = createComputerToolRegistry(
+      controller,
+      new SafetyPolicy({ text: { deny: ["rm -rf"] } })
+    );
+
+    await assert.rejects(
+      registry.execute("type", { text: "rm -rf /" }),
+      /Blocked by safety policy: typed text matches \/rm -rf\//
+    );
+    assert.equal(backend.calls.length, 0);
+    assert.equal(warnings.mock.callCount(), 1);
+    assert.match(String(warnings.mock.calls[0].arguments[0]), /type \(text\)/);
+
+    await registry.execute("type", { text: "ls" });
+    assert.deepEqual(backend.methods, ["write"]);
+  });
+
+  it("offers and accepts only the allowed apps", async (t) => {
+    const warnings = t.mock.method(console, "warn", () => {});
+    const { backend, controller } = createFakeController();
+    const registry = createComputerToolRegistry(
+      controller,
+      new SafetyPolicy({ apps: { allow: ["libreoffice"] } })
+    );
+
+    const launchApp = registry
+      .getDefinitions()
+      .find((tool) => tool.name === "launch_app")!;
+    assert.deepEqual(launchApp.input_schema.properties.app.enum, [
+      "libreoffice",
+    ]);
+    await assert.rejects(
+      registry.execute("launch_app", { app: "gedit" }),
+      /Blocked by safety policy: app "gedit" is not in the allow list/
+    );
+    assert.equal(backend.calls.length, 0);
+    assert.equal(warnings.mock.callCount(), 1);
+  });
+
+  it("checks pointer actions without coordinates at the cursor", async (t) => {
+    t.mock.method(console, "warn", () => {});
+    const { backend, controller } = createFakeController();
+    const registry = createComputerToolRegistry(
+      controller,
+      new SafetyPolicy({
+        regions: {
+          deny: [{ name: "top panel", x: 0, y: 0, width: 1280, height: 30 }],
+        },
+      })
+    );
+    backend.cursor = { x: 100, y: 10 };
+
+    for (const [name, input] of [
+      ["left_mouse_down", {}],
+      ["left_mouse_up", {}],
+      ["scroll", { direction: "down" }],
+    ] as const) {
+      await assert.rejects(
+        registry.execute(name, input),
+        /\(100, 10\) is in denied region top panel/
+      );
+    }
+    assert.deepEqual(backend.methods, [
+      "getCursorPosition",
+      "getCursorPosition",
+      "getCursorPosition",
+    ]);
+
+    backend.cursor = { x: 100, y: 300 };
+    await registry.execute("scroll", { direction: "down" });
+    assert.equal(backend.methods.at(-1), "scroll");
+  });
+});
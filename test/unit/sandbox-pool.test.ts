@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SandboxPool } from "../../src/sandbox-pool.js";
+import { FakeDesktopBackend } from "../fakes.js";
+
+function createPool(size: number, recycle = false) {
+  const created: Array<{ slot: number; desktop: FakeDesktopBackend }> = [];
+  const pool = new SandboxPool({
+    size,
+    recycle,
+    create: async (slot) => {
+      const desktop = new FakeDesktopBackend();
+      created.push({ slot, desktop });
+      return desktop;
+    },
+  });
+  return { pool, created };
+}
+
+describe("SandboxPool", () => {
+  it("creates up to its size and queues further leases", async () => {
+    const { pool, created } = createPool(2);
+
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    let third: FakeDesktopBackend | undefined;
+    const waiting = pool.acquire().then((desktop) => {
+      third = desktop as FakeDesktopBackend;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(third, undefined);
+    assert.deepEqual(pool.stats, { size: 2, idle: 0, leased: 2, waiting: 1 });
+
+    await pool.release(first);
+    await waiting;
+
+    assert.equal((first as FakeDesktopBackend).killed, true);
+    assert.equal(third, created[2].desktop);
+    assert.deepEqual(
+      created.map(({ slot }) => slot),
+      [0, 1, 0]
+    );
+    assert.notEqual(third, second);
+    assert.deepEqual(pool.stats, { size: 2, idle: 0, leased: 2, waiting: 0 });
+  });
+
+  it("hands released desktops to the next lease when recycling", async () => {
+    const { pool, created } = createPool(1, true);
+
+    const first = await pool.acquire();
+    const waiting = pool.acquire();
+    await pool.release(first);
+
+    assert.equal(await waiting, first);
+    assert.equal((first as FakeDesktopBackend).killed, false);
+
+    await pool.release(first, { kill: true });
+    assert.equal((first as FakeDesktopBackend).killed, true);
+    assert.notEqual(await pool.acquire(), first);
+    assert.equal(created.length, 2);
+  });
+
+  it("provisions desktops ahead of the leases", async () => {
+    let calls = 0;
+    const pool = new SandboxPool({
+      size: 3,
+      create: async () => {
+        if (++calls === 2) {
+          throw new Error("quota exceeded");
+        }
+        return new FakeDesktopBackend();
+      },
+    });
+
+    assert.equal(await pool.provision(), 2);
+    assert.deepEqual(pool.stats, { size: 3, idle: 2, leased: 0, waiting: 0 });
+
+    await Promise.all([pool.acquire(), pool.acquire(), pool.acquire()]);
+    assert.equal(calls, 4);
+    assert.equal(pool.stats.leased, 3);
+  });
+
+  it("kills the desktop when a task throws", async () => {
+    const { pool, created } = createPool(1, true);
+
+    await assert.rejects(
+      pool.use(async () => {
+        throw new Error("task failed");
+      }),
+      /task failed/
+    );
+    assert.equal(created[0].desktop.killed, true);
+
+    const id = await pool.use(async (desktop) => desktop.id);
+    assert.equal(id, "fake-desktop");
+    assert.equal(created[1].desktop.killed, false);
+    assert.deepEqual(pool.stats, { size: 1, idle: 1, leased: 0, waiting: 0 });
+  });
+
+  it("fails a lease when creating its desktop fails", async () => {
+    const pool = new SandboxPool({
+      size: 1,
+      create: async () => {
+        throw new Error("no sandbox");
+      },
+    });
+
+    await assert.rejects(pool.acquire(), /no sandbox/);
+    assert.deepEqual(pool.stats, { size: 1, idle: 0, leased: 0, waiting: 0 });
+  });
+
+  it("closes: kills idle desktops and rejects waiting leases", async () => {
+    const { pool, created } = createPool(2, true);
+    await pool.provision();
+    const leased = await pool.acquire();
+    await pool.acquire();
+    const waiting = pool.acquire();
+
+    await pool.close();
+
+    await assert.rejects(waiting, /Sandbox pool is closed/);
+    await assert.rejects(pool.acquire(), /Sandbox pool is closed/);
+    assert.deepEqual(
+      created.map(({ desktop }) => desktop.killed),
+      [false, false]
+    );
+    await pool.release(leased);
+    assert.equal((leased as FakeDesktopBackend).killed, true);
+
+    const idle = createPool(2);
+    await idle.pool.provision();
+    await idle.pool.close();
+    assert.ok(idle.created.every(({ desktop }) => desktop.killed));
+  });
+
+  it("rejects invalid sizes and foreign desktops", async () => {
+    assert.throws(() => new SandboxPool({ size: 0 }), /positive integer/);
+    const { pool } = createPool(1);
+    await assert.rejects(
+      pool.release(new FakeDesktopBackend()),
+      /not leased from this pool/
+    );
+  });
+});
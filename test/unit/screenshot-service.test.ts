@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sharp from "sharp";
+import {
+  ScreenshotService,
+  toImageBlock,
+} from "../../src/screenshot-service.js";
+import { FakeDesktopBackend } from "../fakes.js";
+
+function createService(
+  width: number,
+  height: number,
+  options: ConstructorParameters<typeof ScreenshotService>[1] = {}
+) {
+  return new ScreenshotService(new FakeDesktopBackend(width, height), {
+    targetWidth: 1280,
+    targetHeight: 800,
+    settleMs: 0,
+    ...options,
+  });
+}
+
+describe("ScreenshotService", () => {
+  it("maps points one to one before the first capture", () => {
+    const service = createService(1920, 1200);
+
+    assert.deepEqual(service.toScreen({ x: 10, y: 20 }), { x: 10, y: 20 });
+  });
+
+  it("fits the target size and keeps the aspect ratio", async () => {
+    const service = createService(1000, 1000);
+
+    const screenshot = await service.capture();
+
+    assert.equal(screenshot.width, 800);
+    assert.equal(screenshot.height, 800);
+    assert.deepEqual(service.toScreen({ x: 400, y: 799 }), { x: 500, y: 999 });
+    assert.deepEqual(service.toImage({ x: 999, y: 0 }), { x: 799, y: 0 });
+  });
+
+  it("rounds mapped points to whole pixels", async () => {
+    const service = createService(1920, 1200);
+
+    await service.capture();
+
+    assert.deepEqual(service.toScreen({ x: 3, y: 5 }), { x: 5, y: 8 });
+    assert.deepEqual(service.toImage({ x: 5, y: 8 }), { x: 3, y: 5 });
+    assert.deepEqual(service.toScreen(service.toImage({ x: 1919, y: 1199 })), {
+      x: 1919,
+      y: 1199,
+    });
+  });
+
+  it("encodes in the configured format", async () => {
+    const service = createService(1280, 800, { format: "jpeg", quality: 50 });
+
+    const screenshot = await service.capture();
+
+    assert.equal(screenshot.mediaType, "image/jpeg");
+    assert.equal((await sharp(screenshot.buffer).metadata()).format, "jpeg");
+    assert.deepEqual(toImageBlock(screenshot), {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: "image/jpeg",
+        data: screenshot.buffer.toString("base64"),
+      },
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, mock } from "node:test";
+import CONFIG from "../../src/config.js";
+import {
+  SessionStore,
+  hasPendingWork,
+  keepForResume,
+  remainingSteps,
+  sessionModel,
+  type AgentSession,
+} from "../../src/session-store.js";
+import { FakeDesktopBackend } from "../fakes.js";
+
+function createStore(): SessionStore {
+  return new SessionStore(
+    fs.mkdtempSync(path.join(os.tmpdir(), "session-store-"))
+  );
+}
+
+function createSession(store: SessionStore, task = "open gedit"): AgentSession {
+  return store.create(
+    task,
+    { kind: "e2b", id: "sandbox-1" },
+    { provider: "anthropic", model: "mock-model", maxSteps: 10 }
+  );
+}
+
+describe("SessionStore", () => {
+  it("saves new sessions and loads them back", () => {
+    const store = createStore();
+    const session = createSession(store);
+    session.history.push({ role: "user", content: "open gedit" });
+    store.save(session);
+
+    const loaded = store.load(session.runId);
+
+    assert.equal(loaded.status, "running");
+    assert.deepEqual(loaded.desktop, { kind: "e2b", id: "sandbox-1" });
+    assert.deepEqual(loaded.history, [{ role: "user", content: "open gedit" }]);
+    assert.deepEqual(fs.readdirSync(store.dir), [`${session.runId}.json`]);
+  });
+
+  it("lists sessions most recently updated first", async () => {
+    const store = createStore();
+    const first = createSession(store, "first");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    createSession(store, "second");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    store.save(first);
+
+    assert.deepEqual(
+      store.list().map((session) => session.task),
+      ["first", "second"]
+    );
+    assert.deepEqual(new SessionStore(path.join(store.dir, "missing")).list(), []);
+  });
+
+  it("counts steps and saves after each one through its hooks", () => {
+    const store = createStore();
+    const session = createSession(store);
+    const hooks = store.hooks(session);
+
+    hooks.onStepComplete?.(1);
+    hooks.onStepComplete?.(2);
+
+    assert.equal(store.load(session.runId).steps, 2);
+    assert.equal(store.load(session.runId).taskSteps, 2);
+  });
+
+  it("rejects unknown and malformed run IDs", () => {
+    const store = createStore();
+
+    assert.throws(() => store.load("nope"), /No saved session nope/);
+    assert.throws(() => store.load("../etc/passwd"), /Invalid run ID/);
+  });
+});
+
+describe("hasPendingWork", () => {
+  it("is true while the last message awaits a model reply", () => {
+    const store = createStore();
+    const session = createSession(store);
+
+    assert.equal(hasPendingWork(session), false);
+    session.history.push({ role: "user", content: "open gedit" });
+    assert.equal(hasPendingWork(session), true);
+    session.history.push({ role: "assistant", content: "Done." });
+    assert.equal(hasPendingWork(session), false);
+  });
+});
+
+describe("remainingSteps", () => {
+  it("counts the steps the latest instruction already used", () => {
+    const session = createSession(createStore());
+
+    assert.equal(remainingSteps(session), 10);
+    Object.assign(session, { steps: 14, taskSteps: 4 });
+    assert.equal(remainingSteps(session), 6);
+    // Sessions saved before taskSteps existed fall back to the total
+    Object.assign(session, { steps: 7, taskSteps: undefined });
+    assert.equal(remainingSteps(session), 3);
+    Object.assign(session, { taskSteps: 12 });
+    assert.equal(remainingSteps(session), 0);
+  });
+});
+
+describe("sessionModel", () => {
+  it("continues on the model the session ran with", () => {
+    const session = createSession(createStore());
+    session.config.provider = CONFIG.model.provider;
+
+    assert.deepEqual(sessionModel(session), {
+      ...CONFIG.model,
+      name: "mock-model",
+    });
+  });
+
+  it("uses another provider's own endpoint", () => {
+    const session = createSession(createStore());
+    session.config.provider =
+      CONFIG.model.provider === "openai" ? "anthropic" : "openai";
+    const saved = { ...process.env };
+    process.env.OPENAI_BASE_URL = "https://openai.example/v1";
+    process.env.OPENAI_API_KEY = "openai-key";
+    process.env.ANTHROPIC_BASE_URL = "https://anthropic.example";
+    process.env.ANTHROPIC_API_KEY = "anthropic-key";
+
+    try {
+      const model = sessionModel(session);
+      assert.equal(model.provider, session.config.provider);
+      assert.equal(model.name, "mock-model");
+      assert.match(model.baseURL!, /\.example/);
+      assert.match(model.apiKey!, /-key$/);
+      assert.notEqual(model.baseURL, CONFIG.model.baseURL);
+    } finally {
+      process.env = saved;
+    }
+  });
+});
+
+describe("keepForResume", () => {
+  it("extends the desktop's life and only warns when that fails", async () => {
+    const warn = mock.method(console, "warn", () => {});
+    const desktop = Object.assign(new FakeDesktopBackend(), {
+      keepAlive: mock.fn(async (_ms: number) => {}),
+    });
+
+    await keepForResume(desktop);
+    desktop.keepAlive.mock.mockImplementation(async () => {
+      throw new Error("sandbox not found");
+    });
+    await keepForResume(desktop);
+    await keepForResume(new FakeDesktopBackend());
+
+    assert.deepEqual(desktop.keepAlive.mock.calls[0].arguments, [
+      CONFIG.e2b.pausedTimeoutMs,
+    ]);
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(
+      String(warn.mock.calls[0].arguments[0]),
+      /Could not keep desktop fake-desktop alive: sandbox not found/
+    );
+    warn.mock.restore();
+  });
+});
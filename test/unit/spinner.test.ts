@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Spinner } from "../../src/spinner.js";
+
+function createOutput(isTTY: boolean) {
+  const writes: string[] = [];
+  return {
+    writes,
+    output: { isTTY, write: (text: string) => writes.push(text) },
+  };
+}
+
+describe("Spinner", () => {
+  it("draws, hides while suspended and clears on stop", () => {
+    const { writes, output } = createOutput(true);
+    const spinner = new Spinner(output, 60_000);
+
+    spinner.start("Running click");
+    assert.equal(spinner.running, true);
+    assert.match(writes[0], /⠋ Running click \(0\.0s\)$/);
+
+    spinner.suspend();
+    spinner.resume();
+    assert.equal(writes[1], "\r\x1b[K");
+    assert.match(writes[2], /⠙ Running click/);
+
+    spinner.stop();
+    assert.equal(spinner.running, false);
+    assert.equal(writes.at(-1), "\r\x1b[K");
+  });
+
+  it("stays hidden when started while suspended", () => {
+    const { writes, output } = createOutput(true);
+    const spinner = new Spinner(output, 60_000);
+
+    spinner.suspend();
+    spinner.start("Running type");
+    assert.deepEqual(writes, []);
+
+    spinner.resume();
+    assert.match(writes[0], /Running type/);
+    spinner.stop();
+  });
+
+  it("draws nothing when the output is not a terminal", () => {
+    const { writes, output } = createOutput(false);
+    const spinner = new Spinner(output);
+
+    spinner.start("Running wait");
+    spinner.stop();
+
+    assert.deepEqual(writes, []);
+    assert.equal(spinner.running, false);
+  });
+});
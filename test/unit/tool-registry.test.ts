@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ToolRegistry,
+  createComputerToolRegistry,
+} from "../../src/tool-registry.js";
+import { COMPUTER_TOOLS } from "../../src/tools.js";
+import { createFakeController } from "../fakes.js";
+
+describe("ToolRegistry", () => {
+  it("registers a handler for every built-in tool", () => {
+    const { controller } = createFakeController();
+    const registry = createComputerToolRegistry(controller);
+
+    for (const definition of COMPUTER_TOOLS) {
+      assert.ok(registry.has(definition.name), definition.name);
+    }
+    assert.deepEqual(
+      registry.getDefinitions().map((d) => d.name),
+      COMPUTER_TOOLS.map((d) => d.name)
+    );
+  });
+
+  it("returns screenshots as image blocks", async () => {
+    const { controller } = createFakeController();
+    const registry = createComputerToolRegistry(controller);
+
+    const result = await registry.execute("screenshot", {});
+
+    assert.ok(Array.isArray(result));
+    assert.equal(result[0].type, "image");
+  });
+
+  it("maps screenshot coordinates to the native screen", async () => {
+    const { backend, controller } = createFakeController({
+      width: 2560,
+      height: 1600,
+    });
+    const registry = createComputerToolRegistry(controller);
+
+    await registry.execute("screenshot", {});
+    await registry.execute("click", { x: 100, y: 50, button: "right" });
+    await registry.execute("scroll", { direction: "down", x: 10, y: 10 });
+
+    assert.deepEqual(backend.calls.slice(1), [
+      { method: "click", args: [{ x: 200, y: 100 }, "right"] },
+      { method: "moveMouse", args: [{ x: 20, y: 20 }] },
+      { method: "scroll", args: ["down", 3] },
+    ]);
+  });
+
+  it("reports the cursor in screenshot coordinates", async () => {
+    const { backend, controller } = createFakeController({
+      width: 2560,
+      height: 1600,
+    });
+    const registry = createComputerToolRegistry(controller);
+    backend.cursor = { x: 400, y: 300 };
+
+    await registry.execute("screenshot", {});
+    const result = await registry.execute("cursor_position", {});
+
+    assert.deepEqual(JSON.parse(result as string), { x: 200, y: 150 });
+  });
+
+  it("normalises keys before pressing them", async () => {
+    const { backend, controller } = createFakeController();
+    const registry = createComputerToolRegistry(controller);
+
+    await registry.execute("key", { key: "ctrl+L" });
+
+    assert.deepEqual(backend.calls, [{ method: "press", args: ["ctrl+l"] }]);
+  });
+
+  it("rejects unknown tools and invalid input", async () => {
+    const { backend, controller } = createFakeController();
+    const registry = createComputerToolRegistry(controller);
+
+    await assert.rejects(registry.execute("teleport", {}), /Unknown tool/);
+    await assert.rejects(
+      registry.execute("click", { x: 1 }),
+      /Invalid input for click: input.y is required/
+    );
+    assert.equal(backend.calls.length, 0);
+  });
+
+  it("dispatches custom tools", async () => {
+    const { controller } = createFakeController();
+    const registry = new ToolRegistry(controller);
+
+    registry.register(
+      {
+        name: "echo",
+        description: "Echo the input",
+        input_schema: {
+          type: "object",
+          properties: { text: { type: "string" } },
+          required: ["text"],
+        },
+      },
+      async (input) => String(input.text)
+    );
+
+    assert.equal(await registry.execute("echo", { text: "hi" }), "hi");
+  });
+});
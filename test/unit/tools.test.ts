@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  COMPUTER_TOOLS,
+  getToolDefinition,
+  getToolsForAPI,
+  validateToolInput,
+} from "../../src/tools.js";
+
+function tool(name: string) {
+  const definition = getToolDefinition(name);
+  assert.ok(definition, `tool ${name} should exist`);
+  return definition;
+}
+
+describe("tools", () => {
+  it("has unique names and object schemas", () => {
+    const names = COMPUTER_TOOLS.map((t) => t.name);
+    assert.equal(new Set(names).size, names.length);
+    for (const definition of COMPUTER_TOOLS) {
+      assert.equal(definition.input_schema.type, "object");
+      assert.ok(definition.description.length > 0);
+    }
+  });
+
+  it("exposes only API fields", () => {
+    for (const definition of getToolsForAPI()) {
+      assert.deepEqual(Object.keys(definition).sort(), [
+        "description",
+        "input_schema",
+        "name",
+      ]);
+    }
+  });
+
+  it("returns undefined for unknown tools", () => {
+    assert.equal(getToolDefinition("teleport"), undefined);
+  });
+
+  it("accepts valid input", () => {
+    assert.deepEqual(validateToolInput(tool("click"), { x: 1, y: 2 }), []);
+    assert.deepEqual(
+      validateToolInput(tool("click"), {
+        x: 1,
+        y: 2,
+        button: "right",
+        doubleClick: true,
+      }),
+      []
+    );
+    assert.deepEqual(validateToolInput(tool("screenshot"), {}), []);
+  });
+
+  it("reports missing required properties", () => {
+    assert.deepEqual(validateToolInput(tool("click"), { x: 1 }), [
+      "input.y is required",
+    ]);
+  });
+
+  it("reports wrong types and enum values", () => {
+    assert.deepEqual(
+      validateToolInput(tool("click"), { x: "1", y: 2, button: "back" }),
+      ["input.x must be a number", "input.button must be one of: left, right, middle"]
+    );
+    assert.deepEqual(validateToolInput(tool("type"), { text: 42 }), [
+      "input.text must be a string",
+    ]);
+  });
+
+  it("validates nested drag paths", () => {
+    assert.deepEqual(
+      validateToolInput(tool("drag"), {
+        fromX: 0,
+        fromY: 0,
+        toX: 1,
+        toY: 1,
+        path: [{ x: 0, y: 1 }, { x: "a" }],
+      }),
+      ["input.path[1].y is required", "input.path[1].x must be a number"]
+    );
+  });
+
+  it("rejects non-object input", () => {
+    assert.deepEqual(validateToolInput(tool("wait"), null), [
+      "input must be an object",
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  TrajectoryRecorder,
+  createRunId,
+  loadTrajectory,
+} from "../../src/trajectory.js";
+
+function createRecorder() {
+  return new TrajectoryRecorder("Open gedit", {
+    rootDir: fs.mkdtempSync(path.join(os.tmpdir(), "trajectory-")),
+    model: "mock-model",
+    backend: "local:99",
+  });
+}
+
+describe("TrajectoryRecorder", () => {
+  it("writes the task, events and images of a run", () => {
+    const recorder = createRecorder();
+    const screenshot = Buffer.from("jpeg bytes");
+
+    recorder.recordScreenshot(
+      { buffer: screenshot, mediaType: "image/jpeg" } as any,
+      0,
+      "initial"
+    );
+    recorder.hooks().onText?.("Opening gedit", 1);
+    recorder.hooks().onToolResult?.(
+      { id: "call-1", name: "screenshot", input: {} },
+      {
+        type: "tool_result",
+        tool_use_id: "call-1",
+        content: [
+          { type: "text", text: "Screen captured" },
+          {
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: "image/png",
+              data: Buffer.from("png bytes").toString("base64"),
+            },
+          },
+        ],
+      },
+      1,
+      42
+    );
+    recorder.recordToolCall(
+      { id: "call-2", name: "key", input: { key: "ctrl+q" } },
+      {
+        type: "tool_result",
+        tool_use_id: "call-2",
+        content: "Rejected",
+        is_error: true,
+      },
+      2,
+      3
+    );
+    recorder.finish({ error: new Error("budget exceeded") });
+
+    const { task, events } = loadTrajectory(recorder.dir);
+    assert.equal(task.runId, recorder.runId);
+    assert.equal(task.prompt, "Open gedit");
+    assert.equal(task.model, "mock-model");
+    assert.equal(task.backend, "local:99");
+    assert.equal(task.error, "budget exceeded");
+    assert.ok(task.finishedAt! >= task.startedAt);
+
+    assert.deepEqual(
+      events.map(({ timestamp: _, ...event }) => event),
+      [
+        {
+          type: "screenshot",
+          step: 0,
+          file: path.join("screenshots", "0001.jpg"),
+          label: "initial",
+        },
+        { type: "text", step: 1, text: "Opening gedit" },
+        {
+          type: "tool_call",
+          step: 1,
+          id: "call-1",
+          name: "screenshot",
+          input: {},
+          result: [
+            { type: "text", text: "Screen captured" },
+            { type: "image", file: path.join("screenshots", "0002.png") },
+          ],
+          isError: false,
+          durationMs: 42,
+        },
+        {
+          type: "tool_call",
+          step: 2,
+          id: "call-2",
+          name: "key",
+          input: { key: "ctrl+q" },
+          result: "Rejected",
+          isError: true,
+          durationMs: 3,
+        },
+      ]
+    );
+    assert.equal(
+      fs.readFileSync(path.join(recorder.dir, "screenshots", "0001.jpg"), "utf8"),
+      "jpeg bytes"
+    );
+    assert.equal(
+      fs.readFileSync(path.join(recorder.dir, "screenshots", "0002.png"), "utf8"),
+      "png bytes"
+    );
+  });
+
+  it("uses the given run ID as its directory", () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "trajectory-"));
+
+    const recorder = new TrajectoryRecorder("task", { rootDir, runId: "run-1" });
+
+    assert.equal(recorder.dir, path.join(rootDir, "run-1"));
+    assert.deepEqual(loadTrajectory(recorder.dir).events, []);
+  });
+});
+
+describe("loadTrajectory", () => {
+  it("rejects directories without task.json", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "trajectory-"));
+
+    assert.throws(() => loadTrajectory(dir), /missing task\.json/);
+  });
+});
+
+describe("createRunId", () => {
+  it("creates unique IDs that sort by time", async () => {
+    const first = createRunId();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = createRunId();
+
+    assert.match(first, /^\d{4}-\d{2}-\d{2}T[\d-]+Z-[0-9a-f]{6}$/);
+    assert.ok(first < second);
+  });
+});
@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  formatVerification,
+  parseVerifiers,
+  runVerifiers,
+} from "../../src/verifiers.js";
+import { FakeDesktopBackend, writeTestImage } from "../fakes.js";
+
+describe("runVerifiers", () => {
+  it("checks files, windows and commands on the desktop", async () => {
+    const desktop = new FakeDesktopBackend();
+    desktop.onCommand = (command) =>
+      command.startsWith("cat")
+        ? { exitCode: 0, stdout: "total: 42\n", stderr: "" }
+        : command.startsWith("xdotool")
+          ? { exitCode: 1, stdout: "", stderr: "" }
+          : { exitCode: 2, stdout: "", stderr: "tests failed\n" };
+
+    const results = await runVerifiers(desktop, [
+      { type: "file", path: "~/it's.txt", contains: "total" },
+      { type: "file", path: "/tmp/sum.txt", matches: "total: \\d+$" },
+      { type: "file", path: "/tmp/sum.txt", contains: "43" },
+      { type: "window", title: "Untitled.*gedit" },
+      { type: "command", command: "npm test" },
+    ]);
+
+    assert.deepEqual(results, [
+      { verifier: `~/it's.txt contains "total"`, passed: true },
+      { verifier: "/tmp/sum.txt matches /total: \\d+$/", passed: false,
+        detail: "/tmp/sum.txt does not match /total: \\d+$/" },
+      { verifier: `/tmp/sum.txt contains "43"`, passed: false,
+        detail: `/tmp/sum.txt does not contain "43"` },
+      { verifier: "a window titled /Untitled.*gedit/ is open", passed: false,
+        detail: "no visible window has a matching title" },
+      { verifier: "`npm test` succeeds", passed: false,
+        detail: "exit code 2: tests failed" },
+    ]);
+    assert.deepEqual(
+      desktop.calls.map((call) => call.args[0]),
+      [
+        `cat -- "$HOME"/'it'\\''s.txt'`,
+        "cat -- '/tmp/sum.txt'",
+        "cat -- '/tmp/sum.txt'",
+        "xdotool search --onlyvisible --name 'Untitled.*gedit'",
+        "npm test",
+      ]
+    );
+  });
+
+  it("compares the screen with a reference screenshot", async () => {
+    const desktop = new FakeDesktopBackend(64, 40);
+    const same = await writeTestImage(64, 40);
+    const other = await writeTestImage(64, 40, "#ffffff");
+
+    const results = await runVerifiers(desktop, [
+      { type: "screenshot", reference: same },
+      { type: "screenshot", reference: other, threshold: 0.5 },
+    ]);
+
+    assert.deepEqual(results, [
+      {
+        verifier: "screen matches screen.png",
+        passed: true,
+        detail: "0.00% of pixels differ",
+      },
+      {
+        verifier: "screen matches screen.png",
+        passed: false,
+        detail: "100.00% of pixels differ",
+      },
+    ]);
+    assert.equal(desktop.screenshotFiles.length, 2);
+    assert.equal(desktop.screenshotFiles.some(fs.existsSync), false);
+  });
+
+  it("fails verifiers that cannot run", async () => {
+    const desktop = new FakeDesktopBackend();
+    Object.assign(desktop, { runCommand: undefined });
+
+    const [result] = await runVerifiers(desktop, [
+      { type: "command", command: "true" },
+    ]);
+
+    assert.deepEqual(result, {
+      verifier: "`true` succeeds",
+      passed: false,
+      detail: "The local desktop backend cannot run commands",
+    });
+  });
+});
+
+describe("parseVerifiers", () => {
+  it("resolves screenshot references against the task file", () => {
+    assert.deepEqual(
+      parseVerifiers(
+        [
+          { type: "text", text: "Saved" },
+          { type: "screenshot", reference: "refs/done.png" },
+        ],
+        "task 1",
+        "/suites"
+      ),
+      [
+        { type: "text", text: "Saved" },
+        { type: "screenshot", reference: path.resolve("/suites/refs/done.png") },
+      ]
+    );
+    assert.deepEqual(parseVerifiers(undefined, "task 1", "/suites"), []);
+  });
+
+  it("rejects unknown types and missing fields", () => {
+    assert.throws(
+      () => parseVerifiers({ type: "file" }, "task 1", "."),
+      /task 1 has a `verify` that is not a list/
+    );
+    assert.throws(
+      () => parseVerifiers([{ type: "toString" }], "task 2", "."),
+      /task 2 has a verifier of unknown type toString/
+    );
+    assert.throws(
+      () => parseVerifiers(["file", null], "task 2", "."),
+      /task 2 has a verifier of unknown type undefined/
+    );
+    assert.throws(
+      () => parseVerifiers([{ type: "window" }], "task 3", "."),
+      /task 3 has a window verifier without title/
+    );
+  });
+
+  it("checks the types of optional fields and compiles patterns", () => {
+    assert.throws(
+      () =>
+        parseVerifiers(
+          [{ type: "screenshot", reference: "a.png", threshold: "0.1" }],
+          "task 4",
+          "."
+        ),
+      /task 4 has a screenshot verifier whose threshold is not a number/
+    );
+    assert.throws(
+      () =>
+        parseVerifiers([{ type: "file", path: "/x", contains: 42 }], "task 5", "."),
+      /task 5 has a file verifier whose contains is not a string/
+    );
+    assert.throws(
+      () =>
+        parseVerifiers([{ type: "file", path: "/x", matches: "(" }], "task 6", "."),
+      /task 6 has a file verifier with an invalid matches: Invalid regular expression/
+    );
+    assert.deepEqual(
+      parseVerifiers(
+        [{ type: "file", path: "/x", matches: "^ok$", contains: "ok" }],
+        "task 7",
+        "."
+      ),
+      [{ type: "file", path: "/x", matches: "^ok$", contains: "ok" }]
+    );
+  });
+});
+
+describe("formatVerification", () => {
+  it("lists each verifier with the reason it failed", () => {
+    assert.equal(
+      formatVerification([
+        { verifier: "`true` succeeds", passed: true },
+        { verifier: "/x exists", passed: false, detail: "/x does not exist" },
+      ]),
+      "  ✓ `true` succeeds\n  ✗ /x exists - /x does not exist"
+    );
+  });
+});